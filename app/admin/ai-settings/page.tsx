@@ -3,10 +3,19 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 
+// Placeholder model names shown for each provider
+const PROVIDER_MODEL_HINTS: Record<string, { model: string; analyzer: string; examples: string; keyPrefix: string }> = {
+  openai: { model: 'gpt-4o-mini', analyzer: 'gpt-4o', examples: 'gpt-4o-mini, gpt-4o, gpt-4-turbo', keyPrefix: 'sk-...' },
+  anthropic: { model: 'claude-sonnet-4-5', analyzer: 'claude-opus-4-1', examples: 'claude-sonnet-4-5, claude-opus-4-1, claude-3-5-haiku-latest', keyPrefix: 'sk-ant-...' },
+  'openai-compatible': { model: 'llama3.1:8b', analyzer: 'qwen2.5-coder:14b', examples: 'llama3.1:8b, qwen2.5-coder:14b, mistral-nemo', keyPrefix: 'optional' },
+};
+
 interface AIConfig {
   provider: string;
   model: string;
   queryAnalyzerModel?: string;
+  codeValidatorModel?: string;
+  baseURL?: string;
   apiKeySet: boolean;
 }
 
@@ -21,6 +30,8 @@ export default function AISettingsAdmin() {
   const [provider, setProvider] = useState('openai');
   const [model, setModel] = useState('gpt-4o-mini');
   const [queryAnalyzerModel, setQueryAnalyzerModel] = useState('');
+  const [codeValidatorModel, setCodeValidatorModel] = useState('');
+  const [baseURL, setBaseURL] = useState('');
   const [apiKey, setApiKey] = useState('');
   const [confirmApiKey, setConfirmApiKey] = useState('');
 
@@ -38,6 +49,8 @@ export default function AISettingsAdmin() {
       setProvider(data.provider || 'openai');
       setModel(data.model || 'gpt-4o-mini');
       setQueryAnalyzerModel(data.queryAnalyzerModel || '');
+      setCodeValidatorModel(data.codeValidatorModel || '');
+      setBaseURL(data.baseURL || '');
       setLoading(false);
     } catch (error) {
       console.error('Failed to load AI config:', error);
@@ -64,6 +77,8 @@ export default function AISettingsAdmin() {
           provider,
           model,
           queryAnalyzerModel: queryAnalyzerModel || undefined,
+          codeValidatorModel: codeValidatorModel || undefined,
+          baseURL: baseURL || undefined,
           apiKey: apiKey || undefined, // Only send if changed
         }),
       });
@@ -89,6 +104,8 @@ export default function AISettingsAdmin() {
     }
   };
 
+  const hints = PROVIDER_MODEL_HINTS[provider] || PROVIDER_MODEL_HINTS.openai;
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 p-8">
@@ -138,14 +155,35 @@ export default function AISettingsAdmin() {
               className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             >
               <option value="openai">OpenAI</option>
-              <option value="anthropic" disabled>Anthropic (Coming Soon)</option>
+              <option value="anthropic">Anthropic</option>
+              <option value="openai-compatible">Local (OpenAI-compatible: Ollama, llama.cpp, vLLM)</option>
+              <option value="replay">Replay (recorded fixtures, for offline testing)</option>
               <option value="azure" disabled>Azure OpenAI (Coming Soon)</option>
             </select>
             <p className="mt-1 text-sm text-gray-500">
-              Currently only OpenAI is supported
+              Switching provider also switches which API key environment variable is used
             </p>
           </div>
 
+          {/* Base URL (local servers only) */}
+          {provider === 'openai-compatible' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Server Base URL
+              </label>
+              <input
+                type="text"
+                value={baseURL}
+                onChange={(e) => setBaseURL(e.target.value)}
+                placeholder="http://localhost:11434/v1"
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono"
+              />
+              <p className="mt-1 text-sm text-gray-500">
+                OpenAI-compatible endpoint. Ollama: http://localhost:11434/v1, llama.cpp: http://localhost:8080/v1, vLLM: http://localhost:8000/v1
+              </p>
+            </div>
+          )}
+
           {/* Model */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -155,11 +193,11 @@ export default function AISettingsAdmin() {
               type="text"
               value={model}
               onChange={(e) => setModel(e.target.value)}
-              placeholder="gpt-4o-mini"
+              placeholder={hints.model}
               className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             />
             <p className="mt-1 text-sm text-gray-500">
-              Model used for Phase 3 (response generation). Examples: gpt-4o-mini, gpt-4o, gpt-4-turbo
+              Model used for Phase 3 (response generation). Examples: {hints.examples}
             </p>
           </div>
 
@@ -172,11 +210,28 @@ export default function AISettingsAdmin() {
               type="text"
               value={queryAnalyzerModel}
               onChange={(e) => setQueryAnalyzerModel(e.target.value)}
-              placeholder="gpt-4o (leave empty to use default model)"
+              placeholder={`${hints.analyzer} (leave empty to use default model)`}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <p className="mt-1 text-sm text-gray-500">
+              Model used for Phase 1 (query analysis). Use a more capable model like {hints.analyzer} for better code generation.
+            </p>
+          </div>
+
+          {/* Code Validator Model */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Code Validator Model (Optional)
+            </label>
+            <input
+              type="text"
+              value={codeValidatorModel}
+              onChange={(e) => setCodeValidatorModel(e.target.value)}
+              placeholder={`${hints.model} (leave empty to use default model)`}
               className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             />
             <p className="mt-1 text-sm text-gray-500">
-              Model used for Phase 1 (query analysis). Use a more capable model like gpt-4o for better code generation.
+              Model used for Phase 1.5 (code safety validation).
             </p>
           </div>
 
@@ -205,7 +260,7 @@ export default function AISettingsAdmin() {
                   type="password"
                   value={apiKey}
                   onChange={(e) => setApiKey(e.target.value)}
-                  placeholder="sk-..."
+                  placeholder={hints.keyPrefix}
                   className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono"
                 />
                 <p className="mt-1 text-sm text-gray-500">
@@ -221,7 +276,7 @@ export default function AISettingsAdmin() {
                   type="password"
                   value={confirmApiKey}
                   onChange={(e) => setConfirmApiKey(e.target.value)}
-                  placeholder="sk-..."
+                  placeholder={hints.keyPrefix}
                   className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono"
                 />
               </div>
@@ -12,6 +12,32 @@ interface Dataset {
   hasReadme: boolean;
 }
 
+interface Relationship {
+  name: string;
+  description?: string;
+  from: string;
+  to: string;
+  type?: 'inner' | 'left';
+  keys?: Array<{ from: string; to: string }>;
+  dateRange?: { field: string; start: string; end?: string; endInclusive?: boolean };
+}
+
+interface RelationshipSuggestion {
+  relationship: Relationship;
+  score: number;
+  reasons: string[];
+}
+
+// Join condition in words, e.g. "launch_date within presidential_start – presidential_end"
+function describeConditions(relationship: Relationship): string {
+  const conditions = (relationship.keys || []).map(key => `${relationship.from}.${key.from} = ${relationship.to}.${key.to}`);
+  const range = relationship.dateRange;
+  if (range) {
+    conditions.push(`${relationship.to}.${range.field} within ${range.start}${range.end ? ` – ${range.end}` : ' onwards'}`);
+  }
+  return conditions.join(' and ');
+}
+
 export default function DatasetManagementPage() {
   const router = useRouter();
   const [datasets, setDatasets] = useState<Dataset[]>([]);
@@ -19,6 +45,11 @@ export default function DatasetManagementPage() {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [openMenuDataset, setOpenMenuDataset] = useState<string | null>(null);
+  const [relationships, setRelationships] = useState<Relationship[]>([]);
+  const [suggestions, setSuggestions] = useState<RelationshipSuggestion[]>([]);
+  const [relationshipsLoading, setRelationshipsLoading] = useState(true);
+  const [acceptingRelationship, setAcceptingRelationship] = useState<string | null>(null);
+  const [relationshipError, setRelationshipError] = useState<string | null>(null);
 
   useEffect(() => {
     // Load available datasets
@@ -27,6 +58,16 @@ export default function DatasetManagementPage() {
       .then(data => {
         setDatasets(data.datasets || []);
         setLoading(false);
+
+        // Discover relationships between all datasets (reads their data, so it can take a moment)
+        const names = (data.datasets || []).map((dataset: Dataset) => dataset.name).join(',');
+        return fetch(`/api/admin/relationships?datasets=${encodeURIComponent(names)}`)
+          .then(res => res.json())
+          .then(result => {
+            setRelationships(result.relationships || []);
+            setSuggestions(result.suggestions || []);
+          })
+          .finally(() => setRelationshipsLoading(false));
       })
       .catch(err => {
         console.error('Failed to load datasets:', err);
@@ -61,6 +102,29 @@ export default function DatasetManagementPage() {
     });
   };
 
+  const handleAcceptSuggestion = async (suggestion: RelationshipSuggestion) => {
+    setAcceptingRelationship(suggestion.relationship.name);
+    setRelationshipError(null);
+
+    try {
+      const res = await fetch('/api/admin/relationships', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ relationship: suggestion.relationship }),
+      });
+      const result = await res.json();
+      if (!res.ok) {
+        throw new Error(result.error || 'Failed to save relationship');
+      }
+      setRelationships(result.relationships || []);
+      setSuggestions(prev => prev.filter(s => s.relationship.name !== suggestion.relationship.name));
+    } catch (err) {
+      setRelationshipError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setAcceptingRelationship(null);
+    }
+  };
+
   const handleSave = async () => {
     setSaving(true);
 
@@ -184,6 +248,74 @@ export default function DatasetManagementPage() {
           ))}
         </div>
 
+        <div className="mb-6 pt-4 border-t">
+          <h2 className="text-xl font-semibold mb-1">🔗 Relationships</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            Declared relationships are joined for the planner when both of their datasets are selected.
+            Suggestions come from matching field names, overlapping values and dates that fall within another dataset&apos;s ranges.
+          </p>
+
+          {relationships.length > 0 && (
+            <div className="space-y-2 mb-4">
+              {relationships.map(relationship => (
+                <div key={relationship.name} className="border border-gray-200 rounded-lg p-3">
+                  <div className="flex items-center gap-2">
+                    <span className="text-green-600">✅</span>
+                    <span className="font-mono text-sm font-semibold">{relationship.name}</span>
+                    <span className="text-sm text-gray-600">{relationship.from} → {relationship.to}</span>
+                  </div>
+                  <div className="text-sm text-gray-600 mt-1">{describeConditions(relationship)}</div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {relationshipError && (
+            <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+              {relationshipError}
+            </div>
+          )}
+
+          {relationshipsLoading ? (
+            <p className="text-sm text-gray-500">Analyzing datasets for relationships...</p>
+          ) : suggestions.length === 0 ? (
+            <p className="text-sm text-gray-500">No new relationships found between the datasets.</p>
+          ) : (
+            <div className="space-y-2">
+              {suggestions.map(suggestion => (
+                <div key={suggestion.relationship.name} className="border border-dashed border-gray-300 rounded-lg p-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-mono text-sm font-semibold">{suggestion.relationship.name}</span>
+                        <span className="text-xs px-2 py-0.5 rounded bg-gray-100 text-gray-700">
+                          {Math.round(suggestion.score * 100)}% confidence
+                        </span>
+                      </div>
+                      <div className="text-sm text-gray-600 mt-1">
+                        {suggestion.relationship.from} → {suggestion.relationship.to}: {describeConditions(suggestion.relationship)}
+                      </div>
+                      <ul className="text-xs text-gray-500 mt-1 list-disc list-inside">
+                        {suggestion.reasons.map(reason => (
+                          <li key={reason}>{reason}</li>
+                        ))}
+                      </ul>
+                    </div>
+                    <button
+                      onClick={() => handleAcceptSuggestion(suggestion)}
+                      disabled={acceptingRelationship !== null}
+                      className="px-3 py-1.5 text-sm text-white rounded-lg font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                      style={{ backgroundColor: 'var(--color-primary)' }}
+                    >
+                      {acceptingRelationship === suggestion.relationship.name ? 'Saving...' : 'Accept'}
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
         <div className="flex items-center justify-between pt-4 border-t">
           <div className="text-sm text-gray-600">
             {selectedDatasets.length === 0 && 'No datasets selected'}
@@ -2,10 +2,24 @@ import { NextRequest, NextResponse } from 'next/server';
 import { promises as fs } from 'fs';
 import path from 'path';
 import yaml from 'js-yaml';
+import { clearConfigCache } from '@/lib/config';
 
 const CONFIG_PATH = path.join(process.cwd(), 'config', 'app.yaml');
 const ENV_PATH = path.join(process.cwd(), '.env');
 
+// Environment variable holding the API key for each supported provider
+const PROVIDER_API_KEY_ENV: Record<string, string> = {
+  openai: 'OPENAI_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY',
+  'openai-compatible': 'LOCAL_AI_API_KEY',
+};
+
+// The replay provider records through a live provider, so it uses that provider's key
+function getApiKeyEnvVar(provider: string, aiConfig?: any): string {
+  const keyProvider = provider === 'replay' ? aiConfig?.replay?.provider || 'openai' : provider;
+  return PROVIDER_API_KEY_ENV[keyProvider] || PROVIDER_API_KEY_ENV.openai;
+}
+
 // GET - Read current AI configuration
 export async function GET() {
   try {
@@ -13,13 +27,17 @@ export async function GET() {
     const configFile = await fs.readFile(CONFIG_PATH, 'utf-8');
     const config: any = yaml.load(configFile);
 
-    // Check if API key is set in environment
-    const apiKeySet = !!process.env.OPENAI_API_KEY;
+    const provider = config.ai?.provider || 'openai';
+
+    // Check if API key is set in environment for the configured provider
+    const apiKeySet = !!process.env[getApiKeyEnvVar(provider, config.ai)];
 
     return NextResponse.json({
-      provider: config.ai?.provider || 'openai',
+      provider,
       model: config.ai?.model || 'gpt-4o-mini',
       queryAnalyzerModel: config.ai?.queryAnalyzerModel || '',
+      codeValidatorModel: config.ai?.codeValidatorModel || '',
+      baseURL: config.ai?.baseURL || '',
       apiKeySet,
     });
   } catch (error) {
@@ -35,7 +53,7 @@ export async function GET() {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { provider, model, queryAnalyzerModel, apiKey } = body;
+    const { provider, model, queryAnalyzerModel, codeValidatorModel, baseURL, apiKey } = body;
 
     // Validate required fields
     if (!provider || !model) {
@@ -54,6 +72,7 @@ export async function POST(request: NextRequest) {
       ...config.ai,
       provider,
       model,
+      apiKey: `\${${getApiKeyEnvVar(provider, config.ai)}}`,
     };
 
     // Add queryAnalyzerModel if provided
@@ -64,6 +83,19 @@ export async function POST(request: NextRequest) {
       delete config.ai.queryAnalyzerModel;
     }
 
+    if (codeValidatorModel) {
+      config.ai.codeValidatorModel = codeValidatorModel;
+    } else {
+      delete config.ai.codeValidatorModel;
+    }
+
+    // Base URL only applies to OpenAI-compatible servers
+    if (provider === 'openai-compatible' && baseURL) {
+      config.ai.baseURL = baseURL;
+    } else {
+      delete config.ai.baseURL;
+    }
+
     // Write updated config back to app.yaml
     const updatedYaml = yaml.dump(config, {
       indent: 2,
@@ -71,11 +103,16 @@ export async function POST(request: NextRequest) {
     });
     await fs.writeFile(CONFIG_PATH, updatedYaml, 'utf-8');
 
-    // Update .env file if API key provided
+    // Update .env file if API key provided, and this process's environment, which app.yaml is read with
     if (apiKey) {
-      await updateEnvFile(apiKey);
+      const envVar = getApiKeyEnvVar(provider, config.ai);
+      await updateEnvFile(envVar, apiKey);
+      process.env[envVar] = apiKey;
     }
 
+    // The next request reads the new settings
+    clearConfigCache();
+
     return NextResponse.json({
       success: true,
       message: 'Configuration updated successfully',
@@ -90,7 +127,7 @@ export async function POST(request: NextRequest) {
 }
 
 // Helper function to update .env file safely
-async function updateEnvFile(apiKey: string) {
+async function updateEnvFile(envVar: string, apiKey: string) {
   try {
     let envContent = '';
 
@@ -105,18 +142,18 @@ async function updateEnvFile(apiKey: string) {
     const envLines = envContent.split('\n');
     let apiKeyUpdated = false;
 
-    // Update or add OPENAI_API_KEY
+    // Update or add the provider's API key variable
     const updatedLines = envLines.map(line => {
-      if (line.startsWith('OPENAI_API_KEY=')) {
+      if (line.startsWith(`${envVar}=`)) {
         apiKeyUpdated = true;
-        return `OPENAI_API_KEY=${apiKey}`;
+        return `${envVar}=${apiKey}`;
       }
       return line;
     });
 
     // If key wasn't found, add it
     if (!apiKeyUpdated) {
-      updatedLines.push(`OPENAI_API_KEY=${apiKey}`);
+      updatedLines.push(`${envVar}=${apiKey}`);
     }
 
     // Write back to .env
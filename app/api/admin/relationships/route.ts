@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadConfig } from '@/lib/config';
+import { createDataAdapter } from '@/lib/adapters/adapter-factory';
+import { DataSourceConfig } from '@/lib/adapters/data.adapter';
+import { getDatasetCache } from '@/lib/dataset-cache';
+import { DatasetSample, SchemaDiscovery } from '@/lib/schema-discovery';
+import { Relationship, isSameRelationship, loadRelationships, saveRelationship, validateRelationship } from '@/lib/relationships';
+
+// Rows read from adapters that read at the source (Parquet, SQLite, databases); in-memory datasets are analysed in full
+const SAMPLE_ROWS = 10000;
+
+// GET - Declared relationships, plus suggestions discovered between the given datasets
+export async function GET(request: NextRequest) {
+  try {
+    const config = await loadConfig();
+    const datasetNames = (request.nextUrl.searchParams.get('datasets') || '')
+      .split(',')
+      .map(name => name.trim())
+      .filter(name => name.length > 0);
+
+    const relationships = await loadRelationships();
+    const samples: DatasetSample[] = [];
+    for (const name of datasetNames) {
+      try {
+        samples.push(await loadSample(config.dataSource, name));
+      } catch (error) {
+        console.warn(`Relationship discovery: skipping dataset '${name}':`, error);
+      }
+    }
+
+    // Declared relationships are not suggested again, and suggested names never clash with them
+    const taken = new Set(relationships.map(r => r.name));
+    const suggestions = SchemaDiscovery.discoverRelationships(samples)
+      .filter(suggestion => !relationships.some(r => isSameRelationship(r, suggestion.relationship)))
+      .map(suggestion => {
+        let name = suggestion.relationship.name;
+        for (let n = 2; taken.has(name); n++) {
+          name = `${suggestion.relationship.name}_${n}`;
+        }
+        taken.add(name);
+        return { ...suggestion, relationship: { ...suggestion.relationship, name } };
+      });
+
+    return NextResponse.json({ relationships, suggestions });
+  } catch (error) {
+    console.error('Relationships API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load relationships' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Declare a relationship (e.g. an accepted suggestion) in config/relationships.yaml
+export async function POST(request: NextRequest) {
+  try {
+    const { relationship } = await request.json();
+
+    const errors = validateRelationship(relationship);
+    if (errors.length === 0) {
+      if ((await loadRelationships()).some(r => r.name === relationship.name)) {
+        errors.push(`A relationship named '${relationship.name}' already exists`);
+      } else {
+        errors.push(...await missingFields(relationship as Relationship));
+      }
+    }
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: errors.join('; ') },
+        { status: 400 }
+      );
+    }
+
+    const relationships = await saveRelationship(relationship);
+    return NextResponse.json({
+      success: true,
+      message: `Relationship '${relationship.name}' saved to config/relationships.yaml`,
+      relationships,
+    });
+  } catch (error) {
+    console.error('Failed to save relationship:', error);
+    return NextResponse.json(
+      { error: 'Failed to save relationship' },
+      { status: 500 }
+    );
+  }
+}
+
+async function loadSample(dataSource: DataSourceConfig, name: string): Promise<DatasetSample> {
+  const adapter = await createDataAdapter(dataSource, [name]);
+  const data = adapter.getFieldTypes && adapter.count
+    ? await adapter.getData({ limit: SAMPLE_ROWS })
+    : await adapter.getData();
+  const schema = adapter.getSchema
+    ? await adapter.getSchema()
+    : getDatasetCache(dataSource.cache).getStats(data).schema;
+  return { name, data, schema };
+}
+
+/**
+ * Fields named by the relationship that its datasets do not have
+ */
+async function missingFields(relationship: Relationship): Promise<string[]> {
+  const config = await loadConfig();
+  const errors: string[] = [];
+  const fieldsOf = async (name: string): Promise<Set<string> | null> => {
+    try {
+      const adapter = await createDataAdapter(config.dataSource, [name]);
+      const schema = adapter.getSchema
+        ? await adapter.getSchema()
+        : getDatasetCache(config.dataSource.cache).getStats(await adapter.getData()).schema;
+      return new Set(schema.fields.map(field => field.name));
+    } catch (error) {
+      errors.push(`Dataset '${name}' could not be read`);
+      return null;
+    }
+  };
+
+  const [fromFields, toFields] = [await fieldsOf(relationship.from), await fieldsOf(relationship.to)];
+  const check = (fields: Set<string> | null, dataset: string, field?: string) => {
+    if (fields && field && !fields.has(field)) errors.push(`${dataset} has no field '${field}'`);
+  };
+  (relationship.keys || []).forEach(key => {
+    check(fromFields, relationship.from, key.from);
+    check(toFields, relationship.to, key.to);
+  });
+  if (relationship.dateRange) {
+    check(toFields, relationship.to, relationship.dateRange.field);
+    check(fromFields, relationship.from, relationship.dateRange.start);
+    check(fromFields, relationship.from, relationship.dateRange.end);
+  }
+  return errors;
+}
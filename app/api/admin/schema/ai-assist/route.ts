@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { loadConfig, loadProjectConfig } from '@/lib/config';
-import { OpenAIAdapter } from '@/lib/adapters/openai.adapter';
+import { createAIAdapter } from '@/lib/adapters/ai-adapter-factory';
 import { createDataAdapter } from '@/lib/adapters/adapter-factory';
 
 export async function POST(request: NextRequest) {
@@ -120,7 +120,7 @@ If you're just providing advice without modifying the schema, return:
   "suggestion": "your advice here"
 }`;
 
-    const aiAdapter = new OpenAIAdapter(config.ai, projectConfig);
+    const aiAdapter = createAIAdapter(config.ai, projectConfig);
 
     // Use a more lenient model for schema generation (less strict JSON formatting)
     const response = await aiAdapter.chat(prompt, {
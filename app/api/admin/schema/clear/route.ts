@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { promises as fs } from 'fs';
 import path from 'path';
+import yaml from 'js-yaml';
 import { clearConfigCache, loadConfig } from '@/lib/config';
+import { DATASET_SETTINGS_SECTIONS } from '@/lib/adapters/data.adapter';
 
 export async function POST(request: NextRequest) {
   try {
@@ -38,13 +40,23 @@ export async function POST(request: NextRequest) {
 
     // Delete schema configuration files (both new and legacy structure)
     // Note: Does NOT delete README.md or queries.yaml (managed by config screen)
+    const metadataPath = path.join(datasetDir, 'metadata.yaml');
     const filesToDelete = [
-      path.join(datasetDir, 'metadata.yaml'),
+      metadataPath,
       path.join(datasetDir, 'schema.yaml'),
       path.join(datasetDir, 'project.yaml'), // Legacy file
     ];
 
+    // File format and database settings survive: metadata.yaml is cut down to those sections
     let deletedCount = 0;
+    const settings = await readSettingsSections(metadataPath);
+    if (settings) {
+      await fs.writeFile(metadataPath, yaml.dump(settings, { indent: 2, lineWidth: 100 }), 'utf-8');
+      filesToDelete.shift();
+      deletedCount++;
+      console.log(`Cleared: ${metadataPath}`);
+    }
+
     for (const filePath of filesToDelete) {
       try {
         await fs.access(filePath);
@@ -73,3 +85,17 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+/**
+ * Adapter settings sections of metadata.yaml, or null when it has none
+ */
+async function readSettingsSections(metadataPath: string): Promise<Record<string, any> | null> {
+  try {
+    const metadata = yaml.load(await fs.readFile(metadataPath, 'utf-8')) as any;
+    const sections = DATASET_SETTINGS_SECTIONS.filter(section => metadata?.[section]);
+    if (sections.length === 0) return null;
+    return Object.fromEntries(sections.map(section => [section, metadata[section]]));
+  } catch (e) {
+    return null;
+  }
+}
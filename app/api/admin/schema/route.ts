@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { loadConfig, loadProjectConfig } from '@/lib/config';
 import { createDataAdapter } from '@/lib/adapters/adapter-factory';
-import { SchemaDiscovery } from '@/lib/schema-discovery';
+import { getDatasetCache } from '@/lib/dataset-cache';
 import { promises as fs } from 'fs';
 import path from 'path';
 
@@ -27,7 +27,8 @@ export async function GET(request: NextRequest) {
     console.log('Schema API - Data loaded, records:', data.length);
     console.log('Schema API - First record _dataset_source:', data[0]?._dataset_source);
 
-    const discoveredSchema = SchemaDiscovery.discover(data);
+    // Discovered schema is cached until the data file changes
+    const discoveredSchema = getDatasetCache(config.dataSource.cache).getStats(data).schema;
 
     // Check if schema configuration exists for this dataset (metadata.yaml/schema.yaml or legacy project.yaml)
     let existingConfig = null;
@@ -3,6 +3,7 @@ import { promises as fs } from 'fs';
 import path from 'path';
 import yaml from 'js-yaml';
 import { clearConfigCache, loadConfig } from '@/lib/config';
+import { DATASET_SETTINGS_SECTIONS, datasetMarkerFiles } from '@/lib/adapters/data.adapter';
 
 export async function POST(request: NextRequest) {
   try {
@@ -60,30 +61,39 @@ export async function POST(request: NextRequest) {
 
     let datasetDir: string | null = null;
     for (const typeFolder of typeFolders) {
-      const potentialJsonPath = path.join(datasetsPath, typeFolder.name, datasetName, 'data.json');
-      const potentialCsvPath = path.join(datasetsPath, typeFolder.name, datasetName, 'data.csv');
-
-      try {
-        await fs.access(potentialJsonPath);
-        datasetDir = path.join(datasetsPath, typeFolder.name, datasetName);
-        break;
-      } catch (e) {
+      for (const fileName of datasetMarkerFiles(typeFolder.name)) {
         try {
-          await fs.access(potentialCsvPath);
+          await fs.access(path.join(datasetsPath, typeFolder.name, datasetName, fileName));
           datasetDir = path.join(datasetsPath, typeFolder.name, datasetName);
           break;
-        } catch (csvError) {
-          // Try next type folder
+        } catch (e) {
+          // Try next file name
         }
       }
+      if (datasetDir) break;
     }
 
     if (!datasetDir) {
       throw new Error(`Dataset '${datasetName}' not found`);
     }
 
-    // Write metadata.yaml
+    // Keep hand-written file format and database settings the editor does not manage
     const metadataPath = path.join(datasetDir, 'metadata.yaml');
+    const schemaPath = path.join(datasetDir, 'schema.yaml');
+    const existingMetadata = await readYaml(metadataPath);
+    const existingSchema = (await readYaml(schemaPath))?.dataSchema || {};
+    DATASET_SETTINGS_SECTIONS.forEach(section => {
+      if (existingMetadata?.[section]) {
+        (metadata as any)[section] = existingMetadata[section];
+      }
+    });
+    preserveFieldTypes(schema.dataSchema.categoricalFields, existingSchema.categoricalFields);
+    preserveFieldTypes(schema.dataSchema.numericFields, existingSchema.numericFields);
+    if (existingSchema.fields) {
+      (schema.dataSchema as any).fields = existingSchema.fields;
+    }
+
+    // Write metadata.yaml
     const metadataContent = yaml.dump(metadata, {
       indent: 2,
       lineWidth: 100,
@@ -91,7 +101,6 @@ export async function POST(request: NextRequest) {
     await fs.writeFile(metadataPath, metadataContent, 'utf-8');
 
     // Write schema.yaml
-    const schemaPath = path.join(datasetDir, 'schema.yaml');
     const schemaContent = yaml.dump(schema, {
       indent: 2,
       lineWidth: 100,
@@ -113,3 +122,22 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+async function readYaml(filePath: string): Promise<any> {
+  try {
+    return yaml.load(await fs.readFile(filePath, 'utf-8'));
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Copy CSV type/format declarations from the previous schema.yaml onto the saved field entries
+ */
+function preserveFieldTypes(fields: any[], previous?: any[]) {
+  fields.forEach(field => {
+    const match = previous?.find(p => p?.name === field.name);
+    if (match?.type) field.type = match.type;
+    if (match?.format) field.format = match.format;
+  });
+}
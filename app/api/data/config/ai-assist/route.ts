@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { loadConfig, loadProjectConfig } from '@/lib/config';
-import { OpenAIAdapter } from '@/lib/adapters/openai.adapter';
+import { createAIAdapter } from '@/lib/adapters/ai-adapter-factory';
 import { logger } from '@/lib/logger';
 
 export async function POST(request: NextRequest) {
@@ -20,7 +20,7 @@ export async function POST(request: NextRequest) {
 
     const config = await loadConfig();
     const projectConfig = await loadProjectConfig(dataset);
-    const aiAdapter = new OpenAIAdapter(config.ai, projectConfig);
+    const aiAdapter = createAIAdapter(config.ai, projectConfig);
 
     const systemPrompt = `You are an assistant helping to generate query examples for a dataset configuration.
 
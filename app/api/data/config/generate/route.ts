@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { loadConfig } from '@/lib/config';
 import { createDataAdapter } from '@/lib/adapters/adapter-factory';
-import { OpenAIAdapter } from '@/lib/adapters/openai.adapter';
+import { createAIAdapter } from '@/lib/adapters/ai-adapter-factory';
 import { SchemaDiscovery } from '@/lib/schema-discovery';
+import { getDatasetCache } from '@/lib/dataset-cache';
 
 export async function POST(request: NextRequest) {
   try {
@@ -21,8 +22,8 @@ export async function POST(request: NextRequest) {
     const dataAdapter = await createDataAdapter(appConfig.dataSource, [dataset]);
     const data = await dataAdapter.getData();
 
-    // Discover schema
-    const schema = SchemaDiscovery.discover(data);
+    // Discover schema (cached with the dataset)
+    const { schema } = getDatasetCache(appConfig.dataSource.cache).getStats(data);
 
     // Initialize AI adapter with minimal project config
     const minimalProjectConfig = {
@@ -54,7 +55,7 @@ export async function POST(request: NextRequest) {
       }
     };
 
-    const aiAdapter = new OpenAIAdapter(appConfig.ai, minimalProjectConfig as any);
+    const aiAdapter = createAIAdapter(appConfig.ai, minimalProjectConfig as any);
 
     // Generate README
     const readmePrompt = `Based on this dataset schema, generate a concise README.md file (2-3 paragraphs):
@@ -3,6 +3,7 @@ import { promises as fs } from 'fs';
 import path from 'path';
 import yaml from 'js-yaml';
 import { loadConfig } from '@/lib/config';
+import { parseDatasetName } from '@/lib/adapters/data.adapter';
 
 export async function GET(request: NextRequest) {
   try {
@@ -26,7 +27,8 @@ export async function GET(request: NextRequest) {
     let datasetPath: string | null = null;
 
     for (const typeFolder of typeFolders) {
-      const potentialPath = path.join(datasetsPath, typeFolder.name, dataset);
+      // Sheets of a workbook share its folder's README and queries
+      const potentialPath = path.join(datasetsPath, typeFolder.name, parseDatasetName(dataset).folder);
       try {
         await fs.access(potentialPath);
         datasetPath = potentialPath;
@@ -100,7 +102,8 @@ export async function POST(request: NextRequest) {
     let datasetPath: string | null = null;
 
     for (const typeFolder of typeFolders) {
-      const potentialPath = path.join(datasetsPath, typeFolder.name, dataset);
+      // Sheets of a workbook share its folder's README and queries
+      const potentialPath = path.join(datasetsPath, typeFolder.name, parseDatasetName(dataset).folder);
       try {
         await fs.access(potentialPath);
         datasetPath = potentialPath;
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadConfig, loadProjectConfig } from '@/lib/config';
+import { createDataAdapter } from '@/lib/adapters/adapter-factory';
+import { getDatasetCache } from '@/lib/dataset-cache';
+import { datasetSchema, parseDataQuery, queryFacets } from '@/lib/data-query';
+
+// Facet value counts for the data browser sidebar.
+// Accepts the same dataset, q, filter.<field> and facet.<field> parameters as /api/data.
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const specificDataset = searchParams.get('dataset');
+
+    let selectedDatasets: string[] | undefined;
+    if (specificDataset) {
+      selectedDatasets = [specificDataset];
+    } else {
+      const selectedDatasetsStr = request.cookies.get('selectedDatasets')?.value;
+      if (selectedDatasetsStr) {
+        selectedDatasets = selectedDatasetsStr.split(',').map(s => s.trim()).filter(s => s.length > 0);
+      }
+    }
+
+    const config = await loadConfig();
+    const dataAdapter = await createDataAdapter(config.dataSource, selectedDatasets);
+    const cache = getDatasetCache(config.dataSource.cache);
+    const schema = await datasetSchema(dataAdapter, cache);
+
+    // Configured categorical fields first (with their display names), then any other discovered ones
+    const fields: Array<{ name: string; displayName?: string }> = [];
+    if (specificDataset) {
+      try {
+        const projectConfig = await loadProjectConfig(specificDataset);
+        projectConfig.dataSchema.categoricalFields?.forEach(f => fields.push({ name: f.name, displayName: f.displayName }));
+      } catch (e) {
+        // No project config, use discovered fields only
+      }
+    }
+    schema.categoricalFields.forEach(name => {
+      if (!fields.some(f => f.name === name)) fields.push({ name });
+    });
+
+    // Counted at the source when the adapter supports it, reading only each facet's field
+    const { facets, errors } = await queryFacets(dataAdapter, parseDataQuery(searchParams), schema, fields, cache);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid data query', details: errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ facets });
+  } catch (error) {
+    console.error('Data facets API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to compute facets' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,32 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { loadConfig } from '@/lib/config';
 import { createDataAdapter } from '@/lib/adapters/adapter-factory';
+import { getDatasetCache } from '@/lib/dataset-cache';
+import { isEmptyDataQuery, parseDataQuery, queryDataset } from '@/lib/data-query';
+
+/**
+ * Serialize records as a JSON array while they are read, instead of building the whole body in memory
+ */
+function jsonArrayStream(records: AsyncIterable<any>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    async start(controller) {
+      try {
+        let first = true;
+        controller.enqueue(encoder.encode('['));
+        for await (const record of records) {
+          controller.enqueue(encoder.encode((first ? '' : ',') + JSON.stringify(record)));
+          first = false;
+        }
+        controller.enqueue(encoder.encode(']'));
+        controller.close();
+      } catch (error) {
+        console.error('Data API stream error:', error);
+        controller.error(error);
+      }
+    },
+  });
+}
 
 export async function GET(request: NextRequest) {
   try {
@@ -10,52 +36,57 @@ export async function GET(request: NextRequest) {
     const limit = parseInt(searchParams.get('limit') || '0', 10);
 
     // If a specific dataset is requested, fetch only that one
+    // Otherwise, get selected datasets from cookie (comma-separated) or use default
+    let selectedDatasets: string[] | undefined;
     if (specificDataset) {
-      const config = await loadConfig();
-      const dataAdapter = await createDataAdapter(config.dataSource, [specificDataset]);
-      const allData = await dataAdapter.getData();
-
-      // Apply pagination if limit is specified
-      if (limit > 0) {
-        const paginatedData = allData.slice(offset, offset + limit);
-        return NextResponse.json({
-          data: paginatedData,
-          total: allData.length,
-          offset,
-          limit,
-          hasMore: offset + limit < allData.length
-        });
+      selectedDatasets = [specificDataset];
+    } else {
+      const selectedDatasetsStr = request.cookies.get('selectedDatasets')?.value;
+      if (selectedDatasetsStr) {
+        selectedDatasets = selectedDatasetsStr.split(',').map(s => s.trim()).filter(s => s.length > 0);
       }
-
-      return NextResponse.json(allData);
     }
 
-    // Otherwise, get selected datasets from cookie (comma-separated) or use default
-    const cookies = request.cookies;
-    const selectedDatasetsStr = cookies.get('selectedDatasets')?.value;
+    const config = await loadConfig();
+    const dataAdapter = await createDataAdapter(config.dataSource, selectedDatasets);
+    const query = parseDataQuery(searchParams);
 
-    let selectedDatasets: string[] | undefined;
-    if (selectedDatasetsStr) {
-      selectedDatasets = selectedDatasetsStr.split(',').map(s => s.trim()).filter(s => s.length > 0);
+    // Every record, unchanged: stream them when the adapter can
+    if (limit <= 0 && dataAdapter.stream && isEmptyDataQuery(query)) {
+      return new Response(jsonArrayStream(dataAdapter.stream()), {
+        headers: { 'Content-Type': 'application/json' },
+      });
     }
 
-    const config = await loadConfig();
-    const dataAdapter = await createDataAdapter(config.dataSource, selectedDatasets);
-    const allData = await dataAdapter.getData();
+    // Search, column filters and sorting run before pagination so totals cover the whole dataset;
+    // adapters that support it run them at the source
+    const { data, errors, total, unfilteredTotal, schema } = await queryDataset(
+      dataAdapter,
+      query,
+      { offset, limit },
+      getDatasetCache(config.dataSource.cache)
+    );
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid data query', details: errors },
+        { status: 400 }
+      );
+    }
 
     // Apply pagination if limit is specified
     if (limit > 0) {
-      const paginatedData = allData.slice(offset, offset + limit);
       return NextResponse.json({
-        data: paginatedData,
-        total: allData.length,
+        data,
+        total,
+        unfilteredTotal,
+        fields: schema.fields.map(field => field.name),
         offset,
         limit,
-        hasMore: offset + limit < allData.length
+        hasMore: offset + limit < total
       });
     }
 
-    return NextResponse.json(allData);
+    return NextResponse.json(data);
   } catch (error) {
     console.error('Data API error:', error);
     return NextResponse.json(
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadConfig } from '@/lib/config';
+import { createDataAdapter } from '@/lib/adapters/adapter-factory';
+import { getDatasetCache } from '@/lib/dataset-cache';
+import { parseDataQuery, queryDataset } from '@/lib/data-query';
+import { SchemaDiscovery } from '@/lib/schema-discovery';
+
+// Column profile for the data browser stats panel.
+// Accepts the same dataset, q and filter.<field> parameters as /api/data, so stats match the table.
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const specificDataset = searchParams.get('dataset');
+    const field = searchParams.get('field');
+    const topN = parseInt(searchParams.get('top') || '10', 10);
+
+    let selectedDatasets: string[] | undefined;
+    if (specificDataset) {
+      selectedDatasets = [specificDataset];
+    } else {
+      const selectedDatasetsStr = request.cookies.get('selectedDatasets')?.value;
+      if (selectedDatasetsStr) {
+        selectedDatasets = selectedDatasetsStr.split(',').map(s => s.trim()).filter(s => s.length > 0);
+      }
+    }
+
+    const config = await loadConfig();
+    const dataAdapter = await createDataAdapter(config.dataSource, selectedDatasets);
+    const query = { ...parseDataQuery(searchParams), sort: undefined };
+
+    // Filtered at the source when the adapter supports it; with a field, only that column is read
+    const { data, errors, schema } = await queryDataset(
+      dataAdapter,
+      query,
+      { offset: 0, limit: 0 },
+      getDatasetCache(config.dataSource.cache),
+      field ? [field] : undefined
+    );
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid data query', details: errors },
+        { status: 400 }
+      );
+    }
+
+    // Without a field, profile every column
+    const fieldNames = field ? [field] : schema.fields.map(f => f.name);
+    const stats = fieldNames.map(name => SchemaDiscovery.columnStats(data, schema, name, topN > 0 ? topN : 10));
+
+    if (field && !stats[0]) {
+      return NextResponse.json(
+        { error: `Unknown field '${field}'` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(field ? stats[0] : { columns: stats });
+  } catch (error) {
+    console.error('Data stats API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to compute column statistics' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,8 @@ import { promises as fs } from 'fs';
 import path from 'path';
 import yaml from 'js-yaml';
 import { loadConfig } from '@/lib/config';
+import { getDatasetRecordCount } from '@/lib/adapters/adapter-factory';
+import { sheetDatasetNames } from '@/lib/adapters/xlsx.adapter';
 
 export async function GET() {
   try {
@@ -27,8 +29,6 @@ export async function GET() {
         const datasetName = dataset.name;
         const datasetPath = path.join(typePath, datasetName);
 
-        const jsonPath = path.join(datasetPath, 'data.json');
-        const csvPath = path.join(datasetPath, 'data.csv');
         const readmePath = path.join(datasetPath, 'README.md');
         const metadataPath = path.join(datasetPath, 'metadata.yaml');
         const schemaPath = path.join(datasetPath, 'schema.yaml');
@@ -40,19 +40,16 @@ export async function GET() {
         let hasReadme = false;
         let displayName = datasetName.split('-').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ');
 
-        // Try JSON first, then CSV
+        // Workbooks with "sheets: all" are listed as one dataset per sheet, each auto-discovered
+        const sheetDatasets = await sheetDatasetNames(datasetPath, datasetName, config.dataSource.cache);
+
+        // Record count comes from the adapter (Parquet footer, SQL COUNT(*), shared dataset cache), so files are only parsed when they change
         try {
-          const data = JSON.parse(await fs.readFile(jsonPath, 'utf-8'));
-          recordCount = Array.isArray(data) ? data.length : 0;
-        } catch (e) {
-          // Try CSV
-          try {
-            const csvContent = await fs.readFile(csvPath, 'utf-8');
-            const lines = csvContent.split('\n').filter(line => line.trim().length > 0);
-            recordCount = Math.max(0, lines.length - 1); // Subtract header row
-          } catch (csvError) {
-            // Couldn't read data file
+          if (sheetDatasets.length === 0) {
+            recordCount = await getDatasetRecordCount(config.dataSource, datasetName);
           }
+        } catch (e) {
+          // Couldn't read data file
         }
 
         try {
@@ -99,6 +96,26 @@ export async function GET() {
           }
         }
 
+        for (const sheetDataset of sheetDatasets) {
+          let sheetRecordCount = 0;
+          try {
+            sheetRecordCount = await getDatasetRecordCount(config.dataSource, sheetDataset);
+          } catch (e) {
+            // Couldn't read the sheet
+          }
+
+          allDatasets.push({
+            name: sheetDataset,
+            type: type,
+            displayName: `${displayName} / ${sheetDataset.slice(datasetName.length + 1)}`,
+            recordCount: sheetRecordCount,
+            description,
+            hasProjectConfig: false,
+            hasReadme: hasReadme,
+          });
+        }
+        if (sheetDatasets.length > 0) continue;
+
         allDatasets.push({
           name: datasetName,
           type: type,
@@ -1,12 +1,19 @@
 'use client';
 
 import { useEffect, useState, useRef, useCallback } from 'react';
+import ColumnStatsPanel, { ColumnStats } from '@/components/ColumnStatsPanel';
+import FacetSidebar, { Facet } from '@/components/FacetSidebar';
+
+// URL parameter prefix for selected facet values, e.g. /data?dataset=x&facet.vehicle=Falcon%209
+const FACET_PREFIX = 'facet.';
 
 interface DatasetInfo {
   name: string;
   displayName: string;
   data: any[];
-  total: number;
+  total: number; // Records matching the current search and filters
+  unfilteredTotal: number;
+  fields: string[];
   hasMore: boolean;
 }
 
@@ -16,10 +23,24 @@ export default function DataPage() {
   const [loading, setLoading] = useState(true);
   const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState('');
+  const [queryError, setQueryError] = useState('');
   const [searchTerm, setSearchTerm] = useState('');
+  const [columnFilters, setColumnFilters] = useState<Record<string, string>>({});
+  // Search and column filters as last sent to the server (debounced while typing)
+  const [appliedSearch, setAppliedSearch] = useState('');
+  const [appliedFilters, setAppliedFilters] = useState<Record<string, string>>({});
   const [sortKey, setSortKey] = useState<string>('');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
+  const [statsField, setStatsField] = useState('');
+  const [stats, setStats] = useState<ColumnStats | null>(null);
+  const [statsLoading, setStatsLoading] = useState(false);
+  const [statsError, setStatsError] = useState('');
+  // Selected facet values per field, mirrored in the page URL
+  const [selectedFacets, setSelectedFacets] = useState<Record<string, string[]>>({});
+  const [facets, setFacets] = useState<Facet[]>([]);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
+  // Incremented for every new query so responses to outdated queries are dropped
+  const queryIdRef = useRef(0);
   const PAGE_SIZE = 100;
 
   useEffect(() => {
@@ -36,65 +57,206 @@ export default function DataPage() {
       return;
     }
 
-    // Fetch data for each dataset with pagination
-    Promise.all(
-      selectedDatasets.map(async (datasetName) => {
-        const res = await fetch(`/api/data?dataset=${datasetName}&offset=0&limit=${PAGE_SIZE}`);
-        const response = await res.json();
+    // A bookmarked view restores its dataset tab and facet selection from the URL
+    const urlParams = new URLSearchParams(window.location.search);
+    const urlDataset = urlParams.get('dataset');
+    const urlFacets: Record<string, string[]> = {};
+    urlParams.forEach((value, key) => {
+      if (key.startsWith(FACET_PREFIX)) {
+        const field = key.slice(FACET_PREFIX.length);
+        urlFacets[field] = [...(urlFacets[field] || []), value];
+      }
+    });
+    setSelectedFacets(urlFacets);
+
+    // Get display names and record counts; records are loaded per tab by the query effect below
+    fetch('/api/datasets')
+      .then(res => res.json())
+      .then(datasetsResponse => {
+        const datasetsData = selectedDatasets.map(datasetName => {
+          const datasetInfo = datasetsResponse.datasets?.find((d: any) => d.name === datasetName);
+          return {
+            name: datasetName,
+            displayName: datasetInfo?.displayName || datasetName,
+            data: [],
+            total: datasetInfo?.recordCount || 0,
+            unfilteredTotal: datasetInfo?.recordCount || 0,
+            fields: [],
+            hasMore: false
+          };
+        });
+        setDatasets(datasetsData);
+        setActiveTab(urlDataset && selectedDatasets.includes(urlDataset) ? urlDataset : datasetsData[0].name);
+        setLoading(false);
+      })
+      .catch(err => {
+        setError('Failed to load data');
+        setLoading(false);
+      });
+  }, []);
+
+  // Send search and column filters to the server once typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setAppliedSearch(searchTerm.trim());
+      setAppliedFilters(columnFilters);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm, columnFilters]);
+
+  // Dataset, search, column filters and facets shared by the data, stats and facet requests
+  const buildFilterParams = useCallback(() => {
+    const params = new URLSearchParams({ dataset: activeTab });
+    if (appliedSearch) {
+      params.set('q', appliedSearch);
+    }
+    Object.entries(appliedFilters).forEach(([field, value]) => {
+      if (value.trim()) {
+        params.set(`filter.${field}`, value.trim());
+      }
+    });
+    Object.entries(selectedFacets).forEach(([field, values]) => {
+      values.forEach(value => params.append(`${FACET_PREFIX}${field}`, value));
+    });
+    return params;
+  }, [activeTab, appliedSearch, appliedFilters, selectedFacets]);
+
+  // Keep the URL in sync so filtered views can be bookmarked
+  useEffect(() => {
+    if (!activeTab) return;
 
-        // Get display name from datasets API
-        const datasetsRes = await fetch('/api/datasets');
-        const datasetsResponse = await datasetsRes.json();
-        const datasetInfo = datasetsResponse.datasets?.find((d: any) => d.name === datasetName);
+    const params = new URLSearchParams({ dataset: activeTab });
+    Object.entries(selectedFacets).forEach(([field, values]) => {
+      values.forEach(value => params.append(`${FACET_PREFIX}${field}`, value));
+    });
+    window.history.replaceState(null, '', `${window.location.pathname}?${params.toString()}`);
+  }, [activeTab, selectedFacets]);
 
+  // Refresh facet counts whenever any filter changes
+  useEffect(() => {
+    if (!activeTab) return;
+
+    let cancelled = false;
+    fetch(`/api/data/facets?${buildFilterParams().toString()}`)
+      .then(async res => ({ ok: res.ok, response: await res.json() }))
+      .then(({ ok, response }) => {
+        if (!cancelled && ok) {
+          setFacets(response.facets || []);
+        }
+      })
+      .catch(err => {
+        console.error('Failed to load facets:', err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeTab, buildFilterParams]);
+
+  const buildQuery = useCallback((offset: number) => {
+    const params = buildFilterParams();
+    params.set('offset', String(offset));
+    params.set('limit', String(PAGE_SIZE));
+    if (sortKey) {
+      params.set('sort', sortKey);
+      params.set('dir', sortDirection);
+    }
+    return params.toString();
+  }, [buildFilterParams, sortKey, sortDirection, PAGE_SIZE]);
+
+  const updateDataset = useCallback((name: string, response: any, append: boolean) => {
+    setDatasets(prev => prev.map(ds => {
+      if (ds.name === name) {
         return {
-          name: datasetName,
-          displayName: datasetInfo?.displayName || datasetName,
-          data: response.data || [],
-          total: response.total || 0,
-          hasMore: response.hasMore || false
+          ...ds,
+          data: append ? [...ds.data, ...response.data] : response.data,
+          total: response.total,
+          unfilteredTotal: response.unfilteredTotal,
+          fields: response.fields?.length ? response.fields : ds.fields,
+          hasMore: response.hasMore
         };
+      }
+      return ds;
+    }));
+  }, []);
+
+  // Reload the first page whenever the tab, search, filters or sort change
+  useEffect(() => {
+    if (!activeTab) return;
+
+    const queryId = ++queryIdRef.current;
+    fetch(`/api/data?${buildQuery(0)}`)
+      .then(async res => ({ ok: res.ok, response: await res.json() }))
+      .then(({ ok, response }) => {
+        if (queryId !== queryIdRef.current) return;
+        if (!ok) {
+          setQueryError(response.details?.join('; ') || response.error || 'Query failed');
+          return;
+        }
+        setQueryError('');
+        updateDataset(activeTab, response, false);
+        scrollContainerRef.current?.scrollTo({ top: 0 });
       })
-    )
-      .then(datasetsData => {
-        setDatasets(datasetsData);
-        if (datasetsData.length > 0) {
-          setActiveTab(datasetsData[0].name);
+      .catch(err => {
+        console.error('Failed to query data:', err);
+      });
+  }, [activeTab, buildQuery, updateDataset]);
+
+  // Load column statistics for the selected column, matching the current search and filters
+  useEffect(() => {
+    if (!activeTab || !statsField) {
+      setStats(null);
+      return;
+    }
+
+    let cancelled = false;
+    const params = buildFilterParams();
+    params.set('field', statsField);
+
+    setStatsLoading(true);
+    setStatsError('');
+    fetch(`/api/data/stats?${params.toString()}`)
+      .then(async res => ({ ok: res.ok, response: await res.json() }))
+      .then(({ ok, response }) => {
+        if (cancelled) return;
+        if (ok) {
+          setStats(response);
+        } else {
+          setStats(null);
+          setStatsError(response.details?.join('; ') || response.error || 'Failed to load statistics');
         }
-        setLoading(false);
+        setStatsLoading(false);
       })
       .catch(err => {
-        setError('Failed to load data');
-        setLoading(false);
+        if (cancelled) return;
+        setStatsError('Failed to load statistics');
+        setStatsLoading(false);
       });
-  }, [PAGE_SIZE]);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeTab, statsField, buildFilterParams]);
 
   const loadMoreData = useCallback(async () => {
     const activeDataset = datasets.find(d => d.name === activeTab);
     if (!activeDataset || !activeDataset.hasMore || loadingMore) return;
 
+    const queryId = queryIdRef.current;
     setLoadingMore(true);
     try {
-      const offset = activeDataset.data.length;
-      const res = await fetch(`/api/data?dataset=${activeTab}&offset=${offset}&limit=${PAGE_SIZE}`);
+      const res = await fetch(`/api/data?${buildQuery(activeDataset.data.length)}`);
       const response = await res.json();
 
-      setDatasets(prev => prev.map(ds => {
-        if (ds.name === activeTab) {
-          return {
-            ...ds,
-            data: [...ds.data, ...response.data],
-            hasMore: response.hasMore
-          };
-        }
-        return ds;
-      }));
+      // Skip the page if the query changed while it was loading
+      if (res.ok && queryId === queryIdRef.current) {
+        updateDataset(activeTab, response, true);
+      }
     } catch (err) {
       console.error('Failed to load more data:', err);
     }
     setLoadingMore(false);
-  }, [datasets, activeTab, loadingMore, PAGE_SIZE]);
-
+  }, [datasets, activeTab, loadingMore, buildQuery, updateDataset]);
   // Infinite scroll handler
   useEffect(() => {
     const container = scrollContainerRef.current;
@@ -141,30 +303,14 @@ export default function DataPage() {
 
   const data = activeDataset.data;
 
-  // Get all unique keys from the data
-  const keys = Array.from(new Set(data.flatMap(item => Object.keys(item))));
-
-  // Filter data based on search
-  const filteredData = data.filter(item =>
-    Object.values(item).some(value =>
-      String(value).toLowerCase().includes(searchTerm.toLowerCase())
-    )
-  );
-
-  // Sort data
-  const sortedData = sortKey
-    ? [...filteredData].sort((a, b) => {
-        const aVal = a[sortKey];
-        const bVal = b[sortKey];
-        const multiplier = sortDirection === 'asc' ? 1 : -1;
+  // Columns come from the server so they stay visible when nothing matches
+  const keys = activeDataset.fields.length > 0
+    ? activeDataset.fields
+    : Array.from(new Set(data.flatMap(item => Object.keys(item))));
 
-        if (typeof aVal === 'number' && typeof bVal === 'number') {
-          return (aVal - bVal) * multiplier;
-        }
-
-        return String(aVal).localeCompare(String(bVal)) * multiplier;
-      })
-    : filteredData;
+  const isFiltered = !!appliedSearch ||
+    Object.values(appliedFilters).some(value => value.trim()) ||
+    Object.keys(selectedFacets).length > 0;
 
   const handleSort = (key: string) => {
     if (sortKey === key) {
@@ -175,6 +321,27 @@ export default function DataPage() {
     }
   };
 
+  const resetQuery = () => {
+    setSearchTerm('');
+    setAppliedSearch('');
+    setColumnFilters({});
+    setAppliedFilters({});
+    setSortKey('');
+    setQueryError('');
+    setStatsField('');
+    setSelectedFacets({});
+    setFacets([]);
+  };
+
+  const toggleFacet = (field: string, value: string) => {
+    setSelectedFacets(prev => {
+      const current = prev[field] || [];
+      const values = current.includes(value) ? current.filter(v => v !== value) : [...current, value];
+      const { [field]: _removed, ...rest } = prev;
+      return values.length > 0 ? { ...rest, [field]: values } : rest;
+    });
+  };
+
   return (
     <div className="container mx-auto px-4 py-8">
       <div className="bg-white rounded-lg shadow-lg">
@@ -186,8 +353,7 @@ export default function DataPage() {
                 key={dataset.name}
                 onClick={() => {
                   setActiveTab(dataset.name);
-                  setSearchTerm('');
-                  setSortKey('');
+                  resetQuery();
                 }}
                 className={`px-6 py-3 font-medium border-b-2 transition-colors ${
                   activeTab === dataset.name
@@ -201,7 +367,7 @@ export default function DataPage() {
               >
                 {dataset.displayName}
                 <span className="ml-2 text-sm text-gray-500">
-                  ({dataset.data.length.toLocaleString()} of {dataset.total.toLocaleString()})
+                  ({dataset.unfilteredTotal.toLocaleString()})
                 </span>
               </button>
             ))}
@@ -214,78 +380,131 @@ export default function DataPage() {
               {activeDataset.displayName}
             </h2>
             <div className="text-sm text-gray-500">
-              {searchTerm
-                ? `${sortedData.length.toLocaleString()} of ${data.length.toLocaleString()} loaded`
+              {isFiltered
+                ? `${data.length.toLocaleString()} of ${activeDataset.total.toLocaleString()} matching (${activeDataset.unfilteredTotal.toLocaleString()} total)`
                 : `${data.length.toLocaleString()} of ${activeDataset.total.toLocaleString()} records`}
-              {data.length < activeDataset.total && !searchTerm && (
+              {activeDataset.hasMore && (
                 <span className="ml-2 text-blue-600">(scroll for more)</span>
               )}
             </div>
           </div>
 
-          {/* Search */}
-          <div className="mb-4">
-            <input
-              type="text"
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              placeholder="Search..."
-              className="w-full border rounded-lg px-4 py-2 focus:outline-none focus:ring-2"
-              style={{ '--tw-ring-color': 'var(--color-primary)' } as any}
+          <div className="flex gap-6">
+            {/* Facets */}
+            <FacetSidebar
+              facets={facets}
+              onToggle={toggleFacet}
+              onClear={() => setSelectedFacets({})}
             />
-          </div>
 
-          {/* Table */}
-          <div className="overflow-x-auto max-h-[600px] overflow-y-auto" ref={scrollContainerRef}>
-            <table className="w-full border-collapse">
-              <thead>
-                <tr className="border-b-2" style={{ borderColor: 'var(--color-primary)' }}>
-                  {keys.map(key => (
-                    <th
-                      key={key}
-                      className="px-4 py-2 text-left font-semibold cursor-pointer hover:bg-gray-50"
-                      onClick={() => handleSort(key)}
-                    >
-                      <div className="flex items-center gap-1">
-                        {key}
-                        {sortKey === key && (
-                          <span className="text-xs">
-                            {sortDirection === 'asc' ? '↑' : '↓'}
-                          </span>
-                        )}
-                      </div>
-                    </th>
-                  ))}
-                </tr>
-              </thead>
-              <tbody>
-                {sortedData.map((item, idx) => (
-                  <tr key={idx} className="border-b hover:bg-gray-50">
-                    {keys.map(key => (
-                      <td key={key} className="px-4 py-2">
-                        {typeof item[key] === 'object'
-                          ? JSON.stringify(item[key])
-                          : String(item[key] ?? '')}
-                      </td>
-                    ))}
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-
-            {/* Loading more indicator */}
-            {loadingMore && (
-              <div className="text-center py-4 text-gray-500">
-                Loading more records...
+            <div className="flex-1 min-w-0">
+              {/* Search */}
+              <div className="mb-4">
+                <input
+                  type="text"
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  placeholder="Search..."
+                  className="w-full border rounded-lg px-4 py-2 focus:outline-none focus:ring-2"
+                  style={{ '--tw-ring-color': 'var(--color-primary)' } as any}
+                />
+                {queryError && (
+                  <p className="mt-2 text-sm text-red-500">{queryError}</p>
+                )}
               </div>
-            )}
 
-            {/* End of data indicator */}
-            {!activeDataset.hasMore && activeDataset.data.length > 0 && (
-              <div className="text-center py-4 text-gray-400 text-sm">
-                All {activeDataset.total} records loaded
+              {/* Column statistics, opened from a column header */}
+              {statsField && (
+                <ColumnStatsPanel
+                  field={statsField}
+                  stats={stats}
+                  loading={statsLoading}
+                  error={statsError}
+                  onClose={() => setStatsField('')}
+                />
+              )}
+
+              {/* Table */}
+              <div className="overflow-x-auto max-h-[600px] overflow-y-auto" ref={scrollContainerRef}>
+                <table className="w-full border-collapse">
+                  <thead>
+                    <tr className="border-b-2" style={{ borderColor: 'var(--color-primary)' }}>
+                      {keys.map(key => (
+                        <th
+                          key={key}
+                          className={`px-4 py-2 text-left font-semibold ${statsField === key ? 'bg-gray-100' : ''}`}
+                        >
+                          <div className="flex items-center gap-1">
+                            <button
+                              onClick={() => setStatsField(statsField === key ? '' : key)}
+                              className="hover:underline"
+                              title="Show column statistics"
+                            >
+                              {key}
+                            </button>
+                            <button
+                              onClick={() => handleSort(key)}
+                              className={`text-xs px-1 rounded hover:bg-gray-100 ${sortKey === key ? '' : 'text-gray-400'}`}
+                              title="Sort"
+                            >
+                              {sortKey === key ? (sortDirection === 'asc' ? '↑' : '↓') : '↕'}
+                            </button>
+                          </div>
+                        </th>
+                      ))}
+                    </tr>
+                    <tr className="border-b">
+                      {keys.map(key => (
+                        <th key={key} className="px-2 py-1">
+                          <input
+                            type="text"
+                            value={columnFilters[key] || ''}
+                            onChange={(e) => setColumnFilters(prev => ({ ...prev, [key]: e.target.value }))}
+                            placeholder="Filter"
+                            title='Text to match, or >, <, =, != (e.g. ">100"), or operator:value (e.g. "between:2020,2022")'
+                            className="w-full min-w-[6rem] border rounded px-2 py-1 text-sm font-normal focus:outline-none focus:ring-1"
+                            style={{ '--tw-ring-color': 'var(--color-primary)' } as any}
+                          />
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.map((item, idx) => (
+                      <tr key={idx} className="border-b hover:bg-gray-50">
+                        {keys.map(key => (
+                          <td key={key} className="px-4 py-2">
+                            {typeof item[key] === 'object'
+                              ? JSON.stringify(item[key])
+                              : String(item[key] ?? '')}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                {/* Loading more indicator */}
+                {loadingMore && (
+                  <div className="text-center py-4 text-gray-500">
+                    Loading more records...
+                  </div>
+                )}
+
+                {/* End of data indicator */}
+                {!activeDataset.hasMore && activeDataset.data.length > 0 && (
+                  <div className="text-center py-4 text-gray-400 text-sm">
+                    All {activeDataset.total} {isFiltered ? 'matching ' : ''}records loaded
+                  </div>
+                )}
+
+                {data.length === 0 && activeDataset.total === 0 && !queryError && (
+                  <div className="text-center py-4 text-gray-400 text-sm">
+                    No matching records
+                  </div>
+                )}
               </div>
-            )}
+            </div>
           </div>
         </div>
       </div>
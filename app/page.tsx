@@ -155,6 +155,18 @@ export default function Home() {
               details.push({ label: 'Attempts', value: `${pd.phase1.attempts} (retried ${pd.phase1.attempts - 1} time${pd.phase1.attempts > 2 ? 's' : ''})`, type: 'text' });
             }
             details.push({ label: 'Explanation', value: pd.phase1.explanation || 'N/A', type: 'text' });
+            const planValidation = pd.phase1.planValidation;
+            if (planValidation) {
+              const validationLabels: Record<string, string> = {
+                valid: '✅ Valid',
+                repaired: '🔧 Repaired after validation errors',
+                fallback: '⚠️ Invalid - fell back to all data',
+              };
+              details.push({ label: 'Plan Validation', value: validationLabels[planValidation.status] || planValidation.status, type: 'text' });
+              if (planValidation.errors && planValidation.errors.length > 0) {
+                details.push({ label: 'Validation Errors', value: planValidation.errors, type: 'json' });
+              }
+            }
             if (pd.phase1.filters && pd.phase1.filters.length > 0) {
               details.push({ label: 'Filters', value: pd.phase1.filters, type: 'json' });
             } else {
@@ -166,11 +178,17 @@ export default function Home() {
             if (pd.phase1.limit) {
               details.push({ label: 'Limit', value: pd.phase1.limit, type: 'number' });
             }
+            if (pd.phase1.relationship) {
+              details.push({ label: 'Relationship', value: pd.phase1.relationship, type: 'text' });
+            }
+            if (pd.phase1.sql) {
+              details.push({ label: 'SQL Query', value: pd.phase1.sql, type: 'code' });
+            }
             if (pd.phase1.generatedCode) {
               details.push({ label: 'Generated Code', value: pd.phase1.generatedCode, type: 'code' });
               details.push({ label: 'Code Description', value: pd.phase1.codeDescription || 'N/A', type: 'text' });
             }
-            return { ...p, status: 'completed', expandedDetails: details };
+            return { ...p, status: planValidation?.status === 'fallback' ? 'warning' : 'completed', expandedDetails: details };
           }
 
           if (p.id === 'phase1.5') {
@@ -190,6 +208,9 @@ export default function Home() {
               details.push({ label: 'Attempts', value: `${pd.phase1_5.attempts} (retried ${pd.phase1_5.attempts - 1} time${pd.phase1_5.attempts > 2 ? 's' : ''})`, type: 'text' });
             }
             details.push({ label: 'Approved', value: pd.phase1_5.approved ? '✅ Yes' : '❌ No', type: 'text' });
+            if (pd.phase1_5.checkedBy) {
+              details.push({ label: 'Checked By', value: pd.phase1_5.checkedBy === 'static' ? 'Static analysis' : 'Static analysis + AI review', type: 'text' });
+            }
             details.push({ label: 'Reason', value: pd.phase1_5.reason || 'N/A', type: 'text' });
             if (pd.phase1_5.risks && pd.phase1_5.risks.length > 0) {
               details.push({ label: 'Security Risks', value: pd.phase1_5.risks, type: 'json' });
@@ -207,9 +228,16 @@ export default function Home() {
               details.push({ label: 'Attempts', value: `${pd.phase2.attempts} (retried ${pd.phase2.attempts - 1} time${pd.phase2.attempts > 2 ? 's' : ''})`, type: 'text' });
             }
             details.push({ label: 'Input Records', value: pd.phase2.inputRecords.toLocaleString(), type: 'text' });
+            if (pd.phase2.joinedRecords !== undefined) {
+              details.push({ label: 'Joined Records', value: pd.phase2.joinedRecords.toLocaleString(), type: 'text' });
+            }
             details.push({ label: 'Output Records', value: pd.phase2.outputRecords.toLocaleString(), type: 'text' });
             details.push({ label: 'Filters Applied', value: pd.phase2.filtersApplied, type: 'number' });
-            details.push({ label: 'Code Executed', value: pd.phase2.codeExecuted ? '✅ Yes' : 'No', type: 'text' });
+            if (pd.phase2.sqlExecuted) {
+              details.push({ label: 'SQL Executed', value: '✅ Yes', type: 'text' });
+            } else {
+              details.push({ label: 'Code Executed', value: pd.phase2.codeExecuted ? '✅ Yes' : 'No', type: 'text' });
+            }
             if (pd.phase2.executionError) {
               details.push({ label: '❌ Execution Error', value: pd.phase2.executionError, type: 'text' });
             }
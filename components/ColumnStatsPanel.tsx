@@ -0,0 +1,160 @@
+'use client';
+
+import { useState } from 'react';
+
+export interface ColumnStats {
+  name: string;
+  type: string;
+  totalRecords: number;
+  nullCount: number;
+  distinctCount: number;
+  categorical: boolean;
+  numeric?: {
+    min: number;
+    max: number;
+    mean: number;
+    median: number;
+  };
+  topValues?: Array<{ value: string; count: number }>;
+  dates?: {
+    min: string;
+    max: string;
+    histogram: Array<{ month: string; count: number }>;
+  };
+}
+
+interface ColumnStatsPanelProps {
+  field: string;
+  stats: ColumnStats | null;
+  loading: boolean;
+  error?: string;
+  onClose: () => void;
+}
+
+const formatNumber = (value: number) =>
+  value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+export default function ColumnStatsPanel({ field, stats, loading, error, onClose }: ColumnStatsPanelProps) {
+  const [collapsed, setCollapsed] = useState(false);
+
+  const renderSummary = (label: string, value: string) => (
+    <div key={label} className="bg-gray-50 rounded px-3 py-2">
+      <div className="text-xs text-gray-500">{label}</div>
+      <div className="font-semibold">{value}</div>
+    </div>
+  );
+
+  const renderTopValues = (topValues: NonNullable<ColumnStats['topValues']>, total: number) => {
+    const maxCount = Math.max(...topValues.map(v => v.count), 1);
+    return (
+      <div className="space-y-1">
+        {topValues.map(({ value, count }) => (
+          <div key={value} className="flex items-center gap-2 text-sm">
+            <div className="w-40 truncate" title={value}>{value}</div>
+            <div className="flex-1 bg-gray-100 rounded h-4">
+              <div
+                className="h-4 rounded"
+                style={{ width: `${(count / maxCount) * 100}%`, backgroundColor: 'var(--color-primary)' }}
+              />
+            </div>
+            <div className="w-24 text-right text-gray-600">
+              {count.toLocaleString()} ({total > 0 ? Math.round((count / total) * 100) : 0}%)
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const renderHistogram = (histogram: NonNullable<ColumnStats['dates']>['histogram']) => {
+    const maxCount = Math.max(...histogram.map(h => h.count), 1);
+    return (
+      <div>
+        <div className="flex items-end h-32 gap-px">
+          {histogram.map(({ month, count }) => (
+            <div
+              key={month}
+              className="flex-1 rounded-t"
+              title={`${month}: ${count.toLocaleString()}`}
+              style={{ height: `${(count / maxCount) * 100}%`, minHeight: count > 0 ? '2px' : 0, backgroundColor: 'var(--color-primary)' }}
+            />
+          ))}
+        </div>
+        <div className="flex justify-between text-xs text-gray-500 mt-1">
+          <span>{histogram[0]?.month}</span>
+          <span>{histogram[histogram.length - 1]?.month}</span>
+        </div>
+      </div>
+    );
+  };
+
+  const renderBody = () => {
+    if (loading) {
+      return <p className="text-sm text-gray-500">Loading statistics...</p>;
+    }
+    if (error) {
+      return <p className="text-sm text-red-500">{error}</p>;
+    }
+    if (!stats) {
+      return null;
+    }
+
+    const nonNull = stats.totalRecords - stats.nullCount;
+    const summary = [
+      renderSummary('Type', stats.categorical ? `${stats.type} (categorical)` : stats.type),
+      renderSummary('Records', stats.totalRecords.toLocaleString()),
+      renderSummary('Nulls', `${stats.nullCount.toLocaleString()} (${stats.totalRecords > 0 ? Math.round((stats.nullCount / stats.totalRecords) * 100) : 0}%)`),
+      renderSummary('Distinct', stats.distinctCount.toLocaleString()),
+    ];
+    if (stats.numeric) {
+      summary.push(
+        renderSummary('Min', formatNumber(stats.numeric.min)),
+        renderSummary('Max', formatNumber(stats.numeric.max)),
+        renderSummary('Mean', formatNumber(stats.numeric.mean)),
+        renderSummary('Median', formatNumber(stats.numeric.median))
+      );
+    }
+    if (stats.dates) {
+      summary.push(
+        renderSummary('Earliest', stats.dates.min),
+        renderSummary('Latest', stats.dates.max)
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">{summary}</div>
+        {stats.topValues && stats.topValues.length > 0 && (
+          <div>
+            <h4 className="text-sm font-semibold mb-2">Top Values</h4>
+            {renderTopValues(stats.topValues, nonNull)}
+          </div>
+        )}
+        {stats.dates && stats.dates.histogram.length > 0 && (
+          <div>
+            <h4 className="text-sm font-semibold mb-2">Records per Month</h4>
+            {renderHistogram(stats.dates.histogram)}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="mb-4 border rounded-lg">
+      <div className="flex justify-between items-center px-4 py-2 bg-gray-50 rounded-t-lg">
+        <button
+          onClick={() => setCollapsed(!collapsed)}
+          className="flex items-center gap-2 font-semibold"
+        >
+          <span className="text-xs">{collapsed ? '▶' : '▼'}</span>
+          Column Statistics: <span style={{ color: 'var(--color-primary)' }}>{field}</span>
+        </button>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-700" title="Close">
+          ✕
+        </button>
+      </div>
+      {!collapsed && <div className="p-4">{renderBody()}</div>}
+    </div>
+  );
+}
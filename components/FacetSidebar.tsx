@@ -0,0 +1,98 @@
+'use client';
+
+import { useState } from 'react';
+
+export interface FacetValue {
+  value: string;
+  count: number;
+  selected: boolean;
+}
+
+export interface Facet {
+  field: string;
+  displayName: string;
+  values: FacetValue[];
+}
+
+interface FacetSidebarProps {
+  facets: Facet[];
+  onToggle: (field: string, value: string) => void;
+  onClear: () => void;
+}
+
+// Values shown per facet before "Show all"
+const COLLAPSED_VALUE_COUNT = 8;
+
+export default function FacetSidebar({ facets, onToggle, onClear }: FacetSidebarProps) {
+  const [expandedFacets, setExpandedFacets] = useState<Set<string>>(new Set());
+
+  const toggleExpanded = (field: string) => {
+    setExpandedFacets(prev => {
+      const next = new Set(prev);
+      if (next.has(field)) {
+        next.delete(field);
+      } else {
+        next.add(field);
+      }
+      return next;
+    });
+  };
+
+  if (facets.length === 0) {
+    return null;
+  }
+
+  const hasSelection = facets.some(facet => facet.values.some(v => v.selected));
+
+  return (
+    <aside className="w-64 shrink-0">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="font-semibold">Filters</h3>
+        {hasSelection && (
+          <button onClick={onClear} className="text-sm hover:underline" style={{ color: 'var(--color-primary)' }}>
+            Clear all
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        {facets.map(facet => {
+          const expanded = expandedFacets.has(facet.field);
+          const values = expanded ? facet.values : facet.values.slice(0, COLLAPSED_VALUE_COUNT);
+
+          return (
+            <div key={facet.field} className="border-b pb-3">
+              <h4 className="text-sm font-semibold mb-2">{facet.displayName}</h4>
+              <div className="space-y-1">
+                {values.map(({ value, count, selected }) => (
+                  <label
+                    key={value}
+                    className={`flex items-center gap-2 text-sm cursor-pointer ${count === 0 && !selected ? 'text-gray-400' : ''}`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selected}
+                      onChange={() => onToggle(facet.field, value)}
+                      style={{ accentColor: 'var(--color-primary)' }}
+                    />
+                    <span className="flex-1 truncate" title={value}>{value}</span>
+                    <span className="text-gray-500">{count.toLocaleString()}</span>
+                  </label>
+                ))}
+              </div>
+              {facet.values.length > COLLAPSED_VALUE_COUNT && (
+                <button
+                  onClick={() => toggleExpanded(facet.field)}
+                  className="mt-1 text-xs hover:underline"
+                  style={{ color: 'var(--color-primary)' }}
+                >
+                  {expanded ? 'Show less' : `Show all (${facet.values.length})`}
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </aside>
+  );
+}
@@ -1,8 +1,16 @@
 import { promises as fs } from 'fs';
 import path from 'path';
-import { DataAdapter, DataSourceConfig } from './data.adapter';
+import { AdapterQuery, AdapterQueryResult, DataAdapter, DataReadOptions, DataSourceConfig, parseDatasetName } from './data.adapter';
 import { JSONAdapter } from './json.adapter';
 import { CSVAdapter } from './csv.adapter';
+import { XLSXAdapter } from './xlsx.adapter';
+import { ParquetAdapter } from './parquet.adapter';
+import { SQLiteAdapter, sqliteDatabaseFiles } from './sqlite.adapter';
+import { DatabaseAdapter } from './database.adapter';
+import { DatasetStats, getDatasetCache } from '../dataset-cache';
+import { DiscoveredSchema, SchemaDiscovery } from '../schema-discovery';
+import { collectFilterFields } from '../filter-engine';
+import { FilterNode } from '../types';
 
 /**
  * Determines the type of a dataset by checking which type folder it's in
@@ -18,7 +26,7 @@ async function getDatasetType(config: DataSourceConfig, datasetName: string): Pr
   const typeFolders = typeEntries.filter(entry => entry.isDirectory());
 
   for (const typeFolder of typeFolders) {
-    const datasetPath = path.join(datasetsPath, typeFolder.name, datasetName);
+    const datasetPath = path.join(datasetsPath, typeFolder.name, parseDatasetName(datasetName).folder);
     try {
       await fs.access(datasetPath);
       return typeFolder.name;
@@ -31,41 +39,143 @@ async function getDatasetType(config: DataSourceConfig, datasetName: string): Pr
   return 'json';
 }
 
+// Field added to every record of a multi-dataset selection, naming the dataset it came from
+const DATASET_SOURCE_FIELD = '_dataset_source';
+
 /**
- * Multi-dataset adapter that loads each dataset with the correct adapter type
+ * Multi-dataset adapter that loads each dataset with the correct adapter type.
+ * The push-down methods delegate to each dataset's adapter; it does not report field types,
+ * so the chat pipeline keeps planning on every record of the combined selection.
  */
 class MultiDatasetAdapter implements DataAdapter {
   private config: DataSourceConfig;
   private datasets: string[];
+  private adapters?: Promise<{ datasetName: string; adapter: DataAdapter }[]>;
+  private lastData?: any[]; // Every record, from the last getData() without options
+  private schema?: DiscoveredSchema;
 
   constructor(config: DataSourceConfig, datasets: string[]) {
     this.config = config;
     this.datasets = datasets;
   }
 
-  async getData(): Promise<any> {
+  async getData(options?: DataReadOptions): Promise<any> {
     const allData: any[] = [];
+    const columns = options?.columns?.filter(column => column !== DATASET_SOURCE_FIELD);
 
     // Load each dataset with its own adapter
-    for (const datasetName of this.datasets) {
-      const type = await getDatasetType(this.config, datasetName);
-      const adapter = createAdapterForType(type, this.config, datasetName);
+    for (const { datasetName, adapter } of await this.resolveAdapters()) {
+      if (options?.limit !== undefined && allData.length >= options.limit) break;
 
-      console.log(`Loading dataset '${datasetName}' with ${type} adapter`);
-      const data = await adapter.getData();
+      const limit = options?.limit === undefined ? undefined : options.limit - allData.length;
+      const data = await adapter.getData(options && { columns, limit });
 
-      // Add _dataset_source field to each record (for multi-dataset queries)
-      const taggedData = Array.isArray(data)
-        ? data.map(record => ({ ...record, _dataset_source: datasetName }))
-        : [];
+      // Add _dataset_source field to each record (for multi-dataset queries);
+      // adapters without projection return every record
+      const taggedData = Array.isArray(data) ? tagRecords(data.slice(0, limit), datasetName) : [];
 
       console.log(`  Loaded ${taggedData.length} records from '${datasetName}'`);
       allData.push(...taggedData);
     }
 
     console.log(`Total records loaded: ${allData.length}`);
+    if (!options) {
+      this.lastData = allData;
+    }
     return allData;
   }
+
+  async count(): Promise<number> {
+    let total = 0;
+    for (const { adapter } of await this.resolveAdapters()) {
+      total += adapter.count ? await adapter.count() : (await adapter.getData()).length;
+    }
+    return total;
+  }
+
+  async getSchema(): Promise<DiscoveredSchema> {
+    // Profiled from the combined records, which callers have usually just loaded
+    if (!this.schema) {
+      this.schema = SchemaDiscovery.discover(this.lastData || await this.getData());
+    }
+    return this.schema;
+  }
+
+  /**
+   * Runs the query on each dataset's adapter. Filters on _dataset_source, and filters a dataset
+   * could not run, are left to the caller; the limit is pushed down while every dataset before
+   * has applied it, and sorting or an offset across datasets always is.
+   */
+  async query(query: AdapterQuery): Promise<AdapterQueryResult> {
+    const filters = query.filters || [];
+    const sourceFilters = filters.filter(node => collectFilterFields([node]).includes(DATASET_SOURCE_FIELD));
+    const datasetFilters = filters.filter(node => !sourceFilters.includes(node));
+    const pushLimit = !query.sort && !query.offset && sourceFilters.length === 0;
+    // Which filters a dataset leaves over is only known afterwards, so read the fields of all of them
+    const fields = query.fields && Array.from(new Set([
+      ...query.fields, ...collectFilterFields(filters), ...(query.sort ? [query.sort.field] : []),
+    ])).filter(field => field !== DATASET_SOURCE_FIELD);
+
+    const records: any[] = [];
+    const remaining = new Set<FilterNode>(sourceFilters);
+    let limited = pushLimit;
+    let total: number | undefined;
+    for (const { datasetName, adapter } of await this.resolveAdapters()) {
+      const limit = limited && query.limit !== undefined ? Math.max(query.limit - records.length, 0) : undefined;
+      const result: AdapterQueryResult = adapter.query
+        ? await adapter.query({
+          filters: datasetFilters,
+          fields: fields && fields.length > 0 ? fields : undefined,
+          limit,
+          dateFields: query.dateFields,
+          withTotal: query.withTotal,
+        })
+        : { records: await adapter.getData(fields && { columns: fields }), remainingFilters: datasetFilters, limitApplied: false };
+
+      result.remainingFilters.forEach(node => remaining.add(node));
+      limited = limited && result.limitApplied;
+      if (limited && query.withTotal) {
+        total = (total || 0) + (result.total ?? result.records.length);
+      }
+      records.push(...tagRecords(result.records, datasetName));
+    }
+
+    // A filter that one dataset could not run is applied to all of them; re-applying is harmless
+    const remainingFilters = filters.filter(node => remaining.has(node));
+    const limitApplied = limited && remainingFilters.length === 0;
+    return { records, remainingFilters, limitApplied, total: limitApplied ? total : undefined };
+  }
+
+  async *stream(): AsyncIterable<any> {
+    for (const { datasetName, adapter } of await this.resolveAdapters()) {
+      if (adapter.stream) {
+        for await (const record of adapter.stream()) {
+          yield { ...record, [DATASET_SOURCE_FIELD]: datasetName };
+        }
+      } else {
+        yield* tagRecords(await adapter.getData(), datasetName);
+      }
+    }
+  }
+
+  private resolveAdapters(): Promise<{ datasetName: string; adapter: DataAdapter }[]> {
+    if (!this.adapters) {
+      this.adapters = (async () => {
+        const adapters: { datasetName: string; adapter: DataAdapter }[] = [];
+        for (const datasetName of this.datasets) {
+          const type = await getDatasetType(this.config, datasetName);
+          console.log(`Loading dataset '${datasetName}' with ${type} adapter`);
+          adapters.push({ datasetName, adapter: createAdapterForType(type, this.config, datasetName) });
+        }
+        return adapters;
+      })();
+    }
+    return this.adapters;
+  }
+}
+
+function tagRecords(records: any[], datasetName: string): any[] {
+  return records.map(record => ({ ...record, [DATASET_SOURCE_FIELD]: datasetName }));
 }
 
 /**
@@ -95,6 +205,76 @@ export async function createDataAdapter(
   return new MultiDatasetAdapter(config, datasetArray);
 }
 
+/**
+ * Record count and discovered schema for one dataset, cached until its data file changes
+ */
+export async function getDatasetStats(config: DataSourceConfig, datasetName: string): Promise<DatasetStats> {
+  const adapter = await createDataAdapter(config, [datasetName]);
+  return getDatasetCache(config.cache).getStats(await adapter.getData());
+}
+
+/**
+ * Record count for one dataset from the adapter's count() (file metadata, COUNT(*) or the
+ * dataset cache), falling back to loading its records
+ */
+export async function getDatasetRecordCount(config: DataSourceConfig, datasetName: string): Promise<number> {
+  const adapter = await createDataAdapter(config, [datasetName]);
+  if (adapter.count) {
+    return adapter.count();
+  }
+  return getDatasetCache(config.cache).getStats(await adapter.getData()).recordCount;
+}
+
+/**
+ * Version string for the selected datasets, built from their data file modification times.
+ * Changes whenever any underlying data file is modified.
+ */
+export async function getDatasetVersion(
+  config: DataSourceConfig,
+  datasets?: string | string[]
+): Promise<string> {
+  const datasetArray = typeof datasets === 'string' ? [datasets] : datasets;
+  const names = datasetArray && datasetArray.length > 0 ? datasetArray : [config.defaultDataset || ''];
+
+  const versions: string[] = [];
+  for (const datasetName of names) {
+    versions.push(`${datasetName}@${await getDatasetMtime(config, datasetName)}`);
+  }
+  return versions.join('+');
+}
+
+async function getDatasetMtime(config: DataSourceConfig, datasetName: string): Promise<number> {
+  try {
+    if (!config.datasetsPath) {
+      // Legacy single file structure
+      return config.path ? (await fs.stat(path.join(process.cwd(), config.path))).mtimeMs : 0;
+    }
+
+    const type = await getDatasetType(config, datasetName);
+    if (type === 'postgres' || type === 'mysql') {
+      // A database server can change at any time, so every read is a new version
+      return Date.now();
+    }
+    const datasetPath = path.join(process.cwd(), config.datasetsPath, type, parseDatasetName(datasetName).folder);
+    // SQLite datasets read a database named in metadata.yaml, which also selects the table
+    const dataFiles = type === 'sqlite'
+      ? [path.join(datasetPath, 'metadata.yaml'), ...(await sqliteDatabaseFiles(datasetPath))]
+      : (await fs.readdir(datasetPath)).filter(file => file.startsWith('data.')).map(file => path.join(datasetPath, file));
+
+    let mtime = 0;
+    for (const file of dataFiles) {
+      try {
+        mtime = Math.max(mtime, (await fs.stat(file)).mtimeMs);
+      } catch (e) {
+        // No write-ahead log
+      }
+    }
+    return mtime;
+  } catch (e) {
+    return 0;
+  }
+}
+
 function createAdapterForType(
   type: string,
   config: DataSourceConfig,
@@ -103,6 +283,15 @@ function createAdapterForType(
   switch (type.toLowerCase()) {
     case 'csv':
       return new CSVAdapter(config, datasets);
+    case 'xlsx':
+      return new XLSXAdapter(config, datasets);
+    case 'parquet':
+      return new ParquetAdapter(config, datasets);
+    case 'sqlite':
+      return new SQLiteAdapter(config, datasets);
+    case 'postgres':
+    case 'mysql':
+      return new DatabaseAdapter(config, datasets, type.toLowerCase() as 'postgres' | 'mysql');
     case 'json':
     default:
       return new JSONAdapter(config, datasets);
@@ -0,0 +1,43 @@
+import { AIAdapter, AIConfig } from './ai.adapter';
+import { OpenAIAdapter } from './openai.adapter';
+import { AnthropicAdapter } from './anthropic.adapter';
+import { ReplayAIAdapter } from './replay.adapter';
+import { ProjectConfig } from '../config';
+
+// Ollama's default OpenAI-compatible endpoint
+const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+
+/**
+ * Creates the appropriate AI adapter based on the configured provider
+ */
+export function createAIAdapter(
+  config: AIConfig,
+  projectConfig?: ProjectConfig,
+  logger?: any
+): AIAdapter {
+  switch ((config.provider || 'openai').toLowerCase()) {
+    case 'anthropic':
+      return new AnthropicAdapter(config, projectConfig, logger);
+    case 'openai-compatible':
+      // Local servers (Ollama, llama.cpp, vLLM) usually ignore the key, but the SDK requires one
+      return new OpenAIAdapter({
+        ...config,
+        baseURL: config.baseURL || DEFAULT_LOCAL_BASE_URL,
+        apiKey: config.apiKey || 'not-needed',
+      }, projectConfig, logger);
+    case 'replay': {
+      const liveProvider = config.replay?.provider || 'openai';
+      if (liveProvider.toLowerCase() === 'replay') {
+        throw new Error('ai.replay.provider must be a live provider (openai, anthropic or openai-compatible), not replay');
+      }
+      // The live provider is only created when a response has to be recorded
+      return new ReplayAIAdapter(config, projectConfig, () => createAIAdapter({
+        ...config,
+        provider: liveProvider,
+      }, projectConfig, logger), logger);
+    }
+    case 'openai':
+    default:
+      return new OpenAIAdapter(config, projectConfig, logger);
+  }
+}
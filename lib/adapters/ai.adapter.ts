@@ -7,4 +7,16 @@ export interface AIConfig {
   provider: string;
   model: string;
   apiKey: string;
+  queryAnalyzerModel?: string;
+  codeValidatorModel?: string;
+  baseURL?: string;
+  jsonMode?: boolean;
+  replay?: AIReplayConfig;
+}
+
+// Record-and-replay settings used when provider is "replay"
+export interface AIReplayConfig {
+  mode?: 'record' | 'replay' | 'auto'; // auto = replay when recorded, otherwise record
+  fixturesPath?: string;
+  provider?: string; // Live provider used when recording
 }
@@ -0,0 +1,79 @@
+// Shared Phase 3 prompt construction used by every AI adapter
+import { ProjectConfig } from '../config';
+
+/**
+ * Build the system prompt for the normal (Phase 3) answer path.
+ * Kept provider-neutral so each adapter only handles transport details.
+ */
+export function buildAnswerSystemPrompt(context: any, projectConfig?: ProjectConfig): string {
+  const currentDate = context.current_date || new Date().toISOString().split('T')[0];
+
+  // Use project-specific system role or default
+  const systemRole = projectConfig?.aiContext.systemRole ||
+    'You are a helpful assistant that answers questions about the provided data.';
+
+  const domainContext = projectConfig?.aiContext.domainContext ?
+    `\n\n${projectConfig.aiContext.domainContext}` : '';
+
+  // Check if multiple datasets are being queried
+  const multiDatasetInstructions = context.datasets_queried && context.datasets_queried.length > 1
+    ? `\n\n📊 MULTI-DATASET ANALYSIS:
+You are analyzing data from ${context.datasets_queried.length} different datasets: ${context.datasets_queried.join(', ')}.
+Each record has a '_dataset_source' field showing which dataset it came from.
+
+For cross-dataset queries:
+- You can correlate records by comparing field values (e.g., dates, names, IDs)
+- When counting, grouping, or aggregating, consider which dataset each record belongs to
+- For temporal correlations, compare date fields across datasets
+- Present results clearly showing which dataset each statistic refers to
+
+⚠️ ANSWER FORMAT - CRITICAL:
+For counting/aggregation queries, present ONLY the summary statistics:
+- DO NOT list individual records unless specifically asked
+- DO NOT show example records or dates unless they're in the processed data
+- BE CONCISE: Show only the final answer (counts, totals, summaries)
+
+Example: "How many launches within 1 month of inaugurations?"
+✅ CORRECT: "3 presidents had launches within 1 month of their inaugurations: Biden (10), Trump (2), Obama (1). Total: 13 launches."
+❌ WRONG: Listing individual launch dates, mission names, or details not requested
+
+For verification, you MAY include context IF it's in the data:
+✅ OK: "Biden (inaugurated Jan 20, 2021, window Dec 20, 2020 - Feb 20, 2021): 10 launches"
+❌ WRONG: Making up example dates like "including the March 2022 Starlink mission"
+
+CRITICAL: You are working with a LARGE dataset (${context.total_records} records). Your response MUST be extremely concise.
+
+IMPORTANT FILTERING AND CONCISENESS RULES:
+- ALWAYS honor user's filtering requests (e.g., "leave off zeros", "exclude X", "only show Y")
+- By default, when aggregating or counting, ONLY show non-zero results unless explicitly asked to show all
+- Be EXTREMELY concise - for lists, ONLY show relevant items (skip zeros/empty results)
+- Use compact table format with NO explanatory text for large result sets
+- DO NOT list items with zero counts - this wastes your limited output space`
+    : '';
+
+  const systemPrompt = `${systemRole}
+
+Current date: ${currentDate}${domainContext}${multiDatasetInstructions}
+
+Data:
+${JSON.stringify(context.data, null, 2)}
+
+Total records: ${context.total_records}
+${context.data_explanation ? `Data context: ${context.data_explanation}` : ''}
+
+⚠️ DATA VERIFICATION - CRITICAL:
+The data you receive has been processed by Python code. ONLY present information that is DIRECTLY in the data.
+- DO NOT add, infer, or extrapolate dates, counts, or values not present in the data
+- DO NOT include examples or hypotheticals that aren't in the actual data
+- If showing dates, ONLY show dates that appear in the data records
+- If showing counts, ONLY show counts from the data
+- If data seems incomplete or suspicious (e.g., dates outside expected range), mention this concern
+
+Example: If data shows {'name': 'Biden', 'inauguration_date': '2021-01-20', 'mission_count': 10}
+✅ CORRECT: "Biden (inaugurated 2021-01-20): 10 missions"
+❌ WRONG: Adding "including a 2022 mission to..." (2022 not in the data!)
+
+Answer the user's question based on this data. Perform any necessary counting, grouping, filtering, or correlation yourself. Be concise and accurate. When discussing dates, remember that today is ${currentDate}.`;
+
+  return systemPrompt;
+}
@@ -0,0 +1,164 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { AIAdapter, AIConfig } from './ai.adapter';
+import { ProjectConfig } from '../config';
+import { buildAnswerSystemPrompt } from './answer-prompt';
+
+export class AnthropicAdapter implements AIAdapter {
+  private client: Anthropic;
+  private model: string;
+  private projectConfig?: ProjectConfig;
+  private logger?: any;
+
+  constructor(config: AIConfig, projectConfig?: ProjectConfig, logger?: any) {
+    this.client = new Anthropic({
+      apiKey: config.apiKey,
+      maxRetries: 0, // Retries are handled in chatWithRetry so they get logged
+    });
+    this.model = config.model;
+    this.projectConfig = projectConfig;
+    this.logger = logger;
+  }
+
+  private async chatWithRetry(params: any, maxRetries = 3): Promise<any> {
+    let lastError: any;
+
+    for (let attempt = 0; attempt < maxRetries; attempt++) {
+      try {
+        return await this.client.messages.create(params);
+      } catch (error: any) {
+        lastError = error;
+
+        // Anthropic uses 429 for rate limits and 529 when the API is overloaded
+        const isRetryableError = error?.status === 429 ||
+                                 error?.status === 529 ||
+                                 error?.message?.toLowerCase().includes('rate limit') ||
+                                 error?.message?.toLowerCase().includes('overloaded');
+
+        if (!isRetryableError || attempt === maxRetries - 1) {
+          throw error;
+        }
+
+        // Exponential backoff: 2^attempt seconds (2s, 4s, 8s)
+        const delaySeconds = Math.pow(2, attempt + 1);
+
+        if (this.logger) {
+          await this.logger.info('Anthropic rate limit - retrying', {
+            attempt: attempt + 1,
+            maxRetries,
+            delaySeconds,
+            error: error?.message
+          });
+        }
+
+        await new Promise(resolve => setTimeout(resolve, delaySeconds * 1000));
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Concatenate the text blocks of a Messages API response
+   */
+  private extractText(completion: any): string {
+    return (completion.content || [])
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('');
+  }
+
+  /**
+   * Merge consecutive turns with the same role (e.g. a history ending in an unanswered user turn),
+   * which the Messages API rejects
+   */
+  private mergeTurns(turns: { role: string; content: string }[]): { role: string; content: string }[] {
+    const merged: { role: string; content: string }[] = [];
+    for (const turn of turns) {
+      const last = merged[merged.length - 1];
+      if (last && last.role === turn.role) {
+        last.content = `${last.content}\n\n${turn.content}`;
+      } else {
+        merged.push({ ...turn });
+      }
+    }
+    return merged;
+  }
+
+  async chat(message: string, context: any): Promise<string> {
+    try {
+      // Check if this is a JSON analysis request
+      const isJsonMode = context.system_instruction && context.require_json;
+
+      if (isJsonMode) {
+        // Query analysis mode - the Messages API has no JSON response format,
+        // so instruct the model and prefill the assistant turn with "{"
+        const modelToUse = context.model || this.model;
+
+        const completion = await this.chatWithRetry({
+          model: modelToUse,
+          system: `${context.system_instruction}\n\nRespond with a single valid JSON object only. Do not include any text before or after the JSON.`,
+          messages: [
+            { role: 'user', content: message },
+            { role: 'assistant', content: '{' }
+          ],
+          temperature: 0,
+          max_tokens: 4096,
+        });
+
+        const response = this.extractText(completion);
+        return response ? `{${response}` : '{}';
+      }
+
+      // Normal chat mode
+      const systemPrompt = buildAnswerSystemPrompt(context, this.projectConfig);
+
+      // Add conversation history (limit to last 10 messages to avoid token overflow)
+      // The Messages API only accepts user/assistant turns and must start with a user turn
+      const conversationHistory = context.conversationHistory || [];
+      const recentHistory = conversationHistory
+        .slice(-10)
+        .filter((msg: any) => msg.role === 'user' || msg.role === 'assistant');
+      while (recentHistory.length > 0 && recentHistory[0].role !== 'user') {
+        recentHistory.shift();
+      }
+
+      const messages = this.mergeTurns([
+        ...recentHistory.map((msg: any) => ({ role: msg.role, content: msg.content })),
+        { role: 'user', content: message },
+      ]);
+
+      const completion = await this.chatWithRetry({
+        model: this.model,
+        system: systemPrompt,
+        messages,
+        max_tokens: 8192,
+      });
+
+      const response = this.extractText(completion);
+
+      const completionDetails = {
+        finishReason: completion.stop_reason,
+        responseLength: response.length,
+        promptTokens: completion.usage?.input_tokens,
+        completionTokens: completion.usage?.output_tokens,
+        totalTokens: (completion.usage?.input_tokens || 0) + (completion.usage?.output_tokens || 0)
+      };
+
+      if (this.logger && context.requestId) {
+        await this.logger.debug(`Anthropic completion [${context.requestId}]`, completionDetails);
+      }
+
+      return response || 'No response generated';
+    } catch (error) {
+      console.error('Anthropic API error:', error);
+
+      if (error instanceof Error) {
+        console.error('Error message:', error.message);
+        console.error('Error stack:', error.stack);
+      }
+
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to get AI response: ${errorMessage}`);
+    }
+  }
+}
@@ -0,0 +1,283 @@
+// Streaming RFC 4180 CSV parser
+// Handles quoted fields with embedded delimiters, quotes and newlines, CRLF/LF line endings,
+// a leading UTF-8 BOM and delimiter auto-detection. Rows with the wrong number of fields are
+// reported with their line number and skipped rather than misaligned.
+
+import { createReadStream } from 'fs';
+
+// Per-dataset overrides, configured under "csv" in the dataset's metadata.yaml
+export interface CsvDialect {
+  delimiter?: string; // Default: auto-detected from comma, semicolon, tab and pipe
+  quote?: string; // Default: "
+  encoding?: BufferEncoding; // Default: utf-8
+}
+
+export interface CsvRowError {
+  line: number; // Line the row starts on (1-based, header is line 1)
+  message: string;
+}
+
+export interface CsvParseSummary {
+  headers: string[];
+  delimiter: string;
+  rowCount: number;
+  malformedRows: number;
+  errors: CsvRowError[]; // First MAX_REPORTED_ERRORS problems
+}
+
+export type CsvRowHandler = (values: string[], line: number, headers: string[]) => void;
+
+// Delimiters tried by auto-detection, in order of preference on a tie
+export const CSV_DELIMITERS = [',', ';', '\t', '|'];
+
+// Lines sampled for delimiter detection
+const DETECT_LINES = 20;
+
+// Errors kept for reporting; malformedRows still counts all of them
+const MAX_REPORTED_ERRORS = 100;
+
+const BOM = '\uFEFF';
+
+/**
+ * Pick the delimiter that splits the sampled lines into the same, largest number of fields.
+ * Delimiters inside quoted fields are ignored.
+ */
+export function detectDelimiter(sample: string, quote: string = '"'): string {
+  const counts = CSV_DELIMITERS.map(() => [0]);
+  let inQuotes = false;
+  let lines = 0;
+
+  for (let i = 0; i < sample.length && lines < DETECT_LINES; i++) {
+    const char = sample[i];
+    if (char === quote) {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && char === '\n') {
+      lines++;
+      counts.forEach(lineCounts => lineCounts.push(0));
+    } else if (!inQuotes) {
+      const index = CSV_DELIMITERS.indexOf(char);
+      if (index >= 0) counts[index][counts[index].length - 1]++;
+    }
+  }
+
+  let best = CSV_DELIMITERS[0];
+  let bestScore = 0;
+  CSV_DELIMITERS.forEach((delimiter, index) => {
+    // Ignore the trailing partial line unless it is the only one
+    const lineCounts = counts[index].length > 1 ? counts[index].slice(0, -1) : counts[index];
+    const header = lineCounts[0];
+    if (header === 0) return;
+    const consistent = lineCounts.every(count => count === header);
+    const score = consistent ? header * 2 : header;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+
+  return best;
+}
+
+export class CsvParser {
+  private onRow: CsvRowHandler;
+  private delimiter?: string;
+  private quote: string;
+
+  private pending = ''; // Text held back until the delimiter is known
+  private started = false;
+  private headers: string[] | null = null;
+
+  private fields: string[] = [];
+  private field = '';
+  private inQuotes = false;
+  private afterQuote = false; // Just saw a quote inside a quoted field: closing or escaped ""
+  private quotedField = false;
+  private skipLineFeed = false; // Previous character was \r
+  private line = 1;
+  private rowStartLine = 1;
+
+  private rowCount = 0;
+  private malformedRows = 0;
+  private errors: CsvRowError[] = [];
+
+  constructor(onRow: CsvRowHandler, dialect: CsvDialect = {}) {
+    this.onRow = onRow;
+    this.delimiter = dialect.delimiter;
+    this.quote = dialect.quote || '"';
+  }
+
+  write(chunk: string) {
+    if (!this.started) {
+      this.started = true;
+      if (chunk.startsWith(BOM)) chunk = chunk.slice(1);
+    }
+
+    if (!this.delimiter) {
+      // Wait for enough lines to detect the delimiter
+      this.pending += chunk;
+      if (this.pending.split('\n', DETECT_LINES + 1).length <= DETECT_LINES) return;
+      this.delimiter = detectDelimiter(this.pending, this.quote);
+      chunk = this.pending;
+      this.pending = '';
+    }
+
+    this.consume(chunk);
+  }
+
+  end(): CsvParseSummary {
+    if (!this.delimiter) {
+      this.delimiter = detectDelimiter(this.pending, this.quote);
+      this.consume(this.pending);
+      this.pending = '';
+    }
+
+    if (this.inQuotes && !this.afterQuote) {
+      this.report(this.rowStartLine, 'Unterminated quoted field at end of file');
+    } else if (this.field !== '' || this.fields.length > 0 || this.quotedField) {
+      // Last row without a trailing newline
+      this.endRow();
+    }
+
+    return {
+      headers: this.headers || [],
+      delimiter: this.delimiter,
+      rowCount: this.rowCount,
+      malformedRows: this.malformedRows,
+      errors: this.errors,
+    };
+  }
+
+  private consume(text: string) {
+    const delimiter = this.delimiter!;
+    const quote = this.quote;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (this.skipLineFeed) {
+        this.skipLineFeed = false;
+        if (char === '\n') continue;
+      }
+
+      if (this.inQuotes) {
+        if (this.afterQuote) {
+          this.afterQuote = false;
+          if (char === quote) {
+            // Escaped quote ("")
+            this.field += quote;
+            continue;
+          }
+          // Closing quote; fall through and handle the character as unquoted
+          this.inQuotes = false;
+        } else if (char === quote) {
+          this.afterQuote = true;
+          continue;
+        } else {
+          if (char === '\n') this.line++;
+          this.field += char;
+          continue;
+        }
+      }
+
+      if (char === quote && this.field === '' && !this.quotedField) {
+        this.inQuotes = true;
+        this.quotedField = true;
+      } else if (char === delimiter) {
+        this.endField();
+      } else if (char === '\r' || char === '\n') {
+        this.skipLineFeed = char === '\r';
+        this.endRow();
+        this.line++;
+        this.rowStartLine = this.line;
+      } else {
+        this.field += char;
+      }
+    }
+  }
+
+  private endField() {
+    this.fields.push(this.field);
+    this.field = '';
+    this.quotedField = false;
+  }
+
+  private endRow() {
+    // A quoted empty value ("") on its own line is a value, not a blank line
+    const quoted = this.quotedField;
+    this.endField();
+    const values = this.fields;
+    this.fields = [];
+
+    // Blank line
+    if (values.length === 1 && values[0] === '' && !quoted) return;
+
+    if (!this.headers) {
+      this.headers = this.normalizeHeaders(values);
+      return;
+    }
+
+    if (values.length !== this.headers.length) {
+      this.report(this.rowStartLine, `Expected ${this.headers.length} fields but found ${values.length}`);
+      return;
+    }
+
+    this.rowCount++;
+    this.onRow(values, this.rowStartLine, this.headers);
+  }
+
+  /**
+   * Trim header names, name empty ones and make duplicates unique
+   */
+  private normalizeHeaders(values: string[]): string[] {
+    const seen = new Map<string, number>();
+    return values.map((value, index) => {
+      const name = value.trim() || `column_${index + 1}`;
+      const count = (seen.get(name) || 0) + 1;
+      seen.set(name, count);
+      return count > 1 ? `${name}_${count}` : name;
+    });
+  }
+
+  private report(line: number, message: string) {
+    this.malformedRows++;
+    if (this.errors.length < MAX_REPORTED_ERRORS) {
+      this.errors.push({ line, message });
+    }
+  }
+}
+
+/**
+ * Parse a CSV file chunk by chunk, calling onRow for every well-formed data row
+ */
+export function parseCsvFile(filePath: string, onRow: CsvRowHandler, dialect: CsvDialect = {}): Promise<CsvParseSummary> {
+  return new Promise((resolve, reject) => {
+    const parser = new CsvParser(onRow, dialect);
+    const stream = createReadStream(filePath, { encoding: dialect.encoding || 'utf-8' });
+
+    stream.on('data', chunk => {
+      try {
+        parser.write(chunk as string);
+      } catch (error) {
+        stream.destroy();
+        reject(error);
+      }
+    });
+    stream.on('error', reject);
+    stream.on('end', () => {
+      try {
+        resolve(parser.end());
+      } catch (error) {
+        reject(error);
+      }
+    });
+  });
+}
+
+/**
+ * Parse CSV text that is already in memory
+ */
+export function parseCsv(content: string, onRow: CsvRowHandler, dialect: CsvDialect = {}): CsvParseSummary {
+  const parser = new CsvParser(onRow, dialect);
+  parser.write(content);
+  return parser.end();
+}
@@ -0,0 +1,200 @@
+// Column-level value typing for CSV datasets
+// Each column gets one type, inferred from all of its values or declared in schema.yaml,
+// instead of guessing cell by cell
+
+import { promises as fs } from 'fs';
+import yaml from 'js-yaml';
+
+export type CsvFieldType = 'string' | 'integer' | 'decimal' | 'currency' | 'percent' | 'date' | 'boolean';
+
+export interface CsvFieldSpec {
+  type: CsvFieldType;
+  // date: token pattern such as MM/DD/YYYY or DD.MM.YYYY (output is always ISO YYYY-MM-DD)
+  // percent: 45% reads as 0.45, or as 45 with format "points"
+  format?: string;
+}
+
+export const CSV_FIELD_TYPES: CsvFieldType[] = ['string', 'integer', 'decimal', 'currency', 'percent', 'date', 'boolean'];
+
+// Cell values read as null unless metadata.yaml sets csv.nullValues
+export const DEFAULT_NULL_VALUES = ['', 'N/A', 'n/a', 'NULL', 'null', '$-'];
+
+const INTEGER_PATTERN = /^[+-]?(0|[1-9]\d{0,2}(,\d{3})+|[1-9]\d*)$/;
+const DECIMAL_PATTERN = /^[+-]?(\d{1,3}(,\d{3})+|\d+)?(\.\d+)?([eE][+-]?\d+)?$/;
+// Symbol optional so a column mixing "$5" and "5" is still currency; negatives as -$5, $-5 or $(5)
+const CURRENCY_PATTERN = /^[-+]?\s*[$€£¥]?\s*[-+]?\s*(\([\d,]*\.?\d+\)|[\d,]*\.?\d+)$/;
+const LEADING_ZERO_PATTERN = /^[+-]?0\d/;
+const PERCENT_PATTERN = /^[+-]?[\d,]*\.?\d+\s*%$/;
+const BOOLEAN_VALUES: Record<string, boolean> = { true: true, false: false, yes: true, no: false, y: true, n: false, '1': true, '0': false };
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([T ][\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/;
+const SLASH_DATE_PATTERN = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/;
+
+/**
+ * Pick the narrowest type that fits every non-null value in a column.
+ * Integers with leading zeros (IDs like 00123) stay strings.
+ */
+export function inferFieldSpec(values: string[], nullValues: Set<string>): CsvFieldSpec {
+  const candidates = new Set<CsvFieldType>(['boolean', 'integer', 'decimal', 'currency', 'percent', 'date']);
+  let slashDayFirst = false;
+  let seen = 0;
+
+  for (const raw of values) {
+    const value = raw.trim();
+    if (nullValues.has(value)) continue;
+    seen++;
+
+    if (candidates.has('boolean') && !['true', 'false'].includes(value.toLowerCase())) candidates.delete('boolean');
+    if (LEADING_ZERO_PATTERN.test(value)) {
+      candidates.delete('integer');
+      candidates.delete('decimal');
+      candidates.delete('currency');
+    }
+    if (candidates.has('integer') && (!INTEGER_PATTERN.test(value) || !Number.isSafeInteger(Number(value.replace(/,/g, ''))))) candidates.delete('integer');
+    if (candidates.has('decimal') && (!DECIMAL_PATTERN.test(value) || !/\d/.test(value))) candidates.delete('decimal');
+    if (candidates.has('currency') && !CURRENCY_PATTERN.test(value)) candidates.delete('currency');
+    if (candidates.has('percent') && !PERCENT_PATTERN.test(value)) candidates.delete('percent');
+    if (candidates.has('date')) {
+      const slash = value.match(SLASH_DATE_PATTERN);
+      if (slash) {
+        // Day-first when any first part cannot be a month
+        if (Number(slash[1]) > 12) slashDayFirst = true;
+      } else if (!ISO_DATE_PATTERN.test(value) || isNaN(Date.parse(value))) {
+        candidates.delete('date');
+      }
+    }
+
+    if (candidates.size === 0) break;
+  }
+
+  if (seen === 0) return { type: 'string' };
+
+  for (const type of ['boolean', 'integer', 'decimal', 'currency', 'percent'] as CsvFieldType[]) {
+    if (candidates.has(type)) return { type };
+  }
+  if (candidates.has('date')) {
+    const isSlash = values.some(value => SLASH_DATE_PATTERN.test(value.trim()));
+    return isSlash ? { type: 'date', format: slashDayFirst ? 'DD/MM/YYYY' : 'MM/DD/YYYY' } : { type: 'date' };
+  }
+  return { type: 'string' };
+}
+
+/**
+ * Field types declared with type/format on any field entry in the dataset's schema.yaml
+ */
+export async function loadDeclaredFieldTypes(schemaPath: string): Promise<Map<string, CsvFieldSpec>> {
+  const types = new Map<string, CsvFieldSpec>();
+  let schema: any;
+  try {
+    schema = yaml.load(await fs.readFile(schemaPath, 'utf-8'));
+  } catch (e) {
+    // No schema.yaml, infer every field
+    return types;
+  }
+
+  const dataSchema = schema?.dataSchema || {};
+  const entries = [
+    ...(dataSchema.categoricalFields || []),
+    ...(dataSchema.numericFields || []),
+    ...(dataSchema.fields || []),
+  ];
+  entries.forEach((entry: any) => {
+    if (!entry?.name || !entry.type) return;
+    if (!CSV_FIELD_TYPES.includes(entry.type)) {
+      console.warn(`schema.yaml: unknown type '${entry.type}' for field '${entry.name}', inferring instead`);
+      return;
+    }
+    types.set(entry.name, { type: entry.type, format: entry.format });
+  });
+  return types;
+}
+
+/**
+ * Convert one cell. Null tokens become null; values that do not fit a declared type become null
+ * and are reported through onInvalid.
+ */
+export function convertValue(raw: string, spec: CsvFieldSpec, nullValues: Set<string>, onInvalid?: () => void): any {
+  const value = raw.trim();
+  if (nullValues.has(value)) return null;
+
+  let converted: any;
+  switch (spec.type) {
+    case 'string':
+      return value;
+    case 'integer':
+    case 'decimal':
+      converted = parseNumber(value);
+      if (converted !== null && spec.type === 'integer' && !Number.isInteger(converted)) converted = null;
+      break;
+    case 'currency':
+      converted = parseCurrency(value);
+      break;
+    case 'percent':
+      converted = parseNumber(value.replace(/%$/, '').trim());
+      if (converted !== null && spec.format !== 'points') converted = converted / 100;
+      break;
+    case 'boolean':
+      converted = BOOLEAN_VALUES[value.toLowerCase()] ?? null;
+      break;
+    case 'date':
+      converted = parseDate(value, spec.format);
+      break;
+    default:
+      return value;
+  }
+
+  if (converted === null) onInvalid?.();
+  return converted;
+}
+
+function parseNumber(value: string): number | null {
+  const cleaned = value.replace(/,/g, '');
+  if (cleaned === '' || !DECIMAL_PATTERN.test(cleaned)) return null;
+  const num = Number(cleaned);
+  return isNaN(num) ? null : num;
+}
+
+/**
+ * "$1,234.50" -> 1234.5; "$(122.80)", "-$122.80" and "$-122.80" -> -122.8
+ */
+function parseCurrency(value: string): number | null {
+  const negative = /\(.*\)/.test(value) || /^-|[$€£¥]\s*-/.test(value);
+  const digits = value.replace(/[$€£¥()\s,+-]/g, '');
+  if (digits === '' || !/^\d*\.?\d+$/.test(digits)) return null;
+  const num = Number(digits);
+  return negative ? -num : num;
+}
+
+/**
+ * Parse a date with an optional token format (YYYY, MM, DD, and HH/mm/ss) into ISO form.
+ * Without a format, ISO dates are kept as they are.
+ */
+function parseDate(value: string, format?: string): string | null {
+  if (!format) {
+    return ISO_DATE_PATTERN.test(value) && !isNaN(Date.parse(value)) ? value : null;
+  }
+
+  const tokens: string[] = [];
+  const pattern = format
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/YYYY|MM|DD|HH|mm|ss|M|D/g, token => {
+      tokens.push(token);
+      return token === 'YYYY' ? '(\\d{4})' : '(\\d{1,2})';
+    });
+  const match = value.match(new RegExp(`^${pattern}$`));
+  if (!match) return null;
+
+  const parts: Record<string, number> = {};
+  tokens.forEach((token, i) => {
+    parts[token.length === 1 ? token + token : token] = Number(match[i + 1]);
+  });
+
+  const year = parts.YYYY;
+  const month = parts.MM;
+  const day = parts.DD;
+  if (!year || !month || !day || month > 12) return null;
+  const date = new Date(Date.UTC(year, month - 1, day, parts.HH || 0, parts.mm || 0, parts.ss || 0));
+  if (date.getUTCDate() !== day) return null;
+
+  const iso = date.toISOString();
+  return tokens.includes('HH') ? iso.slice(0, 19) : iso.slice(0, 10);
+}
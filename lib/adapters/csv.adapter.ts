@@ -1,6 +1,20 @@
 import { promises as fs } from 'fs';
 import path from 'path';
-import { DataAdapter, DataSourceConfig } from './data.adapter';
+import yaml from 'js-yaml';
+import { AdapterQuery, AdapterQueryResult, DataAdapter, DataSourceConfig } from './data.adapter';
+import { CsvDialect, parseCsvFile } from './csv-parser';
+import { DEFAULT_NULL_VALUES, convertValue, inferFieldSpec, loadDeclaredFieldTypes } from './csv-typing';
+import { queryRecords } from './in-memory-query';
+import { getDatasetCache } from '../dataset-cache';
+import { DiscoveredSchema } from '../schema-discovery';
+
+// Malformed rows logged per file; the rest are only counted
+const MAX_LOGGED_ROW_ERRORS = 10;
+
+// "csv" section of metadata.yaml
+interface CsvSettings extends CsvDialect {
+  nullValues?: string[]; // Default: DEFAULT_NULL_VALUES
+}
 
 export class CSVAdapter implements DataAdapter {
   private config: DataSourceConfig;
@@ -50,6 +64,33 @@ export class CSVAdapter implements DataAdapter {
     }
   }
 
+  /**
+   * Record count from the shared dataset cache
+   */
+  async count(): Promise<number> {
+    return getDatasetCache(this.config.cache).getStats(await this.getData()).recordCount;
+  }
+
+  /**
+   * Schema discovered from every record, cached with the data
+   */
+  async getSchema(): Promise<DiscoveredSchema> {
+    return getDatasetCache(this.config.cache).getStats(await this.getData()).schema;
+  }
+
+  /**
+   * Filter, sort and paginate the loaded records
+   */
+  async query(query: AdapterQuery): Promise<AdapterQueryResult> {
+    const data = await this.getData();
+    return queryRecords(Array.isArray(data) ? data : [], getDatasetCache(this.config.cache).getStats(data).schema, query);
+  }
+
+  async *stream(): AsyncIterable<any> {
+    const data = await this.getData();
+    yield* Array.isArray(data) ? data : [];
+  }
+
   private async loadSingleDataset(datasetName: string): Promise<any> {
     let filePath: string = '';
 
@@ -85,110 +126,72 @@ export class CSVAdapter implements DataAdapter {
       throw new Error('No data path configured');
     }
 
-    const fileContent = await fs.readFile(filePath, 'utf-8');
-    return this.parseCSV(fileContent);
+    // The dialect lives in metadata.yaml and field types in schema.yaml next to the data file,
+    // so changes there also reload the data
+    const datasetDir = path.dirname(filePath);
+    const metadataPath = path.join(datasetDir, 'metadata.yaml');
+    const schemaPath = path.join(datasetDir, 'schema.yaml');
+    return getDatasetCache(this.config.cache).loadFile(
+      filePath,
+      file => this.parseFile(file, metadataPath, schemaPath),
+      [metadataPath, schemaPath]
+    );
   }
 
-  private parseCSV(content: string): any[] {
-    const lines = content.split('\n').filter(line => line.trim().length > 0);
-    if (lines.length === 0) return [];
-
-    // Parse header
-    const headers = this.parseCSVLine(lines[0]);
-
-    // Parse rows
-    const data: any[] = [];
-    for (let i = 1; i < lines.length; i++) {
-      const values = this.parseCSVLine(lines[i]);
-      if (values.length === 0) continue;
-
-      const row: any = {};
-      headers.forEach((header, index) => {
-        const value = values[index] || '';
-        // Try to parse as number or boolean
-        row[header] = this.parseValue(value);
+  /**
+   * Stream-parse a CSV file into records. Malformed rows are skipped and logged with their line numbers.
+   * Each column is then converted with one type, declared in schema.yaml or inferred from all its values.
+   */
+  private async parseFile(filePath: string, metadataPath: string, schemaPath: string): Promise<any[]> {
+    const settings = await this.loadSettings(metadataPath);
+    const declaredTypes = await loadDeclaredFieldTypes(schemaPath);
+    const nullValues = new Set(settings.nullValues || DEFAULT_NULL_VALUES);
+    const rows: string[][] = [];
+
+    const summary = await parseCsvFile(filePath, values => {
+      rows.push(values);
+    }, settings);
+
+    if (summary.malformedRows > 0) {
+      console.warn(`CSV ${filePath}: skipped ${summary.malformedRows} malformed row(s)`);
+      summary.errors.slice(0, MAX_LOGGED_ROW_ERRORS).forEach(error => {
+        console.warn(`  line ${error.line}: ${error.message}`);
       });
-      data.push(row);
     }
 
-    return data;
-  }
+    const specs = summary.headers.map((header, index) =>
+      declaredTypes.get(header) || inferFieldSpec(rows.map(values => values[index]), nullValues)
+    );
 
-  private parseCSVLine(line: string): string[] {
-    const result: string[] = [];
-    let current = '';
-    let inQuotes = false;
-
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      const nextChar = line[i + 1];
-
-      if (char === '"') {
-        if (inQuotes && nextChar === '"') {
-          // Escaped quote
-          current += '"';
-          i++; // Skip next quote
-        } else {
-          // Toggle quote mode
-          inQuotes = !inQuotes;
-        }
-      } else if (char === ',' && !inQuotes) {
-        // End of field
-        result.push(current);
-        current = '';
-      } else {
-        current += char;
-      }
-    }
+    const invalidCounts = new Map<string, number>();
+    const data = rows.map(values => {
+      const row: any = {};
+      summary.headers.forEach((header, index) => {
+        row[header] = convertValue(values[index], specs[index], nullValues, () => {
+          invalidCounts.set(header, (invalidCounts.get(header) || 0) + 1);
+        });
+      });
+      return row;
+    });
 
-    // Add last field
-    result.push(current);
+    invalidCounts.forEach((count, header) => {
+      const spec = specs[summary.headers.indexOf(header)];
+      console.warn(`CSV ${filePath}: ${count} value(s) in '${header}' are not ${spec.type}${spec.format ? ` (${spec.format})` : ''} and were set to null`);
+    });
 
-    return result;
+    return data;
   }
 
-  private parseValue(value: string): any {
-    // Remove quotes if present
-    if (value.startsWith('"') && value.endsWith('"')) {
-      value = value.slice(1, -1).replace(/""/g, '"');
-    }
-
-    // Trim whitespace
-    value = value.trim();
-
-    // Empty string
-    if (value === '') return '';
-
-    // Boolean
-    if (value.toLowerCase() === 'true') return true;
-    if (value.toLowerCase() === 'false') return false;
-
-    // Percentage (e.g., "45.00%", "0.00%")
-    if (value.endsWith('%')) {
-      const numStr = value.slice(0, -1).trim();
-      const num = Number(numStr);
-      if (!isNaN(num)) {
-        return num / 100; // Convert to decimal
-      }
-    }
-
-    // Currency with possible negative in parentheses (e.g., "$408.30", "$(122.80)")
-    const currencyMatch = value.match(/^\$?\(?([0-9,]+\.?\d*)\)?$/);
-    if (currencyMatch) {
-      const numStr = currencyMatch[1].replace(/,/g, '');
-      const num = Number(numStr);
-      if (!isNaN(num)) {
-        // If wrapped in parentheses, it's negative
-        return value.includes('(') ? -num : num;
-      }
-    }
-
-    // Plain number (including negatives)
-    if (!isNaN(Number(value)) && value !== '') {
-      return Number(value);
+  /**
+   * Optional "csv" section of the dataset's metadata.yaml (delimiter, quote, encoding, nullValues)
+   */
+  private async loadSettings(metadataPath: string): Promise<CsvSettings> {
+    try {
+      const metadata = yaml.load(await fs.readFile(metadataPath, 'utf-8')) as any;
+      return metadata?.csv || {};
+    } catch (e) {
+      // No metadata.yaml, auto-detect
+      return {};
     }
-
-    // String
-    return value;
   }
 }
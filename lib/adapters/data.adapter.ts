@@ -1,6 +1,80 @@
 // Data Source Adapter Interface
+import { DatasetCacheConfig } from '../dataset-cache';
+import { DatabaseConnectionConfig } from './database-connections';
+import { DiscoveredFieldType, DiscoveredSchema } from '../schema-discovery';
+import { FilterNode } from '../types';
+
+// Options for getData(); adapters without column projection ignore them and return full records
+export interface DataReadOptions {
+  columns?: string[]; // Only read these fields
+  limit?: number; // Only read the first rows
+}
+
+// Sort order for query(); values compare like the data browser (numbers numerically, text in natural order, empty values last)
+export interface DataSort {
+  field: string;
+  direction: 'asc' | 'desc';
+}
+
+// Selection for query(); the adapter runs what it can at the source
+export interface AdapterQuery {
+  filters?: FilterNode[]; // Top-level nodes ANDed together
+  fields?: string[]; // Only return these fields
+  sort?: DataSort;
+  offset?: number; // Skip this many matching records
+  limit?: number;
+  dateFields?: string[]; // Fields the caller compares as dates; filters on them are never pushed down
+  withTotal?: boolean; // Also count every matching record (AdapterQueryResult.total)
+}
+
+export interface AdapterQueryResult {
+  records: any[];
+  remainingFilters: FilterNode[]; // Filters the caller still has to apply
+  limitApplied: boolean; // False when the caller still has to sort and apply offset and limit
+  total?: number; // Matching records before offset and limit; set for withTotal when limitApplied
+}
+
 export interface DataAdapter {
-  getData(): Promise<any>;
+  getData(options?: DataReadOptions): Promise<any>;
+
+  // Optional push-down methods, preferred by callers over loading every record with getData().
+  // In-memory adapters (JSON, CSV) answer them from their cached records.
+  count?(): Promise<number>; // Record count without loading data
+  getSchema?(): Promise<DiscoveredSchema>; // Database-backed adapters profile a sample of rows
+  query?(query: AdapterQuery): Promise<AdapterQueryResult>;
+  stream?(): AsyncIterable<any>; // Every record, one at a time
+
+  // Optional: adapters that read at the source (Parquet, SQLite, databases) report exact field types,
+  // so the chat pipeline plans on a preview and then loads only the columns and rows it needs
+  getFieldTypes?(): Promise<Record<string, DiscoveredFieldType>>;
+}
+
+// Data files a dataset folder may contain, in order of preference
+export const DATASET_FILE_NAMES = ['data.json', 'data.jsonl', 'data.ndjson', 'data.csv', 'data.xlsx', 'data.parquet'];
+
+// Type folders whose datasets live in a database named by metadata.yaml instead of a data file
+export const CONNECTOR_TYPES = ['sqlite', 'postgres', 'mysql'];
+
+// metadata.yaml sections read by the data adapters; kept when the schema editor rewrites the file
+export const DATASET_SETTINGS_SECTIONS = ['csv', 'json', 'xlsx', 'sqlite', 'postgres', 'mysql'];
+
+// Excel workbooks configured with "sheets: all" list each sheet as its own dataset, named "<dataset>/<sheet>"
+// (Excel does not allow "/" in sheet names, so the first one always ends the folder name)
+export const SHEET_SEPARATOR = '/';
+
+/**
+ * Dataset folder of a dataset name, and the sheet for sheet datasets
+ */
+export function parseDatasetName(name: string): { folder: string; sheet?: string } {
+  const index = name.indexOf(SHEET_SEPARATOR);
+  return index === -1 ? { folder: name } : { folder: name.slice(0, index), sheet: name.slice(index + 1) };
+}
+
+/**
+ * Files whose presence marks a dataset folder of the given type, in order of preference
+ */
+export function datasetMarkerFiles(type: string): string[] {
+  return CONNECTOR_TYPES.includes(type) ? ['metadata.yaml'] : DATASET_FILE_NAMES;
 }
 
 export interface DataSourceConfig {
@@ -8,4 +82,6 @@ export interface DataSourceConfig {
   path?: string;
   datasetsPath?: string;
   defaultDataset?: string;
+  cache?: DatasetCacheConfig;
+  connections?: Record<string, DatabaseConnectionConfig>; // Database connection profiles by name
 }
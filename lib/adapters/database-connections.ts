@@ -0,0 +1,332 @@
+// Read-only connections to PostgreSQL and MySQL, configured as named profiles under
+// "dataSource.connections" in app.yaml
+// Every statement runs inside a READ ONLY transaction that is rolled back afterwards, and values
+// are converted to the JSON-friendly forms the file adapters produce (numbers, ISO date strings).
+
+import { Pool as PgPool, PoolClient, QueryConfig, QueryResult, types as pgTypes } from 'pg';
+import mysql from 'mysql2/promise';
+import { MYSQL_DIALECT, POSTGRES_DIALECT, SqlDialect } from './sql-pushdown';
+import { DiscoveredFieldType } from '../schema-discovery';
+
+export type DatabaseType = 'postgres' | 'mysql';
+
+// One connection profile; credentials usually come from environment variables ("${PG_PASSWORD}")
+export interface DatabaseConnectionConfig {
+  type: DatabaseType;
+  url?: string; // Connection string, instead of the fields below
+  host?: string;
+  port?: number;
+  database?: string;
+  user?: string;
+  password?: string;
+  ssl?: boolean;
+  maxConnections?: number; // Pool size. Default: 4
+}
+
+export interface DatabaseColumn {
+  name: string;
+  type: DiscoveredFieldType;
+  exact: boolean; // SQL comparisons on this column give the same results as FilterEngine
+}
+
+export interface DatabaseClient {
+  readonly dialect: SqlDialect;
+  select(sql: string, params?: any[]): Promise<any[]>;
+  columns(from: string): Promise<DatabaseColumn[]>; // Columns of a table or subquery, without reading rows
+  primaryKey(table: string, schema?: string): Promise<string[]>; // Primary key columns in key order; empty when there is none
+}
+
+const DEFAULT_MAX_CONNECTIONS = 4;
+const CONNECT_TIMEOUT_MS = 5000;
+
+// Pools are shared by all requests and recreated when their profile changes
+const clients = new Map<string, { profile: string; client: DatabaseClient & { end(): Promise<void> } }>();
+
+/**
+ * Client for a named connection profile
+ */
+export function getDatabaseClient(name: string, connection: DatabaseConnectionConfig | undefined): DatabaseClient {
+  if (!connection) {
+    throw new Error(`Connection profile '${name}' not found under dataSource.connections in app.yaml`);
+  }
+
+  const profile = JSON.stringify(connection);
+  const existing = clients.get(name);
+  if (existing && existing.profile === profile) {
+    return existing.client;
+  }
+  if (existing) {
+    existing.client.end().catch(error => console.error(`Error closing connection pool '${name}':`, error));
+  }
+
+  let client: DatabaseClient & { end(): Promise<void> };
+  switch (connection.type) {
+    case 'postgres':
+      client = new PostgresClient(connection);
+      break;
+    case 'mysql':
+      client = new MysqlClient(connection);
+      break;
+    default:
+      throw new Error(`Connection profile '${name}' has unsupported type '${connection.type}' (expected postgres or mysql)`);
+  }
+  clients.set(name, { profile, client });
+  return client;
+}
+
+/**
+ * "2024-01-15 13:30:00.123" -> "2024-01-15T13:30:00", the form the file adapters use
+ */
+function isoTimestamp(value: string): string {
+  return value.replace(' ', 'T').slice(0, 19);
+}
+
+function safeNumber(value: string): number | string {
+  const num = Number(value);
+  return Number.isSafeInteger(num) || !/^-?\d+$/.test(value) ? num : value;
+}
+
+// PostgreSQL type OIDs (pg_type.oid)
+const PG = {
+  BOOL: 16, INT8: 20, INT2: 21, INT4: 23, TEXT: 25, OID: 26, JSON: 114, FLOAT4: 700, FLOAT8: 701,
+  VARCHAR: 1043, DATE: 1082, TIMESTAMP: 1114, TIMESTAMPTZ: 1184, NUMERIC: 1700, JSONB: 3802,
+};
+
+// Array OIDs of the common element types
+const PG_ARRAY_TYPES = new Set([1000, 1005, 1007, 1009, 1015, 1016, 1021, 1022, 1115, 1182, 1185, 1231]);
+
+// Text parsers that override pg's defaults: no precision-losing bigints, no local-time Date objects
+const PG_PARSERS: Record<number, (value: string) => any> = {
+  [PG.INT8]: safeNumber,
+  [PG.NUMERIC]: Number,
+  [PG.DATE]: value => value,
+  [PG.TIMESTAMP]: isoTimestamp,
+  [PG.TIMESTAMPTZ]: isoTimestamp, // Sessions use UTC
+};
+
+function pgColumn(name: string, oid: number): DatabaseColumn {
+  switch (oid) {
+    case PG.BOOL:
+      return { name, type: 'boolean', exact: false };
+    case PG.INT2:
+    case PG.INT4:
+    case PG.INT8:
+    case PG.NUMERIC:
+    case PG.FLOAT8:
+      return { name, type: 'number', exact: true };
+    case PG.OID:
+    case PG.FLOAT4: // Compared as float4 in SQL but read as the shortest decimal
+      return { name, type: 'number', exact: false };
+    case PG.TEXT:
+    case PG.VARCHAR:
+      return { name, type: 'string', exact: true };
+    case PG.DATE:
+    case PG.TIMESTAMP:
+    case PG.TIMESTAMPTZ:
+      return { name, type: 'date', exact: false };
+    case PG.JSON:
+    case PG.JSONB:
+      return { name, type: 'object', exact: false };
+    default:
+      // char(n) pads, uuid and enums do not compare with text parameters
+      return { name, type: PG_ARRAY_TYPES.has(oid) ? 'array' : 'string', exact: false };
+  }
+}
+
+/**
+ * Run one statement with the extended query protocol, even without parameters. pg sends
+ * parameterless queries as simple queries, which may hold several statements, so a saved query
+ * like "SELECT 1; COMMIT; DELETE ..." could end the read-only transaction and write.
+ */
+function extendedQuery(client: PoolClient, text: string, values: any[] = []): Promise<QueryResult> {
+  // queryMode is supported by pg but missing from its type definitions
+  return client.query({ text, values, queryMode: 'extended' } as QueryConfig);
+}
+
+class PostgresClient implements DatabaseClient {
+  readonly dialect = POSTGRES_DIALECT;
+  private pool: PgPool;
+
+  constructor(connection: DatabaseConnectionConfig) {
+    this.pool = new PgPool({
+      connectionString: connection.url,
+      host: connection.host,
+      port: connection.port,
+      database: connection.database,
+      user: connection.user,
+      password: connection.password,
+      ssl: connection.ssl,
+      max: connection.maxConnections || DEFAULT_MAX_CONNECTIONS,
+      connectionTimeoutMillis: CONNECT_TIMEOUT_MS,
+      options: '-c TimeZone=UTC',
+      types: {
+        getTypeParser: ((oid: number, format?: any) =>
+          PG_PARSERS[oid] || pgTypes.getTypeParser(oid, format)) as typeof pgTypes.getTypeParser,
+      },
+    });
+    // Idle clients can fail when the server restarts; the pool replaces them
+    this.pool.on('error', error => console.error('PostgreSQL pool error:', error.message));
+  }
+
+  async select(sql: string, params: any[] = []): Promise<any[]> {
+    return this.readOnly(async client => (await extendedQuery(client, sql, params)).rows);
+  }
+
+  async columns(from: string): Promise<DatabaseColumn[]> {
+    return this.readOnly(async client =>
+      (await extendedQuery(client, `SELECT * FROM ${from} LIMIT 0`)).fields.map(field => pgColumn(field.name, field.dataTypeID))
+    );
+  }
+
+  async primaryKey(table: string, schema?: string): Promise<string[]> {
+    const quote = this.dialect.quoteIdentifier;
+    const rows = await this.select(
+      'SELECT a.attname AS name FROM pg_index i' +
+      ' JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = ANY(i.indkey)' +
+      ' WHERE i.indrelid = to_regclass($1) AND i.indisprimary' +
+      ' ORDER BY array_position(i.indkey::int2[], a.attnum)',
+      [(schema ? `${quote(schema)}.` : '') + quote(table)]
+    );
+    return rows.map(row => row.name);
+  }
+
+  async end(): Promise<void> {
+    await this.pool.end();
+  }
+
+  private async readOnly<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN TRANSACTION READ ONLY');
+      return await fn(client);
+    } finally {
+      await client.query('ROLLBACK').catch(() => undefined);
+      client.release();
+    }
+  }
+}
+
+// MySQL column type codes (protocol field types)
+const MYSQL = {
+  DECIMAL: 0, TINY: 1, SHORT: 2, LONG: 3, FLOAT: 4, DOUBLE: 5, TIMESTAMP: 7, LONGLONG: 8, INT24: 9,
+  DATE: 10, DATETIME: 12, YEAR: 13, NEWDATE: 14, VARCHAR: 15, JSON: 245, NEWDECIMAL: 246, ENUM: 247,
+  TINY_BLOB: 249, MEDIUM_BLOB: 250, LONG_BLOB: 251, BLOB: 252, VAR_STRING: 253, STRING: 254,
+};
+
+// Character set number of binary strings (BINARY, VARBINARY, BLOB)
+const MYSQL_BINARY_CHARSET = 63;
+
+function mysqlColumn(field: mysql.FieldPacket): DatabaseColumn {
+  const name = field.name;
+  const binary = field.characterSet === MYSQL_BINARY_CHARSET;
+  switch (field.columnType ?? field.type) {
+    case MYSQL.TINY:
+      // TINYINT(1) is MySQL's BOOLEAN
+      return field.columnLength === 1
+        ? { name, type: 'boolean', exact: false }
+        : { name, type: 'number', exact: true };
+    case MYSQL.SHORT:
+    case MYSQL.LONG:
+    case MYSQL.LONGLONG:
+    case MYSQL.INT24:
+    case MYSQL.YEAR:
+    case MYSQL.DECIMAL:
+    case MYSQL.NEWDECIMAL:
+    case MYSQL.DOUBLE:
+      return { name, type: 'number', exact: true };
+    case MYSQL.FLOAT: // Compared as float in SQL but read as the shortest decimal
+      return { name, type: 'number', exact: false };
+    case MYSQL.DATE:
+    case MYSQL.NEWDATE:
+    case MYSQL.DATETIME:
+    case MYSQL.TIMESTAMP:
+      return { name, type: 'date', exact: false };
+    case MYSQL.JSON:
+      return { name, type: 'object', exact: false };
+    case MYSQL.VARCHAR:
+    case MYSQL.VAR_STRING:
+    case MYSQL.STRING:
+    case MYSQL.ENUM:
+    case MYSQL.TINY_BLOB:
+    case MYSQL.MEDIUM_BLOB:
+    case MYSQL.LONG_BLOB:
+    case MYSQL.BLOB:
+      // TEXT columns are sent as blobs with a text character set
+      return { name, type: 'string', exact: !binary };
+    default:
+      return { name, type: 'string', exact: false };
+  }
+}
+
+class MysqlClient implements DatabaseClient {
+  readonly dialect = MYSQL_DIALECT;
+  private pool: mysql.Pool;
+
+  constructor(connection: DatabaseConnectionConfig) {
+    const options: mysql.PoolOptions = {
+      host: connection.host,
+      port: connection.port,
+      database: connection.database,
+      user: connection.user,
+      password: connection.password,
+      ssl: connection.ssl ? {} : undefined,
+      connectionLimit: connection.maxConnections || DEFAULT_MAX_CONNECTIONS,
+      connectTimeout: CONNECT_TIMEOUT_MS,
+      dateStrings: true,
+      decimalNumbers: true,
+      supportBigNumbers: true, // BIGINT values beyond Number precision are returned as strings
+      typeCast: (field, next) => {
+        if (field.type === 'TINY' && field.length === 1) {
+          const value = field.string();
+          return value === null ? null : value !== '0';
+        }
+        if (field.type === 'DATETIME' || field.type === 'TIMESTAMP') {
+          const value = field.string();
+          return value === null ? null : isoTimestamp(value);
+        }
+        return next();
+      },
+    };
+    this.pool = connection.url ? mysql.createPool({ ...options, uri: connection.url }) : mysql.createPool(options);
+    // TIMESTAMP values are read in UTC, like PostgreSQL sessions
+    this.pool.on('connection', connection => connection.query("SET time_zone = '+00:00'"));
+  }
+
+  async select(sql: string, params: any[] = []): Promise<any[]> {
+    // Prepared statements bind parameters on the server, so a "?" inside a saved query's string
+    // literals is never mistaken for a placeholder
+    return this.readOnly(async connection => (await connection.execute(sql, params))[0] as any[]);
+  }
+
+  async columns(from: string): Promise<DatabaseColumn[]> {
+    return this.readOnly(async connection => {
+      const [, fields] = await connection.query(`SELECT * FROM ${from} LIMIT 0`);
+      return (fields as mysql.FieldPacket[]).map(mysqlColumn);
+    });
+  }
+
+  async primaryKey(table: string, schema?: string): Promise<string[]> {
+    const rows = await this.select(
+      'SELECT COLUMN_NAME AS name FROM information_schema.KEY_COLUMN_USAGE' +
+      " WHERE CONSTRAINT_NAME = 'PRIMARY' AND TABLE_SCHEMA = COALESCE(?, DATABASE()) AND TABLE_NAME = ?" +
+      ' ORDER BY ORDINAL_POSITION',
+      [schema ?? null, table]
+    );
+    return rows.map(row => row.name);
+  }
+
+  async end(): Promise<void> {
+    await this.pool.end();
+  }
+
+  private async readOnly<T>(fn: (connection: mysql.PoolConnection) => Promise<T>): Promise<T> {
+    const connection = await this.pool.getConnection();
+    try {
+      await connection.query('START TRANSACTION READ ONLY');
+      return await fn(connection);
+    } finally {
+      await connection.query('ROLLBACK').catch(() => undefined);
+      connection.release();
+    }
+  }
+}
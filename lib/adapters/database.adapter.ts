@@ -0,0 +1,218 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import { AdapterQuery, AdapterQueryResult, DataAdapter, DataReadOptions, DataSourceConfig } from './data.adapter';
+import { DatabaseClient, DatabaseType, getDatabaseClient } from './database-connections';
+import { SqlSource, countSqlRecords, querySqlSources, readSqlRecords } from './sql-source';
+import { DiscoveredFieldType, DiscoveredSchema, SchemaDiscovery } from '../schema-discovery';
+import { getDatasetCache } from '../dataset-cache';
+
+// Per-dataset options, configured under "postgres" or "mysql" in the dataset's metadata.yaml
+export interface DatabaseDatasetSettings {
+  connection: string; // Profile name under dataSource.connections in app.yaml
+  schema?: string; // PostgreSQL schema or MySQL database of the table. Default: the connection's
+  table?: string; // Table or view to read
+  query?: string; // Saved SELECT to read instead of a table
+}
+
+// Rows profiled by getSchema()
+const SCHEMA_SAMPLE_ROWS = 100;
+
+/**
+ * One dataset's table or saved query, read through its connection profile's client
+ */
+class DatabaseSource implements SqlSource {
+  constructor(
+    readonly client: DatabaseClient,
+    readonly from: string, // FROM clause: the quoted table or the saved query as a subquery
+    private table?: { schema?: string; name: string }
+  ) {}
+
+  get dialect() {
+    return this.client.dialect;
+  }
+
+  async select(sql: string, params?: any[]): Promise<any[]> {
+    return (await this.client.select(sql, params)).map(toPlainRecord);
+  }
+
+  async columnNames(): Promise<string[]> {
+    return (await this.client.columns(this.from)).map(column => column.name);
+  }
+
+  async pushdownTypes(_filterFields: Set<string>, dateFields: Set<string>): Promise<Record<string, DiscoveredFieldType>> {
+    const pushdownTypes: Record<string, DiscoveredFieldType> = {};
+    (await this.client.columns(this.from)).forEach(column => {
+      if (column.exact && !dateFields.has(column.name)) {
+        pushdownTypes[column.name] = column.type;
+      }
+    });
+    return pushdownTypes;
+  }
+
+  async orderKey(): Promise<string[]> {
+    return this.table ? this.client.primaryKey(this.table.name, this.table.schema) : [];
+  }
+}
+
+/**
+ * Replace binary values (bytea, BLOB) with a size note
+ */
+function toPlainRecord(row: any): any {
+  for (const [name, value] of Object.entries(row)) {
+    if (Buffer.isBuffer(value)) {
+      row[name] = `<${value.length} byte blob>`;
+    }
+  }
+  return row;
+}
+
+/**
+ * Adapter for tables, views and saved queries in PostgreSQL or MySQL. Nothing is cached:
+ * every read goes to the database, so results always reflect its current contents.
+ */
+export class DatabaseAdapter implements DataAdapter {
+  private config: DataSourceConfig;
+  private datasets?: string[];
+  private type: DatabaseType;
+
+  constructor(config: DataSourceConfig, datasets: string | string[] | undefined, type: DatabaseType) {
+    this.config = config;
+    this.type = type;
+    // Normalize to array
+    if (typeof datasets === 'string') {
+      this.datasets = [datasets];
+    } else {
+      this.datasets = datasets;
+    }
+  }
+
+  /**
+   * Read records. Full reads are described with the introspected column types, so schema
+   * discovery (e.g. in the data browser and schema editor) uses them instead of guessing.
+   */
+  async getData(options: DataReadOptions = {}): Promise<any> {
+    try {
+      const datasetsToLoad = this.datasetsToLoad();
+      let allData: any[];
+
+      // If only one dataset, return data without source field (backward compatibility)
+      if (datasetsToLoad.length === 1) {
+        allData = await readSqlRecords(await this.resolveSource(datasetsToLoad[0]), options);
+      } else {
+        // Multiple datasets: load all and combine with _dataset_source field
+        allData = [];
+        for (const datasetName of datasetsToLoad) {
+          const data = await readSqlRecords(await this.resolveSource(datasetName), options);
+          allData.push(...data.map((record: any) => ({ ...record, _dataset_source: datasetName })));
+        }
+      }
+
+      if (!options.columns && options.limit === undefined) {
+        getDatasetCache(this.config.cache).setFieldTypes(allData, await this.getFieldTypes());
+      }
+      return allData;
+    } catch (error) {
+      console.error(`Error reading ${this.type} dataset:`, error);
+      throw new Error('Failed to load data');
+    }
+  }
+
+  /**
+   * Row count from COUNT(*), without reading any rows
+   */
+  async count(): Promise<number> {
+    let total = 0;
+    for (const datasetName of this.datasetsToLoad()) {
+      total += await countSqlRecords(await this.resolveSource(datasetName));
+    }
+    return total;
+  }
+
+  /**
+   * Schema from the column types and a sample of rows (value statistics cover the sample only),
+   * with the exact record count
+   */
+  async getSchema(): Promise<DiscoveredSchema> {
+    const sample = await this.getData({ limit: SCHEMA_SAMPLE_ROWS });
+    const schema = SchemaDiscovery.discover(sample, await this.getFieldTypes());
+    return { ...schema, totalRecords: await this.count() };
+  }
+
+  /**
+   * Field types from the column types the database reports
+   */
+  async getFieldTypes(): Promise<Record<string, DiscoveredFieldType>> {
+    const datasetsToLoad = this.datasetsToLoad();
+    const fieldTypes: Record<string, DiscoveredFieldType> = {};
+    for (const datasetName of datasetsToLoad) {
+      const { client, from } = await this.resolveSource(datasetName);
+      (await client.columns(from)).forEach(column => {
+        fieldTypes[column.name] = column.type;
+      });
+    }
+    if (datasetsToLoad.length > 1) {
+      fieldTypes._dataset_source = 'string';
+    }
+    return fieldTypes;
+  }
+
+  /**
+   * Filter, select fields and paginate in SQL (see querySqlSources). Filters on dates, booleans,
+   * regexes and column types such as char(n) or float are returned for the caller.
+   */
+  async query(query: AdapterQuery): Promise<AdapterQueryResult> {
+    try {
+      const sources = [];
+      for (const datasetName of this.datasetsToLoad()) {
+        sources.push({ datasetName, source: await this.resolveSource(datasetName) });
+      }
+      return await querySqlSources(sources, query);
+    } catch (error) {
+      console.error(`Error querying ${this.type} dataset:`, error);
+      throw new Error('Failed to load data');
+    }
+  }
+
+  private datasetsToLoad(): string[] {
+    return this.datasets && this.datasets.length > 0
+      ? this.datasets
+      : [this.config.defaultDataset || ''];
+  }
+
+  /**
+   * Find the dataset folder, read its settings and get a client for its connection profile
+   */
+  private async resolveSource(datasetName: string): Promise<DatabaseSource> {
+    if (!this.config.datasetsPath) {
+      throw new Error(`${this.type} datasets need a datasetsPath`);
+    }
+
+    const metadataPath = path.join(process.cwd(), this.config.datasetsPath, this.type, datasetName, 'metadata.yaml');
+    let settings: DatabaseDatasetSettings | undefined;
+    try {
+      settings = (yaml.load(await fs.readFile(metadataPath, 'utf-8')) as any)?.[this.type];
+    } catch (e) {
+      throw new Error(`Dataset '${datasetName}' not found in ${this.type} folder`);
+    }
+
+    if (!settings?.connection) {
+      throw new Error(`Dataset '${datasetName}': ${this.type}.connection is not set in metadata.yaml`);
+    }
+    if (!settings.table === !settings.query) {
+      throw new Error(`Dataset '${datasetName}': set exactly one of ${this.type}.table and ${this.type}.query in metadata.yaml`);
+    }
+
+    const connection = this.config.connections?.[settings.connection];
+    if (connection && connection.type !== this.type) {
+      throw new Error(`Dataset '${datasetName}' is in the ${this.type} folder but connection '${settings.connection}' is ${connection.type}`);
+    }
+    const client = getDatabaseClient(settings.connection, connection);
+
+    const quote = client.dialect.quoteIdentifier;
+    const from = settings.table
+      ? (settings.schema ? `${quote(settings.schema)}.` : '') + quote(settings.table)
+      : `(${settings.query!.trim().replace(/;\s*$/, '')}) AS src`;
+    return new DatabaseSource(client, from, settings.table ? { schema: settings.schema, name: settings.table } : undefined);
+  }
+}
@@ -0,0 +1,40 @@
+// query() for adapters that hold every record in memory (JSON, CSV)
+// Runs the same FilterEngine filtering and data browser ordering callers would otherwise run
+// themselves, so callers can treat every adapter with query() alike.
+
+import { AdapterQuery, AdapterQueryResult } from './data.adapter';
+import { sortRecords } from '../data-query';
+import { FilterEngine } from '../filter-engine';
+import { DiscoveredSchema } from '../schema-discovery';
+
+/**
+ * Filter, sort, paginate and project loaded records. Nothing is left to the caller,
+ * and the input array is never modified.
+ */
+export function queryRecords(data: any[], schema: DiscoveredSchema, query: AdapterQuery): AdapterQueryResult {
+  const engine = new FilterEngine(schema, query.dateFields);
+  let records = engine.apply(data, query.filters || []);
+
+  if (query.sort) {
+    records = sortRecords(records === data ? [...data] : records, query.sort);
+  }
+
+  const total = records.length;
+  const offset = Math.max(0, Math.floor(query.offset || 0));
+  if (offset > 0 || query.limit !== undefined) {
+    records = records.slice(offset, query.limit !== undefined ? offset + Math.max(0, Math.floor(query.limit)) : undefined);
+  }
+
+  if (query.fields) {
+    const fields = query.fields;
+    records = records.map(record => {
+      const projected: Record<string, any> = {};
+      fields.forEach(field => {
+        if (record && field in record) projected[field] = record[field];
+      });
+      return projected;
+    });
+  }
+
+  return { records, remainingFilters: [], limitApplied: true, total };
+}
@@ -0,0 +1,110 @@
+// Record extraction for JSON datasets
+// Reads JSON Lines files line by line, finds the record array inside nested JSON documents
+// and flattens nested objects into dotted field names
+
+import { createReadStream } from 'fs';
+import readline from 'readline';
+
+// Per-dataset options, configured under "json" in the dataset's metadata.yaml
+export interface JsonDatasetSettings {
+  recordsPath?: string; // Dotted path to the record array in data.json, e.g. "results.items"
+  flatten?: boolean; // Flatten nested objects into dotted field names ("rocket.name")
+  separator?: string; // Default: "."
+}
+
+export interface JsonLineError {
+  line: number;
+  message: string;
+}
+
+export interface JsonLinesSummary {
+  recordCount: number;
+  malformedLines: number;
+  errors: JsonLineError[]; // First MAX_REPORTED_ERRORS problems
+}
+
+// Data files read by the JSON adapter, in order of preference
+export const JSON_DATA_FILES = ['data.json', 'data.jsonl', 'data.ndjson'];
+
+// Errors kept for reporting; malformedLines still counts all of them
+const MAX_REPORTED_ERRORS = 100;
+
+/**
+ * Parse a JSON Lines file one line at a time, calling onRecord for every parsed line.
+ * Blank lines are ignored; lines that are not valid JSON are reported and skipped.
+ */
+export function parseJsonLinesFile(filePath: string, onRecord: (record: any, line: number) => void): Promise<JsonLinesSummary> {
+  return new Promise((resolve, reject) => {
+    const stream = createReadStream(filePath, { encoding: 'utf-8' });
+    const lines = readline.createInterface({ input: stream, crlfDelay: Infinity });
+    const summary: JsonLinesSummary = { recordCount: 0, malformedLines: 0, errors: [] };
+    let lineNumber = 0;
+
+    lines.on('line', text => {
+      lineNumber++;
+      // Strip a leading BOM from the first line
+      const value = (lineNumber === 1 ? text.replace(/^\uFEFF/, '') : text).trim();
+      if (value === '') return;
+
+      try {
+        onRecord(JSON.parse(value), lineNumber);
+        summary.recordCount++;
+      } catch (error) {
+        summary.malformedLines++;
+        if (summary.errors.length < MAX_REPORTED_ERRORS) {
+          summary.errors.push({ line: lineNumber, message: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    });
+    lines.on('close', () => resolve(summary));
+    // readline re-emits errors of its input stream (a missing or unreadable file)
+    lines.on('error', error => {
+      reject(error);
+      lines.close();
+    });
+  });
+}
+
+/**
+ * Follow a dotted path ("results.items") into a parsed document and return the array found there
+ */
+export function getRecordsAtPath(document: any, recordsPath: string): any[] {
+  let current = document;
+  for (const key of recordsPath.split('.').filter(Boolean)) {
+    if (current === null || typeof current !== 'object' || !(key in current)) {
+      throw new Error(`recordsPath '${recordsPath}' not found: no '${key}' field`);
+    }
+    current = current[key];
+  }
+
+  if (!Array.isArray(current)) {
+    throw new Error(`recordsPath '${recordsPath}' does not point to an array`);
+  }
+  return current;
+}
+
+/**
+ * Flatten nested objects into dotted keys: { rocket: { name: 'x' } } -> { 'rocket.name': 'x' }.
+ * Arrays and empty objects are kept as values.
+ */
+export function flattenRecord(record: any, separator: string = '.'): any {
+  if (!isPlainObject(record)) return record;
+
+  const flat: Record<string, any> = {};
+  const visit = (value: Record<string, any>, prefix: string) => {
+    Object.entries(value).forEach(([key, child]) => {
+      const name = prefix ? `${prefix}${separator}${key}` : key;
+      if (isPlainObject(child) && Object.keys(child).length > 0) {
+        visit(child, name);
+      } else {
+        flat[name] = child;
+      }
+    });
+  };
+  visit(record, '');
+  return flat;
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
@@ -1,6 +1,14 @@
 import { promises as fs } from 'fs';
 import path from 'path';
-import { DataAdapter, DataSourceConfig } from './data.adapter';
+import yaml from 'js-yaml';
+import { AdapterQuery, AdapterQueryResult, DataAdapter, DataSourceConfig } from './data.adapter';
+import { JSON_DATA_FILES, JsonDatasetSettings, flattenRecord, getRecordsAtPath, parseJsonLinesFile } from './json-records';
+import { queryRecords } from './in-memory-query';
+import { getDatasetCache } from '../dataset-cache';
+import { DiscoveredSchema } from '../schema-discovery';
+
+// Malformed lines logged per JSON Lines file; the rest are only counted
+const MAX_LOGGED_LINE_ERRORS = 10;
 
 export class JSONAdapter implements DataAdapter {
   private config: DataSourceConfig;
@@ -50,6 +58,33 @@ export class JSONAdapter implements DataAdapter {
     }
   }
 
+  /**
+   * Record count from the shared dataset cache
+   */
+  async count(): Promise<number> {
+    return getDatasetCache(this.config.cache).getStats(await this.getData()).recordCount;
+  }
+
+  /**
+   * Schema discovered from every record, cached with the data
+   */
+  async getSchema(): Promise<DiscoveredSchema> {
+    return getDatasetCache(this.config.cache).getStats(await this.getData()).schema;
+  }
+
+  /**
+   * Filter, sort and paginate the loaded records
+   */
+  async query(query: AdapterQuery): Promise<AdapterQueryResult> {
+    const data = await this.getData();
+    return queryRecords(Array.isArray(data) ? data : [], getDatasetCache(this.config.cache).getStats(data).schema, query);
+  }
+
+  async *stream(): AsyncIterable<any> {
+    const data = await this.getData();
+    yield* Array.isArray(data) ? data : [];
+  }
+
   private async loadSingleDataset(datasetName: string): Promise<any> {
     let filePath: string = '';
 
@@ -62,15 +97,19 @@ export class JSONAdapter implements DataAdapter {
 
       let found = false;
       for (const typeFolder of typeFolders) {
-        const potentialPath = path.join(datasetsPath, typeFolder.name, datasetName, 'data.json');
-        try {
-          await fs.access(potentialPath);
-          filePath = potentialPath;
-          found = true;
-          break;
-        } catch (e) {
-          // Try next type folder
+        // data.json, then data.jsonl / data.ndjson
+        for (const fileName of JSON_DATA_FILES) {
+          const potentialPath = path.join(datasetsPath, typeFolder.name, datasetName, fileName);
+          try {
+            await fs.access(potentialPath);
+            filePath = potentialPath;
+            found = true;
+            break;
+          } catch (e) {
+            // Try next file name
+          }
         }
+        if (found) break;
       }
 
       if (!found) {
@@ -85,7 +124,49 @@ export class JSONAdapter implements DataAdapter {
       throw new Error('No data path configured');
     }
 
-    const fileContent = await fs.readFile(filePath, 'utf-8');
-    return JSON.parse(fileContent);
+    // Record path and flattening live in metadata.yaml next to the data file, so changes there also reload the data
+    const metadataPath = path.join(path.dirname(filePath), 'metadata.yaml');
+    return getDatasetCache(this.config.cache).loadFile(filePath, file => this.parseFile(file, metadataPath), [metadataPath]);
+  }
+
+  /**
+   * Parse data.json as one document, or JSON Lines files line by line,
+   * then apply the dataset's recordsPath and flattening settings
+   */
+  private async parseFile(filePath: string, metadataPath: string): Promise<any> {
+    const settings = await this.loadSettings(metadataPath);
+    const flatten = (record: any) => settings.flatten ? flattenRecord(record, settings.separator) : record;
+
+    if (path.extname(filePath) !== '.json') {
+      const data: any[] = [];
+      const summary = await parseJsonLinesFile(filePath, record => {
+        data.push(flatten(record));
+      });
+
+      if (summary.malformedLines > 0) {
+        console.warn(`JSON Lines ${filePath}: skipped ${summary.malformedLines} malformed line(s)`);
+        summary.errors.slice(0, MAX_LOGGED_LINE_ERRORS).forEach(error => {
+          console.warn(`  line ${error.line}: ${error.message}`);
+        });
+      }
+      return data;
+    }
+
+    const document = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    const records = settings.recordsPath ? getRecordsAtPath(document, settings.recordsPath) : document;
+    return Array.isArray(records) && settings.flatten ? records.map(flatten) : records;
+  }
+
+  /**
+   * Optional "json" section of the dataset's metadata.yaml (recordsPath, flatten, separator)
+   */
+  private async loadSettings(metadataPath: string): Promise<JsonDatasetSettings> {
+    try {
+      const metadata = yaml.load(await fs.readFile(metadataPath, 'utf-8')) as any;
+      return metadata?.json || {};
+    } catch (e) {
+      // No metadata.yaml, read records as they are
+      return {};
+    }
   }
 }
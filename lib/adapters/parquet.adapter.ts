@@ -0,0 +1,214 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DuckDBInstance } from '@duckdb/node-api';
+import { DataAdapter, DataReadOptions, DataSourceConfig } from './data.adapter';
+import { DiscoveredFieldType } from '../schema-discovery';
+import { getDatasetCache } from '../dataset-cache';
+
+// In-memory DuckDB used only to read Parquet files; it holds no tables
+let readerInstance: Promise<DuckDBInstance> | null = null;
+
+function getReader(): Promise<DuckDBInstance> {
+  if (!readerInstance) {
+    readerInstance = DuckDBInstance.create(':memory:');
+  }
+  return readerInstance;
+}
+
+/**
+ * Field type for a DuckDB column type as read from the Parquet schema
+ */
+function fieldTypeOf(duckdbType: string): DiscoveredFieldType {
+  if (/\[\d*\]$/.test(duckdbType)) return 'array';
+  if (/^(STRUCT|MAP|UNION)/.test(duckdbType)) return 'object';
+  if (duckdbType === 'BOOLEAN') return 'boolean';
+  if (/^(U?(TINY|SMALL|BIG|HUGE)?INT(EGER)?|FLOAT|DOUBLE|DECIMAL)/.test(duckdbType)) return 'number';
+  if (/^(DATE|TIMESTAMP)/.test(duckdbType)) return 'date';
+  return 'string';
+}
+
+const quoteIdentifier = (name: string) => `"${name.replace(/"/g, '""')}"`;
+const quoteLiteral = (value: string) => `'${value.replace(/'/g, "''")}'`;
+
+export class ParquetAdapter implements DataAdapter {
+  private config: DataSourceConfig;
+  private datasets?: string[];
+
+  constructor(config: DataSourceConfig, datasets?: string | string[]) {
+    this.config = config;
+    // Normalize to array
+    if (typeof datasets === 'string') {
+      this.datasets = [datasets];
+    } else {
+      this.datasets = datasets;
+    }
+  }
+
+  /**
+   * Read records. With options.columns only those columns are read from the file; such partial
+   * reads bypass the dataset cache, full reads are cached until the file changes.
+   */
+  async getData(options: DataReadOptions = {}): Promise<any> {
+    try {
+      const datasetsToLoad = this.datasetsToLoad();
+
+      // If only one dataset, return data without source field (backward compatibility)
+      if (datasetsToLoad.length === 1) {
+        return await this.loadSingleDataset(datasetsToLoad[0], options);
+      }
+
+      // Multiple datasets: load all and combine with _dataset_source field
+      const allData: any[] = [];
+
+      for (const datasetName of datasetsToLoad) {
+        const data = await this.loadSingleDataset(datasetName, options);
+        allData.push(...data.map((record: any) => ({ ...record, _dataset_source: datasetName })));
+      }
+
+      return allData;
+    } catch (error) {
+      console.error('Error reading Parquet file:', error);
+      throw new Error('Failed to load data');
+    }
+  }
+
+  /**
+   * Row count from the Parquet footer, without reading any data
+   */
+  async count(): Promise<number> {
+    let total = 0;
+    for (const datasetName of this.datasetsToLoad()) {
+      const filePath = await this.resolveFile(datasetName);
+      const rows = await this.runSql(`SELECT SUM(num_rows) AS num_rows FROM parquet_file_metadata(${quoteLiteral(filePath)})`);
+      total += Number(rows[0]?.num_rows || 0);
+    }
+    return total;
+  }
+
+  /**
+   * Column types from the Parquet schema
+   */
+  async getFieldTypes(): Promise<Record<string, DiscoveredFieldType>> {
+    const datasetsToLoad = this.datasetsToLoad();
+    const fieldTypes: Record<string, DiscoveredFieldType> = {};
+    for (const datasetName of datasetsToLoad) {
+      Object.assign(fieldTypes, await this.readFieldTypes(await this.resolveFile(datasetName)));
+    }
+    if (datasetsToLoad.length > 1) {
+      fieldTypes._dataset_source = 'string';
+    }
+    return fieldTypes;
+  }
+
+  private datasetsToLoad(): string[] {
+    return this.datasets && this.datasets.length > 0
+      ? this.datasets
+      : [this.config.defaultDataset || ''];
+  }
+
+  private async loadSingleDataset(datasetName: string, options: DataReadOptions): Promise<any[]> {
+    const filePath = await this.resolveFile(datasetName);
+
+    if (options.columns || options.limit !== undefined) {
+      return this.readRecords(filePath, options);
+    }
+
+    const cache = getDatasetCache(this.config.cache);
+    const data = await cache.loadFile(filePath, file => this.readRecords(file, {}));
+    cache.setFieldTypes(data, await this.readFieldTypes(filePath));
+    return data;
+  }
+
+  private async resolveFile(datasetName: string): Promise<string> {
+    // New multi-dataset structure with type folders
+    if ('datasetsPath' in this.config && this.config.datasetsPath) {
+      const datasetsPath = path.join(process.cwd(), this.config.datasetsPath);
+      const typeEntries = await fs.readdir(datasetsPath, { withFileTypes: true });
+      const typeFolders = typeEntries.filter(entry => entry.isDirectory());
+
+      for (const typeFolder of typeFolders) {
+        const potentialPath = path.join(datasetsPath, typeFolder.name, datasetName, 'data.parquet');
+        try {
+          await fs.access(potentialPath);
+          return potentialPath;
+        } catch (e) {
+          // Try next type folder
+        }
+      }
+
+      throw new Error(`Dataset '${datasetName}' not found in any type folder`);
+    }
+    // Legacy single file structure (backward compatibility)
+    if ('path' in this.config && this.config.path) {
+      return path.join(process.cwd(), this.config.path);
+    }
+    throw new Error('No data path configured');
+  }
+
+  /**
+   * Read rows, projecting to the requested columns that exist in the file
+   */
+  private async readRecords(filePath: string, options: DataReadOptions): Promise<any[]> {
+    let select = '*';
+    if (options.columns) {
+      const available = await this.readFieldTypes(filePath);
+      const columns = options.columns.filter(column => column in available);
+      if (columns.length === 0) {
+        // Keep the row count even when none of the columns exist
+        return (await this.runSql(`SELECT 1 FROM read_parquet(${quoteLiteral(filePath)})${this.limitClause(options)}`)).map(() => ({}));
+      }
+      select = columns.map(quoteIdentifier).join(', ');
+    }
+
+    return this.runSql(`SELECT ${select} FROM read_parquet(${quoteLiteral(filePath)})${this.limitClause(options)}`);
+  }
+
+  private limitClause(options: DataReadOptions): string {
+    return options.limit !== undefined ? ` LIMIT ${Math.max(0, Math.floor(options.limit))}` : '';
+  }
+
+  private async readFieldTypes(filePath: string): Promise<Record<string, DiscoveredFieldType>> {
+    const rows = await this.runSql(`DESCRIBE SELECT * FROM read_parquet(${quoteLiteral(filePath)})`);
+    const fieldTypes: Record<string, DiscoveredFieldType> = {};
+    rows.forEach(row => {
+      fieldTypes[row.column_name] = fieldTypeOf(String(row.column_type));
+    });
+    return fieldTypes;
+  }
+
+  private async runSql(sql: string): Promise<any[]> {
+    const connection = await (await getReader()).connect();
+    try {
+      const reader = await connection.runAndReadAll(sql);
+      return reader.getRowObjectsJS().map(row => this.toPlainValue(row));
+    } finally {
+      connection.closeSync();
+    }
+  }
+
+  /**
+   * Convert DuckDB values to JSON-friendly ones: BIGINT -> number, DATE -> YYYY-MM-DD,
+   * TIMESTAMP -> YYYY-MM-DDTHH:mm:ss, other value classes (decimals, intervals, ...) -> string
+   */
+  private toPlainValue(value: any): any {
+    if (typeof value === 'bigint') {
+      return Number.isSafeInteger(Number(value)) ? Number(value) : value.toString();
+    }
+    if (value instanceof Date) {
+      const iso = value.toISOString();
+      return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso.slice(0, 19);
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.toPlainValue(item));
+    }
+    if (value !== null && typeof value === 'object') {
+      if (value.constructor !== Object) return String(value);
+      const plain: Record<string, any> = {};
+      for (const [key, item] of Object.entries(value)) {
+        plain[key] = this.toPlainValue(item);
+      }
+      return plain;
+    }
+    return value;
+  }
+}
@@ -0,0 +1,141 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { AIAdapter, AIConfig } from './ai.adapter';
+import { ProjectConfig } from '../config';
+import { buildAnswerSystemPrompt } from './answer-prompt';
+
+const DEFAULT_FIXTURES_PATH = './fixtures/ai';
+
+// Stand-in for the current date so answer prompts hash the same on every day
+const REPLAY_DATE_PLACEHOLDER = 'REPLAY_DATE';
+
+interface ReplayFixture {
+  key: string;
+  model: string;
+  message: string;
+  mode: 'json' | 'answer';
+  response: string;
+  recordedAt: string;
+}
+
+/**
+ * Deterministic record-and-replay AI adapter for offline testing.
+ *
+ * In record mode every call is forwarded to the live provider and the response is
+ * saved to <fixturesPath>/<hash>.json, keyed by a hash of system instruction, message
+ * and model. In replay mode responses are served from those files without a network.
+ * The mode can be overridden with the AI_REPLAY_MODE environment variable.
+ */
+export class ReplayAIAdapter implements AIAdapter {
+  private model: string;
+  private projectConfig?: ProjectConfig;
+  private logger?: any;
+  private mode: 'record' | 'replay' | 'auto';
+  private fixturesPath: string;
+  private createLiveAdapter: () => AIAdapter;
+  private liveAdapter?: AIAdapter;
+
+  constructor(
+    config: AIConfig,
+    projectConfig: ProjectConfig | undefined,
+    createLiveAdapter: () => AIAdapter,
+    logger?: any
+  ) {
+    this.model = config.model;
+    this.projectConfig = projectConfig;
+    this.logger = logger;
+    this.createLiveAdapter = createLiveAdapter;
+
+    const envMode = process.env.AI_REPLAY_MODE;
+    this.mode = envMode === 'record' || envMode === 'replay' || envMode === 'auto'
+      ? envMode
+      : config.replay?.mode || 'replay';
+
+    this.fixturesPath = path.join(process.cwd(), config.replay?.fixturesPath || DEFAULT_FIXTURES_PATH);
+  }
+
+  /**
+   * Build the fixture key for a call. Mirrors what the live adapters send so that
+   * any change to prompts, data or conversation history produces a new key.
+   */
+  private buildKey(message: string, context: any): { key: string; model: string; mode: 'json' | 'answer' } {
+    const isJsonMode = context.system_instruction && context.require_json;
+
+    if (isJsonMode) {
+      const model = context.model || this.model;
+      const key = this.hash({ system: context.system_instruction, message, model });
+      return { key, model, mode: 'json' };
+    }
+
+    const system = buildAnswerSystemPrompt(
+      { ...context, current_date: REPLAY_DATE_PLACEHOLDER },
+      this.projectConfig
+    );
+    const history = (context.conversationHistory || []).slice(-10);
+    const key = this.hash({ system, message, model: this.model, history });
+    return { key, model: this.model, mode: 'answer' };
+  }
+
+  private hash(value: any): string {
+    return crypto.createHash('sha256').update(JSON.stringify(value)).digest('hex').slice(0, 32);
+  }
+
+  private fixtureFile(key: string): string {
+    return path.join(this.fixturesPath, `${key}.json`);
+  }
+
+  private async readFixture(key: string): Promise<ReplayFixture | null> {
+    try {
+      const content = await fs.readFile(this.fixtureFile(key), 'utf-8');
+      return JSON.parse(content);
+    } catch (e) {
+      return null;
+    }
+  }
+
+  private async writeFixture(fixture: ReplayFixture): Promise<void> {
+    await fs.mkdir(this.fixturesPath, { recursive: true });
+    await fs.writeFile(this.fixtureFile(fixture.key), JSON.stringify(fixture, null, 2) + '\n', 'utf-8');
+  }
+
+  async chat(message: string, context: any): Promise<string> {
+    const { key, model, mode } = this.buildKey(message, context);
+
+    if (this.mode !== 'record') {
+      const fixture = await this.readFixture(key);
+      if (fixture) {
+        if (this.logger) {
+          await this.logger.debug('Replayed AI response', { key, mode, model });
+        }
+        return fixture.response;
+      }
+
+      if (this.mode === 'replay') {
+        throw new Error(`Failed to get AI response: no recorded response for key ${key} (${mode}, model ${model}). Record fixtures with AI_REPLAY_MODE=record`);
+      }
+    }
+
+    // Record: forward to the live provider and save the response
+    if (!this.liveAdapter) {
+      this.liveAdapter = this.createLiveAdapter();
+    }
+
+    const response = await this.liveAdapter.chat(message, context);
+
+    await this.writeFixture({
+      key,
+      model,
+      message,
+      mode,
+      response,
+      recordedAt: new Date().toISOString(),
+    });
+
+    if (this.logger) {
+      await this.logger.debug('Recorded AI response', { key, mode, model });
+    }
+
+    return response;
+  }
+}
@@ -0,0 +1,193 @@
+// Translation of Phase 1 filters into SQL WHERE clauses for database-backed adapters
+// Only filters whose SQL meaning matches FilterEngine exactly are pushed down (string and number
+// fields, no partial dates or regexes); the rest are returned to be applied in memory.
+// Field types must come from the column declarations, and every value must be stored as declared
+// (engines with loose typing such as SQLite have to check the filtered columns first).
+
+import { isFilterGroup } from '../filter-engine';
+import { DiscoveredFieldType } from '../schema-discovery';
+import { FilterNode, QueryFilter } from '../types';
+
+export interface SqlDialect {
+  quoteIdentifier(name: string): string;
+  placeholder(index: number, kind: 'string' | 'number'): string; // index: 1-based position of the parameter
+  // Wraps text so = and LIKE compare exact characters (no case folding, accents or trailing-space padding)
+  exactText?(expression: string): string;
+}
+
+export const SQLITE_DIALECT: SqlDialect = {
+  quoteIdentifier: name => `"${name.replace(/"/g, '""')}"`,
+  placeholder: () => '?',
+};
+
+export const POSTGRES_DIALECT: SqlDialect = {
+  quoteIdentifier: name => `"${name.replace(/"/g, '""')}"`,
+  // Parameters are sent as text; numbers need a type that compares with every numeric column
+  placeholder: (index, kind) => (kind === 'number' ? `$${index}::numeric` : `$${index}`),
+};
+
+export const MYSQL_DIALECT: SqlDialect = {
+  quoteIdentifier: name => `\`${name.replace(/`/g, '``')}\``,
+  placeholder: () => '?',
+  // Default collations ignore case, accents and trailing spaces; compare the UTF-8 bytes instead
+  exactText: expression => `CAST(CONVERT(${expression} USING utf8mb4) AS BINARY)`,
+};
+
+export interface PushdownResult {
+  where: string; // Empty when nothing was pushed down
+  params: any[];
+  pushed: FilterNode[];
+  remaining: FilterNode[]; // Filters the caller still has to apply in memory
+}
+
+/**
+ * Split top-level filters (ANDed together) into a WHERE clause and the filters that cannot be
+ * expressed in SQL with identical results. firstParam offsets placeholder numbering.
+ */
+export function translateFilters(
+  filters: FilterNode[] = [],
+  fieldTypes: Record<string, DiscoveredFieldType>,
+  dialect: SqlDialect,
+  firstParam: number = 1
+): PushdownResult {
+  const params: any[] = [];
+  const clauses: string[] = [];
+  const pushed: FilterNode[] = [];
+  const remaining: FilterNode[] = [];
+
+  for (const node of filters) {
+    const nodeParams: any[] = [];
+    const clause = translateNode(node, fieldTypes, dialect, nodeParams, firstParam + params.length);
+    if (clause) {
+      clauses.push(clause);
+      params.push(...nodeParams);
+      pushed.push(node);
+    } else {
+      remaining.push(node);
+    }
+  }
+
+  return { where: clauses.join(' AND '), params, pushed, remaining };
+}
+
+function translateNode(
+  node: FilterNode,
+  fieldTypes: Record<string, DiscoveredFieldType>,
+  dialect: SqlDialect,
+  params: any[],
+  firstParam: number
+): string | null {
+  if (!isFilterGroup(node)) {
+    return translateFilter(node as QueryFilter, fieldTypes, dialect, params, firstParam);
+  }
+
+  if (node.not !== undefined) {
+    // Every leaf is null-safe (never NULL), so NOT keeps FilterEngine's semantics
+    const inner = translateNode(node.not, fieldTypes, dialect, params, firstParam);
+    return inner ? `NOT (${inner})` : null;
+  }
+
+  const children = node.and ?? node.or;
+  if (!Array.isArray(children) || children.length === 0) return null;
+
+  const start = params.length;
+  const parts: string[] = [];
+  for (const child of children) {
+    const part = translateNode(child, fieldTypes, dialect, params, firstParam);
+    if (!part) {
+      params.splice(start);
+      return null;
+    }
+    parts.push(part);
+  }
+  return `(${parts.join(node.or ? ' OR ' : ' AND ')})`;
+}
+
+function translateFilter(
+  filter: QueryFilter,
+  fieldTypes: Record<string, DiscoveredFieldType>,
+  dialect: SqlDialect,
+  params: any[],
+  firstParam: number
+): string | null {
+  const kind = fieldTypes[filter?.field];
+  if (kind !== 'string' && kind !== 'number') return null;
+
+  const column = dialect.quoteIdentifier(filter.field);
+  const param = (value: any) => {
+    params.push(value);
+    return dialect.placeholder(firstParam + params.length - 1, kind);
+  };
+  // Comparisons of the column's value; string columns compare exactly like String(value) in JS
+  const text = (expression: string) => (dialect.exactText ? dialect.exactText(expression) : expression);
+  const value = kind === 'string' ? text(column) : column;
+  const target = (raw: any): any => (kind === 'number' ? toNumber(raw) : isNull(raw) ? null : String(raw));
+  // Matching rows never include NULL; negated matches always do
+  const positive = (condition: string) => `(${column} IS NOT NULL AND ${condition})`;
+  const negative = (condition: string) => `(${column} IS NULL OR ${condition})`;
+  const empty = kind === 'string' ? ` OR ${value} = ''` : '';
+
+  switch (filter.operator) {
+    case 'is_null':
+      return `(${column} IS NULL${empty})`;
+    case 'not_null':
+      return `(${column} IS NOT NULL${kind === 'string' ? ` AND ${value} <> ''` : ''})`;
+    case 'equals':
+    case 'not_equals': {
+      const expected = target(filter.value);
+      if (expected === null) return null;
+      return filter.operator === 'equals'
+        ? positive(`${value} = ${param(expected)}`)
+        : negative(`${value} <> ${param(expected)}`);
+    }
+    case 'in':
+    case 'not_in': {
+      if (!Array.isArray(filter.value) || filter.value.length === 0) return null;
+      const values = filter.value.map(target);
+      if (values.some(value => value === null)) return null;
+      const list = values.map(param).join(', ');
+      return filter.operator === 'in'
+        ? positive(`${value} IN (${list})`)
+        : negative(`${value} NOT IN (${list})`);
+    }
+    case 'contains':
+    case 'starts_with': {
+      // LOWER() is only reliable for ASCII in every engine
+      const needle = String(filter.value ?? '').toLowerCase();
+      if (kind !== 'string' || !/^[\x20-\x7e]*$/.test(needle)) return null;
+      // "!" as the escape character reads the same in every engine's string literals (unlike \\)
+      const escaped = needle.replace(/[!%_]/g, match => `!${match}`);
+      const pattern = filter.operator === 'contains' ? `%${escaped}%` : `${escaped}%`;
+      // FilterEngine treats '' as null, which never contains anything
+      return positive(`${value} <> '' AND ${text(`LOWER(${column})`)} LIKE ${param(pattern)} ESCAPE '!'`);
+    }
+    case 'greater_than':
+    case 'less_than': {
+      const bound = kind === 'number' ? toNumber(filter.value) : null;
+      if (bound === null) return null;
+      return positive(`${column} ${filter.operator === 'greater_than' ? '>' : '<'} ${param(bound)}`);
+    }
+    case 'between': {
+      if (kind !== 'number' || !Array.isArray(filter.value) || filter.value.length !== 2) return null;
+      const [min, max] = filter.value.map(toNumber);
+      if (min === null || max === null) return null;
+      return positive(`${column} BETWEEN ${param(min)} AND ${param(max)}`);
+    }
+    default:
+      return null;
+  }
+}
+
+function isNull(value: any): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+// Same coercion as FilterEngine: "$1,234" -> 1234
+function toNumber(value: any): number | null {
+  if (typeof value === 'number') return isNaN(value) ? null : value;
+  if (typeof value !== 'string') return null;
+  const cleaned = value.trim().replace(/[$,\s]/g, '');
+  if (cleaned === '') return null;
+  const num = Number(cleaned);
+  return isNaN(num) ? null : num;
+}
@@ -0,0 +1,106 @@
+// Reads of database-backed datasets (SQLite, PostgreSQL, MySQL) shared by their adapters:
+// selecting columns and rows, counting, and running AdapterQuery with filters pushed down to SQL.
+
+import { AdapterQuery, AdapterQueryResult } from './data.adapter';
+import { PushdownResult, SqlDialect, translateFilters } from './sql-pushdown';
+import { collectFilterFields } from '../filter-engine';
+import { DiscoveredFieldType } from '../schema-discovery';
+import { FilterNode } from '../types';
+
+// One dataset's table or saved query, as its adapter reads it
+export interface SqlSource {
+  readonly dialect: SqlDialect;
+  readonly from: string; // FROM clause: the quoted table or the saved query as a subquery
+  select(sql: string, params?: any[]): Promise<any[]>; // Rows as plain records
+  columnNames(): Promise<string[]>;
+  // Columns whose filters SQL evaluates exactly like FilterEngine, with their types
+  pushdownTypes(filterFields: Set<string>, dateFields: Set<string>): Promise<Record<string, DiscoveredFieldType>>;
+  // Columns of the primary key, which order rows for pagination; empty when there is none
+  orderKey(): Promise<string[]>;
+}
+
+export interface SqlSelect {
+  columns?: string[];
+  where?: string;
+  params?: any[];
+  orderBy?: string[];
+  offset?: number; // Only used with limit
+  limit?: number;
+}
+
+/**
+ * Select rows, keeping only the requested columns that exist
+ */
+export async function readSqlRecords(source: SqlSource, select: SqlSelect): Promise<any[]> {
+  const quote = source.dialect.quoteIdentifier;
+  const columns = select.columns && (await source.columnNames()).filter(name => select.columns!.includes(name));
+
+  // Keep the row count even when none of the columns exist
+  const list = !columns ? '*' : columns.length > 0 ? columns.map(quote).join(', ') : '1 AS _row';
+  const where = select.where ? ` WHERE ${select.where}` : '';
+  const order = select.orderBy?.length ? ` ORDER BY ${select.orderBy.map(quote).join(', ')}` : '';
+  const limit = select.limit !== undefined ? ` LIMIT ${Math.max(0, Math.floor(select.limit))}` : '';
+  const offset = limit && select.offset ? ` OFFSET ${Math.max(0, Math.floor(select.offset))}` : '';
+
+  const rows = await source.select(`SELECT ${list} FROM ${source.from}${where}${order}${limit}${offset}`, select.params);
+  return columns && columns.length === 0 ? rows.map(() => ({})) : rows;
+}
+
+export async function countSqlRecords(source: SqlSource, pushdown?: PushdownResult): Promise<number> {
+  const where = pushdown?.where ? ` WHERE ${pushdown.where}` : '';
+  const rows = await source.select(`SELECT COUNT(*) AS count FROM ${source.from}${where}`, pushdown?.params);
+  return Number(rows[0]?.count || 0);
+}
+
+/**
+ * Filter, select fields and paginate in SQL. Filters that SQL cannot evaluate exactly like
+ * FilterEngine are returned for the caller. Offset and limit are only applied here when no
+ * filters remain and nothing is sorted: SQL cannot order text like the caller (natural order,
+ * empty values last). Pages are read in primary key order, so an offset is only applied to a
+ * single dataset with a primary key; without one, rows come back in no guaranteed order.
+ */
+export async function querySqlSources(
+  sources: { datasetName: string; source: SqlSource }[],
+  query: AdapterQuery
+): Promise<AdapterQueryResult> {
+  const filters = query.filters || [];
+  const dateFields = new Set(query.dateFields || []);
+  const filterFields = new Set(collectFilterFields(filters));
+  const plans: { datasetName: string; source: SqlSource; pushdown: PushdownResult }[] = [];
+
+  for (const { datasetName, source } of sources) {
+    const pushdownTypes = await source.pushdownTypes(filterFields, dateFields);
+    plans.push({ datasetName, source, pushdown: translateFilters(filters, pushdownTypes, source.dialect) });
+  }
+
+  // A filter that one dataset could not push down is applied to all of them; re-applying is harmless
+  const remainingFilters: FilterNode[] = filters.filter(node => plans.some(plan => plan.pushdown.remaining.includes(node)));
+  // A page (even the first, offset 0) needs a stable order; an offset across several datasets would need their counts first
+  const orderKey = plans.length === 1 && query.offset !== undefined ? await plans[0].source.orderKey() : [];
+  const limitApplied = remainingFilters.length === 0 && !query.sort &&
+    (query.offset === undefined || (orderKey.length > 0 && query.limit !== undefined));
+  const paginated = limitApplied && query.limit !== undefined;
+  // The caller needs the fields of the filters it still applies, and of its sort
+  const fields = query.fields && Array.from(new Set([
+    ...query.fields, ...collectFilterFields(remainingFilters), ...(query.sort ? [query.sort.field] : []),
+  ]));
+
+  const records: any[] = [];
+  let total: number | undefined;
+  for (const { datasetName, source, pushdown } of plans) {
+    const rows = await readSqlRecords(source, {
+      columns: fields,
+      where: pushdown.where,
+      params: pushdown.params,
+      orderBy: paginated ? orderKey : undefined,
+      offset: paginated ? query.offset : undefined,
+      limit: paginated ? query.limit! - records.length : undefined,
+    });
+    records.push(...(plans.length > 1 ? rows.map(record => ({ ...record, _dataset_source: datasetName })) : rows));
+    if (query.withTotal && limitApplied) {
+      total = (total || 0) + (paginated ? await countSqlRecords(source, pushdown) : rows.length);
+    }
+  }
+
+  return { records, remainingFilters, limitApplied, total };
+}
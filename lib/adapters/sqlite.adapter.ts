@@ -0,0 +1,347 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import Database from 'better-sqlite3';
+import { AdapterQuery, AdapterQueryResult, DataAdapter, DataReadOptions, DataSourceConfig } from './data.adapter';
+import { SQLITE_DIALECT } from './sql-pushdown';
+import { SqlSource, countSqlRecords, querySqlSources, readSqlRecords } from './sql-source';
+import { DiscoveredFieldType, DiscoveredSchema, SchemaDiscovery } from '../schema-discovery';
+import { DatasetCache, getDatasetCache } from '../dataset-cache';
+
+// Per-dataset options, configured under "sqlite" in the dataset's metadata.yaml
+export interface SqliteDatasetSettings {
+  database: string; // Database file, relative to the dataset folder or absolute
+  table?: string; // Table or view to read
+  query?: string; // Saved SELECT to read instead of a table
+}
+
+interface SqliteColumn {
+  name: string;
+  declaredType: DiscoveredFieldType | null; // null when the column has no usable declared type
+  boolean: boolean; // Declared BOOLEAN; SQLite stores these as 0/1
+}
+
+// Rows sampled to infer the types of columns without a declared type (e.g. expressions in a saved query)
+// and to profile getSchema()
+const TYPE_SAMPLE_ROWS = 100;
+
+const quoteIdentifier = SQLITE_DIALECT.quoteIdentifier;
+
+/**
+ * Field type for a declared SQLite column type, following SQLite's type affinity rules
+ */
+function fieldTypeOf(declaredType: string | null): DiscoveredFieldType | null {
+  const type = (declaredType || '').toUpperCase();
+  if (type.includes('BOOL')) return 'boolean';
+  if (type.includes('DATE') || type.includes('TIME')) return 'date';
+  if (type.includes('INT')) return 'number';
+  if (/CHAR|CLOB|TEXT/.test(type)) return 'string';
+  if (/REAL|FLOA|DOUB|NUM|DEC/.test(type)) return 'number';
+  return null;
+}
+
+/**
+ * Database files behind a SQLite dataset folder (including the write-ahead log), for change detection
+ */
+export async function sqliteDatabaseFiles(datasetDir: string): Promise<string[]> {
+  const settings = await loadSettings(path.join(datasetDir, 'metadata.yaml'));
+  if (!settings?.database) return [];
+  const databasePath = path.resolve(datasetDir, settings.database);
+  return [databasePath, `${databasePath}-wal`];
+}
+
+/**
+ * The "sqlite" section of a dataset's metadata.yaml, or null when there is none
+ */
+async function loadSettings(metadataPath: string): Promise<SqliteDatasetSettings | null> {
+  try {
+    const metadata = yaml.load(await fs.readFile(metadataPath, 'utf-8')) as any;
+    return metadata?.sqlite || null;
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * One dataset's table or saved query. Each read opens a read-only connection to the database,
+ * so a saved query can never change it and changes made by other processes are always seen.
+ */
+class SqliteSource implements SqlSource {
+  readonly dialect = SQLITE_DIALECT;
+
+  constructor(
+    readonly databasePath: string,
+    readonly metadataPath: string,
+    readonly from: string, // FROM clause: the quoted table or the saved query as a subquery
+    private cache: DatasetCache,
+    private table?: string
+  ) {}
+
+  async select(sql: string, params: any[] = []): Promise<any[]> {
+    return this.withDatabase(db => {
+      const statement = db.prepare(sql);
+      const columns = statement.columns().map(column => ({ name: column.name, boolean: fieldTypeOf(column.type) === 'boolean' }));
+      return (statement.all(...params) as any[]).map(row => toPlainRecord(row, columns));
+    });
+  }
+
+  async columnNames(): Promise<string[]> {
+    return this.withDatabase(db => this.readColumns(db).map(column => column.name));
+  }
+
+  async pushdownTypes(filterFields: Set<string>, dateFields: Set<string>): Promise<Record<string, DiscoveredFieldType>> {
+    const columns = await this.storedAsDeclared();
+    return Object.fromEntries(columns
+      .filter(column => filterFields.has(column.name) && !dateFields.has(column.name))
+      .map(column => [column.name, column.declaredType!]));
+  }
+
+  /**
+   * Primary key of a table, or its rowid when it has none; saved queries and views have no order key
+   */
+  async orderKey(): Promise<string[]> {
+    if (!this.table) return [];
+    return this.withDatabase(db => {
+      const key = (db.prepare('SELECT name, pk FROM pragma_table_info(?) WHERE pk > 0 ORDER BY pk').all(this.table) as any[])
+        .map(column => column.name as string);
+      if (key.length > 0) return key;
+      try {
+        db.prepare(`SELECT rowid FROM ${this.from}`);
+        return ['rowid'];
+      } catch (e) {
+        return [];
+      }
+    });
+  }
+
+  /**
+   * Declared field types, with columns that have none inferred from a sample of rows
+   */
+  async fieldTypes(): Promise<Record<string, DiscoveredFieldType>> {
+    const columns = this.withDatabase(db => this.readColumns(db));
+    const undeclared = columns.filter(column => !column.declaredType).map(column => column.name);
+
+    let inferred: Record<string, DiscoveredFieldType> = {};
+    if (undeclared.length > 0) {
+      const sample = await readSqlRecords(this, { columns: undeclared, limit: TYPE_SAMPLE_ROWS });
+      inferred = Object.fromEntries(SchemaDiscovery.discover(sample).fields.map(field => [field.name, field.type]));
+    }
+
+    const fieldTypes: Record<string, DiscoveredFieldType> = {};
+    columns.forEach(column => {
+      fieldTypes[column.name] = column.declaredType || inferred[column.name] || 'string';
+    });
+    return fieldTypes;
+  }
+
+  private withDatabase<T>(fn: (db: Database.Database) => T): T {
+    const db = new Database(this.databasePath, { readonly: true, fileMustExist: true });
+    try {
+      return fn(db);
+    } finally {
+      db.close();
+    }
+  }
+
+  /**
+   * Column names and declared types of the dataset's table or saved query
+   */
+  private readColumns(db: Database.Database): SqliteColumn[] {
+    const statement = db.prepare(`SELECT * FROM ${this.from}`);
+    return statement.columns().map(column => ({
+      name: column.name,
+      declaredType: fieldTypeOf(column.type),
+      boolean: fieldTypeOf(column.type) === 'boolean',
+    }));
+  }
+
+  /**
+   * Columns whose values all have their declared type. SQLite accepts any value in any column
+   * ('' or '$1,000' in a REAL column), and SQL compares those differently from FilterEngine.
+   * Checking reads the whole table, so the result is cached until the database changes.
+   */
+  private storedAsDeclared(): Promise<SqliteColumn[]> {
+    return this.cache.loadDerived(this.databasePath, async () => this.withDatabase(db => {
+      const checked = this.readColumns(db).filter(column => column.declaredType === 'string' || column.declaredType === 'number');
+      if (checked.length === 0) return [];
+
+      const storage = (column: SqliteColumn) => (column.declaredType === 'string' ? "'text'" : "'integer', 'real'");
+      const checks = checked.map((column, index) =>
+        `MAX(typeof(${quoteIdentifier(column.name)}) NOT IN (${storage(column)}, 'null')) AS c${index}`
+      );
+      const mixed = db.prepare(`SELECT ${checks.join(', ')} FROM ${this.from}`).get() as any;
+      return checked.filter((_, index) => !mixed[`c${index}`]);
+    }), [this.metadataPath, `${this.databasePath}-wal`], `stored-types:${this.from}`);
+  }
+}
+
+/**
+ * Convert SQLite values to JSON-friendly ones: BOOLEAN columns -> true/false, blobs -> a size note
+ */
+function toPlainRecord(row: any, columns: { name: string; boolean: boolean }[]): any {
+  for (const column of columns) {
+    const value = row[column.name];
+    if (column.boolean && (value === 0 || value === 1)) {
+      row[column.name] = value === 1;
+    } else if (Buffer.isBuffer(value)) {
+      row[column.name] = `<${value.length} byte blob>`;
+    }
+  }
+  return row;
+}
+
+export class SQLiteAdapter implements DataAdapter {
+  private config: DataSourceConfig;
+  private datasets?: string[];
+
+  constructor(config: DataSourceConfig, datasets?: string | string[]) {
+    this.config = config;
+    // Normalize to array
+    if (typeof datasets === 'string') {
+      this.datasets = [datasets];
+    } else {
+      this.datasets = datasets;
+    }
+  }
+
+  /**
+   * Read records. Full reads are cached until the database or metadata.yaml changes;
+   * reads limited to some columns or rows always go to the database.
+   */
+  async getData(options: DataReadOptions = {}): Promise<any> {
+    try {
+      const datasetsToLoad = this.datasetsToLoad();
+
+      // If only one dataset, return data without source field (backward compatibility)
+      if (datasetsToLoad.length === 1) {
+        return await this.loadSingleDataset(datasetsToLoad[0], options);
+      }
+
+      // Multiple datasets: load all and combine with _dataset_source field
+      const allData: any[] = [];
+
+      for (const datasetName of datasetsToLoad) {
+        const data = await this.loadSingleDataset(datasetName, options);
+        allData.push(...data.map((record: any) => ({ ...record, _dataset_source: datasetName })));
+      }
+
+      return allData;
+    } catch (error) {
+      console.error('Error reading SQLite database:', error);
+      throw new Error('Failed to load data');
+    }
+  }
+
+  /**
+   * Row count from COUNT(*), without reading any rows
+   */
+  async count(): Promise<number> {
+    let total = 0;
+    for (const datasetName of this.datasetsToLoad()) {
+      total += await countSqlRecords(await this.resolveSource(datasetName));
+    }
+    return total;
+  }
+
+  /**
+   * Schema from the column types and a sample of rows (value statistics cover the sample only),
+   * with the exact record count
+   */
+  async getSchema(): Promise<DiscoveredSchema> {
+    const sample = await this.getData({ limit: TYPE_SAMPLE_ROWS });
+    const schema = SchemaDiscovery.discover(sample, await this.getFieldTypes());
+    return { ...schema, totalRecords: await this.count() };
+  }
+
+  /**
+   * Field types from the declared column types; columns without one are inferred from a sample
+   */
+  async getFieldTypes(): Promise<Record<string, DiscoveredFieldType>> {
+    const datasetsToLoad = this.datasetsToLoad();
+    const fieldTypes: Record<string, DiscoveredFieldType> = {};
+    for (const datasetName of datasetsToLoad) {
+      Object.assign(fieldTypes, await (await this.resolveSource(datasetName)).fieldTypes());
+    }
+    if (datasetsToLoad.length > 1) {
+      fieldTypes._dataset_source = 'string';
+    }
+    return fieldTypes;
+  }
+
+  /**
+   * Filter, select fields and paginate in SQL (see querySqlSources). Filters on dates, regexes,
+   * columns without a declared type or with values of other types are returned for the caller.
+   */
+  async query(query: AdapterQuery): Promise<AdapterQueryResult> {
+    try {
+      const sources = [];
+      for (const datasetName of this.datasetsToLoad()) {
+        sources.push({ datasetName, source: await this.resolveSource(datasetName) });
+      }
+      return await querySqlSources(sources, query);
+    } catch (error) {
+      console.error('Error querying SQLite database:', error);
+      throw new Error('Failed to load data');
+    }
+  }
+
+  private datasetsToLoad(): string[] {
+    return this.datasets && this.datasets.length > 0
+      ? this.datasets
+      : [this.config.defaultDataset || ''];
+  }
+
+  private async loadSingleDataset(datasetName: string, options: DataReadOptions): Promise<any[]> {
+    const source = await this.resolveSource(datasetName);
+
+    if (options.columns || options.limit !== undefined) {
+      return readSqlRecords(source, options);
+    }
+
+    // Datasets can share a database file, so entries are kept apart by dataset name
+    const cache = getDatasetCache(this.config.cache);
+    const data = await cache.loadFile(
+      source.databasePath,
+      async () => readSqlRecords(source, {}),
+      [source.metadataPath, `${source.databasePath}-wal`],
+      datasetName
+    );
+    cache.setFieldTypes(data, await source.fieldTypes());
+    return data;
+  }
+
+  /**
+   * Find the dataset folder and read its "sqlite" settings
+   */
+  private async resolveSource(datasetName: string): Promise<SqliteSource> {
+    if (!this.config.datasetsPath) {
+      throw new Error('SQLite datasets need a datasetsPath');
+    }
+
+    const datasetsPath = path.join(process.cwd(), this.config.datasetsPath);
+    const typeEntries = await fs.readdir(datasetsPath, { withFileTypes: true });
+    const typeFolders = typeEntries.filter(entry => entry.isDirectory());
+
+    for (const typeFolder of typeFolders) {
+      const datasetDir = path.join(datasetsPath, typeFolder.name, datasetName);
+      const metadataPath = path.join(datasetDir, 'metadata.yaml');
+      const settings = await loadSettings(metadataPath);
+      if (!settings) continue;
+
+      if (!settings.database) {
+        throw new Error(`Dataset '${datasetName}': sqlite.database is not set in metadata.yaml`);
+      }
+      if (!settings.table === !settings.query) {
+        throw new Error(`Dataset '${datasetName}': set exactly one of sqlite.table and sqlite.query in metadata.yaml`);
+      }
+
+      const from = settings.table
+        ? quoteIdentifier(settings.table)
+        : `(${settings.query!.trim().replace(/;\s*$/, '')}) AS src`;
+      const cache = getDatasetCache(this.config.cache);
+      return new SqliteSource(path.resolve(datasetDir, settings.database), metadataPath, from, cache, settings.table);
+    }
+
+    throw new Error(`Dataset '${datasetName}' not found in any type folder`);
+  }
+}
@@ -0,0 +1,252 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import ExcelJS from 'exceljs';
+import { DataAdapter, DataSourceConfig, parseDatasetName, SHEET_SEPARATOR } from './data.adapter';
+import { loadDeclaredFieldTypes } from './csv-typing';
+import { DatasetCacheConfig, getDatasetCache } from '../dataset-cache';
+
+// Per-dataset options, configured under "xlsx" in the dataset's metadata.yaml
+export interface XlsxDatasetSettings {
+  sheet?: string | number; // Sheet name or 1-based position. Default: first sheet
+  sheets?: 'all'; // Also list every sheet as its own dataset named <dataset>/<sheet>
+  headerRow?: number; // 1-based row holding the column names, rows above are skipped. Default: 1
+}
+
+// Excel stores dates as days since 1899-12-30 (or 1904-01-01 in 1904 date system workbooks)
+const EXCEL_EPOCH_1900 = Date.UTC(1899, 11, 30);
+const EXCEL_EPOCH_1904 = Date.UTC(1904, 0, 1);
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export class XLSXAdapter implements DataAdapter {
+  private config: DataSourceConfig;
+  private datasets?: string[];
+
+  constructor(config: DataSourceConfig, datasets?: string | string[]) {
+    this.config = config;
+    // Normalize to array
+    if (typeof datasets === 'string') {
+      this.datasets = [datasets];
+    } else {
+      this.datasets = datasets;
+    }
+  }
+
+  async getData(): Promise<any> {
+    try {
+      // Determine which datasets to load
+      const datasetsToLoad = this.datasets && this.datasets.length > 0
+        ? this.datasets
+        : [this.config.defaultDataset];
+
+      // If only one dataset, return data without source field (backward compatibility)
+      if (datasetsToLoad.length === 1) {
+        return await this.loadSingleDataset(datasetsToLoad[0] || '');
+      }
+
+      // Multiple datasets: load all and combine with _dataset_source field
+      const allData: any[] = [];
+
+      for (const datasetName of datasetsToLoad as string[]) {
+        const data = await this.loadSingleDataset(datasetName);
+        allData.push(...data.map((record: any) => ({ ...record, _dataset_source: datasetName })));
+      }
+
+      return allData;
+    } catch (error) {
+      console.error('Error reading XLSX file:', error);
+      throw new Error('Failed to load data');
+    }
+  }
+
+  private async loadSingleDataset(datasetName: string): Promise<any> {
+    let filePath: string = '';
+    const { folder, sheet } = parseDatasetName(datasetName);
+
+    // New multi-dataset structure with type folders
+    if ('datasetsPath' in this.config && this.config.datasetsPath) {
+      const datasetsPath = path.join(process.cwd(), this.config.datasetsPath);
+      const typeEntries = await fs.readdir(datasetsPath, { withFileTypes: true });
+      const typeFolders = typeEntries.filter(entry => entry.isDirectory());
+
+      let found = false;
+      for (const typeFolder of typeFolders) {
+        const potentialPath = path.join(datasetsPath, typeFolder.name, folder, 'data.xlsx');
+        try {
+          await fs.access(potentialPath);
+          filePath = potentialPath;
+          found = true;
+          break;
+        } catch (e) {
+          // Try next type folder
+        }
+      }
+
+      if (!found) {
+        throw new Error(`Dataset '${datasetName}' not found in any type folder`);
+      }
+    }
+    // Legacy single file structure (backward compatibility)
+    else if ('path' in this.config && this.config.path) {
+      filePath = path.join(process.cwd(), this.config.path);
+    }
+    else {
+      throw new Error('No data path configured');
+    }
+
+    // Sheet settings live in metadata.yaml and date fields in schema.yaml, so changes there also reload the data
+    const datasetDir = path.dirname(filePath);
+    const metadataPath = path.join(datasetDir, 'metadata.yaml');
+    const schemaPath = path.join(datasetDir, 'schema.yaml');
+    // Each sheet dataset is cached separately
+    return getDatasetCache(this.config.cache).loadFile(
+      filePath,
+      file => this.parseFile(file, metadataPath, schemaPath, sheet),
+      [metadataPath, schemaPath],
+      sheet !== undefined ? `sheet:${sheet}` : undefined
+    );
+  }
+
+  /**
+   * Read one sheet into records keyed by the header row: the named sheet of a sheet dataset,
+   * otherwise the configured sheet
+   */
+  private async parseFile(filePath: string, metadataPath: string, schemaPath: string, sheetName?: string): Promise<any[]> {
+    const settings = await this.loadSettings(metadataPath);
+    const dateFields = await this.loadDateFields(schemaPath);
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.readFile(filePath);
+    const epoch = workbook.properties.date1904 ? EXCEL_EPOCH_1904 : EXCEL_EPOCH_1900;
+
+    const selected = sheetName ?? settings.sheet;
+    const sheet = selected === undefined
+      ? workbook.worksheets[0]
+      : typeof selected === 'number'
+        ? workbook.worksheets[selected - 1]
+        : workbook.getWorksheet(selected);
+    if (!sheet) {
+      throw new Error(`Sheet '${selected ?? 1}' not found in ${filePath}`);
+    }
+    return this.readSheet(sheet, dateFields, epoch, settings.headerRow);
+  }
+
+  private readSheet(sheet: ExcelJS.Worksheet, dateFields: Set<string>, epoch: number, headerRow: number = 1): any[] {
+    const header = sheet.getRow(headerRow);
+    const headers = this.normalizeHeaders(
+      Array.from({ length: header.cellCount }, (_, index) => this.cellText(header.getCell(index + 1).value))
+    );
+
+    const records: any[] = [];
+    sheet.eachRow((row, rowNumber) => {
+      if (rowNumber <= headerRow) return;
+
+      const record: any = {};
+      let hasValue = false;
+      headers.forEach((name, index) => {
+        let value = this.cellValue(row.getCell(index + 1).value);
+        // Date fields stored as plain numbers are Excel serial dates
+        if (typeof value === 'number' && dateFields.has(name)) {
+          value = this.isoDate(new Date(epoch + Math.round(value * MS_PER_DAY)));
+        }
+        if (value !== null) hasValue = true;
+        record[name] = value;
+      });
+      if (hasValue) records.push(record);
+    });
+    return records;
+  }
+
+  /**
+   * Plain value for a cell: formulas give their result, rich text and hyperlinks their text,
+   * dates an ISO string and error cells null
+   */
+  private cellValue(value: ExcelJS.CellValue): any {
+    if (value === null || value === undefined) return null;
+    if (value instanceof Date) return this.isoDate(value);
+    if (typeof value === 'string') return value.trim() === '' ? null : value.trim();
+    if (typeof value !== 'object') return value;
+
+    if ('result' in value) return this.cellValue(value.result as ExcelJS.CellValue);
+    if ('formula' in value || 'sharedFormula' in value) return null; // Formula without a cached result
+    if ('error' in value) return null;
+    return this.cellText(value) || null;
+  }
+
+  private cellText(value: ExcelJS.CellValue): string {
+    if (value === null || value === undefined) return '';
+    if (typeof value !== 'object' || value instanceof Date) return String(value).trim();
+    if ('richText' in value) return value.richText.map(part => part.text).join('').trim();
+    if ('text' in value) return String(value.text).trim();
+    if ('result' in value) return this.cellText(value.result as ExcelJS.CellValue);
+    return '';
+  }
+
+  /**
+   * Excel dates carry no time zone; read them as UTC and drop the time part when it is midnight
+   */
+  private isoDate(date: Date): string {
+    const iso = date.toISOString();
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso.slice(0, 19);
+  }
+
+  /**
+   * Trim header names, name empty ones and make duplicates unique
+   */
+  private normalizeHeaders(values: string[]): string[] {
+    const seen = new Map<string, number>();
+    return values.map((value, index) => {
+      const name = value || `column_${index + 1}`;
+      const count = (seen.get(name) || 0) + 1;
+      seen.set(name, count);
+      return count > 1 ? `${name}_${count}` : name;
+    });
+  }
+
+  /**
+   * Optional "xlsx" section of the dataset's metadata.yaml (sheet, sheets, headerRow)
+   */
+  private async loadSettings(metadataPath: string): Promise<XlsxDatasetSettings> {
+    try {
+      const metadata = yaml.load(await fs.readFile(metadataPath, 'utf-8')) as any;
+      return metadata?.xlsx || {};
+    } catch (e) {
+      // No metadata.yaml, read the first sheet
+      return {};
+    }
+  }
+
+  /**
+   * Fields declared with type "date" in schema.yaml
+   */
+  private async loadDateFields(schemaPath: string): Promise<Set<string>> {
+    const dateFields = new Set<string>();
+    (await loadDeclaredFieldTypes(schemaPath)).forEach((spec, name) => {
+      if (spec.type === 'date') dateFields.add(name);
+    });
+    return dateFields;
+  }
+}
+
+/**
+ * Sheet dataset names (<dataset>/<sheet>) of a workbook whose metadata.yaml sets "sheets: all",
+ * or an empty list. The sheet names are cached until the workbook or its settings change.
+ */
+export async function sheetDatasetNames(datasetDir: string, datasetName: string, cacheConfig?: DatasetCacheConfig): Promise<string[]> {
+  const filePath = path.join(datasetDir, 'data.xlsx');
+  const metadataPath = path.join(datasetDir, 'metadata.yaml');
+  try {
+    const metadata = yaml.load(await fs.readFile(metadataPath, 'utf-8')) as any;
+    if (metadata?.xlsx?.sheets !== 'all') return [];
+    await fs.access(filePath);
+  } catch (e) {
+    return [];
+  }
+
+  const sheetNames: string[] = await getDatasetCache(cacheConfig).loadFile(filePath, async file => {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.readFile(file);
+    return workbook.worksheets.map(sheet => sheet.name);
+  }, [metadataPath], 'sheet-names');
+  return sheetNames.map(sheet => `${datasetName}${SHEET_SEPARATOR}${sheet}`);
+}
@@ -1,9 +1,7 @@
-// Safe code execution using Python subprocess with strict sandboxing
+// Safe code execution using a pool of sandboxed Python workers
 
-import { spawn } from 'child_process';
-import { promises as fs } from 'fs';
-import path from 'path';
-import os from 'os';
+import { ALLOWED_IMPORTS } from './static-code-validator';
+import { CachedDataSource, getPythonWorkerPool } from './python-worker-pool';
 
 export interface CodeExecutionResult {
   success: boolean;
@@ -11,49 +9,59 @@ export interface CodeExecutionResult {
   error?: string;
 }
 
+// Sandbox limits, configured under "sandbox" in app.yaml
+export interface SandboxConfig {
+  pythonPath?: string; // Python interpreter (default: python3)
+  timeoutMs?: number; // Wall-clock limit
+  cpuSeconds?: number; // RLIMIT_CPU
+  memoryMb?: number; // RLIMIT_AS (address space)
+  maxOutputBytes?: number; // Larger results are rejected
+  disableNetwork?: boolean; // Run in a new network namespace when the OS allows it, and block sockets
+  isolateFilesystem?: boolean; // chroot workers into their empty temp directory; needs user namespaces (Linux)
+  restrictBuiltins?: boolean; // Remove open/eval/exec/etc. and limit imports inside the wrapper
+  envPassthrough?: string[]; // Environment variables passed to Python - everything else is dropped
+  workers?: number; // Warm Python workers kept running
+  maxExecutionsPerWorker?: number; // Worker is replaced after this many executions
+  maxCachedDatasets?: number; // DataFrames each worker keeps loaded
+}
+
+const DEFAULT_SANDBOX: Required<SandboxConfig> = {
+  pythonPath: 'python3',
+  timeoutMs: 10000,
+  cpuSeconds: 10,
+  memoryMb: 2048,
+  maxOutputBytes: 10 * 1024 * 1024,
+  disableNetwork: true,
+  isolateFilesystem: true,
+  restrictBuiltins: true,
+  envPassthrough: ['PATH', 'HOME', 'LANG', 'LC_ALL', 'PYENV_ROOT', 'PYENV_VERSION', 'VIRTUAL_ENV', 'CONDA_PREFIX'],
+  workers: 2,
+  maxExecutionsPerWorker: 50,
+  maxCachedDatasets: 4,
+};
+
+// Builtins removed from the namespace the generated code runs in
+const BLOCKED_BUILTINS = [
+  'open', 'eval', 'exec', 'compile', 'input', 'breakpoint', 'globals', 'locals', 'vars',
+  'getattr', 'setattr', 'delattr', 'memoryview', 'help', 'exit', 'quit',
+];
+
 export class CodeExecutor {
   private logger?: any;
+  private sandbox: Required<SandboxConfig>;
 
-  constructor(logger?: any) {
+  constructor(logger?: any, sandboxConfig?: SandboxConfig) {
     this.logger = logger;
+    this.sandbox = { ...DEFAULT_SANDBOX, ...sandboxConfig };
   }
 
   /**
-   * Execute validated Python code in a subprocess
-   * Combined with AI validation in Phase 1.5, provides good security
+   * Execute validated Python code on a warm sandboxed worker.
+   * With a source, the worker reuses its cached DataFrame and only receives the row/column selection.
+   * Combined with static and AI validation in Phase 1.5, provides good security
    */
-  async execute(code: string, data: any[], requestId?: string): Promise<CodeExecutionResult> {
-    const tempDir = os.tmpdir();
-    const timestamp = Date.now();
-    const dataFile = path.join(tempDir, `data_${timestamp}.json`);
-    const codeFile = path.join(tempDir, `code_${timestamp}.py`);
-    const outputFile = path.join(tempDir, `output_${timestamp}.json`);
-
+  async execute(code: string, data: any[], requestId?: string, source?: CachedDataSource): Promise<CodeExecutionResult> {
     try {
-      // Write data to temp JSON file
-      await fs.writeFile(dataFile, JSON.stringify(data), 'utf-8');
-
-      // Wrap user code with data loading and result saving
-      const wrappedCode = `
-import pandas as pd
-import numpy as np
-import json
-
-# Load data into DataFrame
-with open('${dataFile}', 'r') as f:
-    data = json.load(f)
-df = pd.DataFrame(data)
-
-# User code executes here
-${code}
-
-# Save result
-with open('${outputFile}', 'w') as f:
-    json.dump(result, f)
-`;
-
-      await fs.writeFile(codeFile, wrappedCode, 'utf-8');
-
       // Log the generated Python code
       if (this.logger && requestId) {
         await this.logger.chatQuery(requestId, 'PYTHON_CODE_GENERATED', {
@@ -62,49 +70,31 @@ with open('${outputFile}', 'w') as f:
         });
       }
 
-      // Execute Python with timeout
-      const pythonProcess = spawn('python3', [codeFile], {
-        timeout: 10000, // 10 second timeout
-      });
-
-      let stdout = '';
-      let stderr = '';
-
-      pythonProcess.stdout.on('data', (data) => {
-        stdout += data.toString();
+      const pool = getPythonWorkerPool({
+        pythonPath: this.sandbox.pythonPath,
+        workers: this.sandbox.workers,
+        maxExecutionsPerWorker: this.sandbox.maxExecutionsPerWorker,
+        maxCachedDatasets: this.sandbox.maxCachedDatasets,
+        timeoutMs: this.sandbox.timeoutMs,
+        cpuSeconds: this.sandbox.cpuSeconds,
+        memoryMb: this.sandbox.memoryMb,
+        maxOutputBytes: this.sandbox.maxOutputBytes,
+        disableNetwork: this.sandbox.disableNetwork,
+        isolateFilesystem: this.sandbox.isolateFilesystem,
+        restrictBuiltins: this.sandbox.restrictBuiltins,
+        allowedImports: ALLOWED_IMPORTS,
+        blockedBuiltins: BLOCKED_BUILTINS,
+        env: this.buildEnv(),
       });
 
-      pythonProcess.stderr.on('data', (data) => {
-        stderr += data.toString();
-      });
-
-      // Wait for process to complete
-      const exitCode = await new Promise<number>((resolve, reject) => {
-        pythonProcess.on('close', (code) => resolve(code || 0));
-        pythonProcess.on('error', (error) => reject(error));
-        setTimeout(() => {
-          pythonProcess.kill();
-          reject(new Error('Python execution timeout'));
-        }, 10000);
-      });
+      const run = await pool.execute(source ? { code, source } : { code, data });
 
-      // Clean up temp files
-      try {
-        await fs.unlink(dataFile);
-        await fs.unlink(codeFile);
-      } catch (e) {
-        // Ignore cleanup errors
-      }
-
-      if (exitCode !== 0) {
-        const errorMsg = stderr || stdout || 'Unknown error';
+      if (!run.success) {
+        const errorMsg = run.error || 'Unknown error';
 
         // Log the execution error
         if (this.logger && requestId) {
           await this.logger.chatQuery(requestId, 'PYTHON_EXECUTION_ERROR', {
-            exitCode,
-            stderr,
-            stdout,
             error: errorMsg
           });
         }
@@ -115,11 +105,7 @@ with open('${outputFile}', 'w') as f:
         };
       }
 
-      // Read result
-      const resultData = await fs.readFile(outputFile, 'utf-8');
-      await fs.unlink(outputFile);
-
-      const result = JSON.parse(resultData);
+      const result = run.result;
 
       // Log successful execution with sample results for verification
       if (this.logger && requestId) {
@@ -148,19 +134,30 @@ with open('${outputFile}', 'w') as f:
         });
       }
 
-      // Clean up temp files on error
-      try {
-        await fs.unlink(dataFile).catch(() => {});
-        await fs.unlink(codeFile).catch(() => {});
-        await fs.unlink(outputFile).catch(() => {});
-      } catch (e) {
-        // Ignore cleanup errors
-      }
-
       return {
         success: false,
         error: error.message || 'Python execution failed',
       };
     }
   }
+
+  private buildEnv(): Record<string, string> {
+    const env: Record<string, string> = {};
+    for (const name of this.sandbox.envPassthrough) {
+      const value = process.env[name];
+      if (value !== undefined) {
+        env[name] = value;
+      }
+    }
+
+    return {
+      ...env,
+      PYTHONIOENCODING: 'utf-8',
+      PYTHONDONTWRITEBYTECODE: '1',
+      // Keep numeric libraries single-threaded so the address space limit holds
+      OMP_NUM_THREADS: '1',
+      OPENBLAS_NUM_THREADS: '1',
+      MKL_NUM_THREADS: '1',
+    };
+  }
 }
@@ -1,24 +1,42 @@
 // AI-powered code safety validator for Phase 1.5
 
 import { AIAdapter } from './adapters/ai.adapter';
+import { extractJson } from './json-repair';
+import { StaticCodeValidator } from './static-code-validator';
 
 export interface CodeValidationResult {
   approved: boolean;
   reason: string;
   risks: string[];
+  checkedBy?: 'static' | 'ai'; // static = rejected by the AST check, ai = reviewed by the model
 }
 
 export class CodeValidator {
   private aiAdapter: AIAdapter;
+  private model?: string;
+  private staticValidator: StaticCodeValidator;
 
-  constructor(aiAdapter: AIAdapter) {
+  constructor(aiAdapter: AIAdapter, model?: string) {
     this.aiAdapter = aiAdapter;
+    this.model = model;
+    this.staticValidator = new StaticCodeValidator();
   }
 
   /**
-   * Validate generated code for safety before execution
+   * Validate generated code for safety before execution.
+   * The static AST check runs first; only code that passes it is sent to the AI validator.
    */
   async validate(code: string, description: string): Promise<CodeValidationResult> {
+    const staticResult = await this.staticValidator.validate(code);
+    if (!staticResult.approved) {
+      return {
+        approved: false,
+        reason: 'Rejected by static analysis',
+        risks: staticResult.errors,
+        checkedBy: 'static',
+      };
+    }
+
     const systemPrompt = `You are a code security validator. Your job is to review Python code for safety issues before execution.
 
 CODE TO VALIDATE:
@@ -48,14 +66,14 @@ ALLOWED OPERATIONS:
 ✅ Basic Python: for loops, if/else, list comprehensions, dict operations
 ✅ Math operations: +, -, *, /, //, %, **
 ✅ Pandas methods: .iterrows(), .loc[], .iloc[], .copy(), .notna(), .isna()
-✅ Imports: pandas (as pd), numpy (as np) ONLY
+✅ Imports: pandas (as pd), numpy (as np), math, datetime ONLY
 
 FORBIDDEN OPERATIONS (auto-reject if found):
 ❌ File I/O: open(), read(), write(), os.path, Path, etc.
 ❌ Network: requests, urllib, socket, http, etc.
 ❌ Process operations: os.system(), subprocess, exec(), eval()
 ❌ Dynamic code execution: eval(), exec(), compile(), __import__()
-❌ Module loading beyond pandas/numpy: any other imports
+❌ Module loading beyond pandas/numpy/math/datetime: any other imports
 ❌ System access: os, sys (beyond basic operations), ctypes, etc.
 
 Return JSON:
@@ -71,12 +89,13 @@ IMPORTANT: Be strict. If you're unsure about safety, reject it.`;
       const response = await this.aiAdapter.chat('Validate this code for safety', {
         system_instruction: systemPrompt,
         require_json: true,
+        model: this.model,
       });
 
-      const cleanResponse = response.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-      const validation: CodeValidationResult = JSON.parse(cleanResponse);
+      // Parse JSON response (repairing free-text output from models without JSON mode)
+      const validation = extractJson<CodeValidationResult>(response);
 
-      return validation;
+      return { ...validation, checkedBy: 'ai' };
     } catch (error) {
       console.error('Code validation error:', error);
       // Fail safe: reject if validation fails
@@ -84,6 +103,7 @@ IMPORTANT: Be strict. If you're unsure about safety, reject it.`;
         approved: false,
         reason: 'Validation process failed - rejecting for safety',
         risks: ['Validation error occurred'],
+        checkedBy: 'ai',
       };
     }
   }
@@ -2,6 +2,13 @@ import { promises as fs } from 'fs';
 import path from 'path';
 import yaml from 'js-yaml';
 import { SchemaDiscovery } from './schema-discovery';
+import { AIReplayConfig } from './adapters/ai.adapter';
+import { datasetMarkerFiles, parseDatasetName } from './adapters/data.adapter';
+import { SandboxConfig } from './code-executor';
+import { SqlConfig } from './sql-executor';
+import { DatasetCacheConfig } from './dataset-cache';
+import { DatabaseConnectionConfig } from './adapters/database-connections';
+import { CsvFieldType } from './adapters/csv-typing';
 
 export interface AppConfig {
   app: {
@@ -19,12 +26,20 @@ export interface AppConfig {
     model: string;
     apiKey: string;
     queryAnalyzerModel?: string; // Optional: Use different model for Phase 1 query analysis
+    codeValidatorModel?: string; // Optional: Use different model for Phase 1.5 code validation
+    baseURL?: string; // Optional: Endpoint for OpenAI-compatible servers (Ollama, llama.cpp, vLLM)
+    jsonMode?: boolean; // Optional: Set false if the server does not support response_format
+    replay?: AIReplayConfig; // Optional: Fixture settings for the "replay" provider
   };
+  sandbox?: SandboxConfig; // Optional: Limits for Phase 2 Python code execution
+  sql?: SqlConfig; // Optional: DuckDB SQL execution for Phase 2
   dataSource: {
     type: string;
     datasetsPath: string;
     defaultDataset: string;
     path?: string; // Deprecated - for backward compatibility
+    cache?: DatasetCacheConfig; // Optional: In-memory cache of parsed dataset files
+    connections?: Record<string, DatabaseConnectionConfig>; // Optional: PostgreSQL/MySQL connection profiles
   };
 }
 
@@ -40,11 +55,20 @@ export interface ProjectConfig {
       name: string;
       displayName: string;
       description: string;
+      type?: CsvFieldType; // Optional: CSV value type, overrides inference
+      format?: string;
     }>;
     numericFields?: Array<{
       name: string;
       displayName: string;
       unit: string;
+      type?: CsvFieldType;
+      format?: string;
+    }>;
+    fields?: Array<{ // Optional: CSV value types for fields not listed above
+      name: string;
+      type: CsvFieldType;
+      format?: string;
     }>;
   };
   domainKnowledge: {
@@ -110,6 +134,8 @@ export async function loadProjectConfig(dataset?: string): Promise<ProjectConfig
   try {
     const appConfig = await loadConfig();
     const datasetName = dataset || appConfig.dataSource.defaultDataset;
+    // Sheet datasets ("<workbook>/<sheet>") live in their workbook's folder
+    const { folder, sheet } = parseDatasetName(datasetName);
     const datasetsPath = path.join(process.cwd(), appConfig.dataSource.datasetsPath);
 
     console.log('loadProjectConfig - dataset:', datasetName);
@@ -124,27 +150,21 @@ export async function loadProjectConfig(dataset?: string): Promise<ProjectConfig
     let dataPath: string | null = null;
 
     for (const typeFolder of typeFolders) {
-      const potentialConfigPath = path.join(datasetsPath, typeFolder.name, datasetName, 'project.yaml');
-      const potentialJsonPath = path.join(datasetsPath, typeFolder.name, datasetName, 'data.json');
-      const potentialCsvPath = path.join(datasetsPath, typeFolder.name, datasetName, 'data.csv');
-
-      // Try JSON first, then CSV
-      try {
-        await fs.access(potentialJsonPath);
-        configPath = potentialConfigPath;
-        dataPath = potentialJsonPath;
-        break;
-      } catch (e) {
-        // Try CSV
+      const potentialConfigPath = path.join(datasetsPath, typeFolder.name, folder, 'project.yaml');
+
+      // Try JSON first, then JSON Lines, then CSV (database connectors are marked by metadata.yaml)
+      for (const fileName of datasetMarkerFiles(typeFolder.name)) {
+        const potentialDataPath = path.join(datasetsPath, typeFolder.name, folder, fileName);
         try {
-          await fs.access(potentialCsvPath);
+          await fs.access(potentialDataPath);
           configPath = potentialConfigPath;
-          dataPath = potentialCsvPath;
+          dataPath = potentialDataPath;
           break;
-        } catch (csvError) {
-          // Try next type folder
+        } catch (e) {
+          // Try next file name
         }
       }
+      if (dataPath) break;
     }
 
     if (!dataPath) {
@@ -183,8 +203,9 @@ export async function loadProjectConfig(dataset?: string): Promise<ProjectConfig
       // queries.yaml doesn't exist
     }
 
-    // If we have the new structure, merge them
-    if (metadata && schema) {
+    // If we have the new structure, merge them. The workbook's schema.yaml describes its default sheet,
+    // so sheets of a workbook are always auto-discovered
+    if (metadata && schema && sheet === undefined) {
       cachedProjectConfig = {
         ...metadata,
         dataSchema: schema.dataSchema,
@@ -202,11 +223,11 @@ export async function loadProjectConfig(dataset?: string): Promise<ProjectConfig
       const data = await adapter.getData();
 
       // Extract project name from dataset folder name
-      const fileName = datasetName;
+      const fileName = folder;
       const projectName = fileName
         .split(/[-_]/)
         .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-        .join(' ');
+        .join(' ') + (sheet !== undefined ? ` / ${sheet}` : '');
 
       cachedProjectConfig = SchemaDiscovery.generateProjectConfig(data, projectName);
 
@@ -0,0 +1,388 @@
+// Server-side search, column filters and sorting for the data browser (/api/data)
+// Filters use the same FilterEngine semantics as Phase 2
+
+import { DataAdapter, DataSort } from './adapters/data.adapter';
+import { DatasetCache } from './dataset-cache';
+import { collectFilterFields, FilterEngine, FILTER_OPERATORS } from './filter-engine';
+import { DiscoveredSchema, SchemaDiscovery } from './schema-discovery';
+import { FilterNode, FilterOperator, QueryFilter } from './types';
+
+// Query parameter prefix for per-column filters, e.g. filter.outcome=Success
+export const COLUMN_FILTER_PREFIX = 'filter.';
+
+// Query parameter prefix for facet selections, repeated per value, e.g. facet.vehicle=Falcon 9
+export const FACET_PREFIX = 'facet.';
+
+// Fields with more distinct values than this are not offered as facets
+const MAX_FACET_DISTINCT = 100;
+
+// Rows profiled for the schema of adapters that read at the source without getSchema() (Parquet)
+const SCHEMA_PREVIEW_ROWS = 100;
+
+// Operators accepted as "<operator>:<value>". Not regex: a pattern from the URL would run over
+// every row on the server, and a catastrophic one like (a+)+$ blocks the event loop
+const URL_FILTER_OPERATORS: FilterOperator[] = FILTER_OPERATORS.filter(operator => operator !== 'regex');
+
+// Comparison shorthands accepted in column filters, longest first
+const SHORTHAND_OPERATORS: Array<[string, FilterOperator]> = [
+  ['!=', 'not_equals'],
+  ['>', 'greater_than'],
+  ['<', 'less_than'],
+  ['=', 'equals'],
+];
+
+export interface DataQuery {
+  q?: string; // Case-insensitive text search across every field
+  sort?: string;
+  dir: 'asc' | 'desc';
+  filters: QueryFilter[];
+  facets: Record<string, string[]>; // Field -> selected values; a record must match one value per field
+}
+
+export interface FacetValue {
+  value: string;
+  count: number; // Matching records if this value were selected, given every other active filter
+  selected: boolean;
+}
+
+export interface Facet {
+  field: string;
+  displayName: string;
+  values: FacetValue[];
+}
+
+export interface DataQueryResult {
+  data: any[];
+  errors: string[];
+}
+
+export interface DatasetQueryResult extends DataQueryResult {
+  total: number; // Matching records before pagination
+  unfilteredTotal: number;
+  schema: DiscoveredSchema;
+}
+
+/**
+ * Read q, sort, dir, filter.<field> and facet.<field> parameters.
+ * A column filter value is "contains" text by default, or "<operator>:<value>" / a shorthand
+ * like ">100", "=Success" or "!=Failure". Lists for in/not_in/between are comma-separated.
+ */
+export function parseDataQuery(searchParams: URLSearchParams): DataQuery {
+  const filters: QueryFilter[] = [];
+  const facets: Record<string, string[]> = {};
+  searchParams.forEach((value, key) => {
+    if (key.startsWith(COLUMN_FILTER_PREFIX) && value.trim() !== '') {
+      filters.push(parseColumnFilter(key.slice(COLUMN_FILTER_PREFIX.length), value.trim()));
+    } else if (key.startsWith(FACET_PREFIX)) {
+      const field = key.slice(FACET_PREFIX.length);
+      facets[field] = [...(facets[field] || []), value];
+    }
+  });
+
+  return {
+    q: searchParams.get('q')?.trim() || undefined,
+    sort: searchParams.get('sort') || undefined,
+    dir: searchParams.get('dir') === 'desc' ? 'desc' : 'asc',
+    filters,
+    facets,
+  };
+}
+
+function parseColumnFilter(field: string, text: string): QueryFilter {
+  const separator = text.indexOf(':');
+  if (separator > 0) {
+    const operator = text.slice(0, separator) as FilterOperator;
+    if (URL_FILTER_OPERATORS.includes(operator)) {
+      return { field, operator, value: parseFilterValue(operator, text.slice(separator + 1).trim()) };
+    }
+  }
+
+  for (const [prefix, operator] of SHORTHAND_OPERATORS) {
+    if (text.startsWith(prefix)) {
+      return { field, operator, value: text.slice(prefix.length).trim() };
+    }
+  }
+
+  return { field, operator: 'contains', value: text };
+}
+
+function parseFilterValue(operator: FilterOperator, value: string): any {
+  switch (operator) {
+    case 'between':
+    case 'in':
+    case 'not_in':
+      return value.split(',').map(v => v.trim()).filter(v => v.length > 0);
+    case 'is_null':
+    case 'not_null':
+      return undefined;
+    default:
+      return value;
+  }
+}
+
+/**
+ * True when the query neither searches, filters nor sorts, so every record is returned as stored
+ */
+export function isEmptyDataQuery(query: DataQuery): boolean {
+  return !query.q && !query.sort && query.filters.length === 0 &&
+    Object.values(query.facets).every(values => values.length === 0);
+}
+
+/**
+ * Apply search and column filters, then sort. The input array is never modified.
+ * Returns errors instead of data when a filter or the sort field is invalid.
+ */
+export function applyDataQuery(data: any[], query: DataQuery, schema: DiscoveredSchema): DataQueryResult {
+  const engine = new FilterEngine(schema);
+  const { nodes, errors } = buildFilters(query, engine);
+  if (errors.length > 0) {
+    return { data: [], errors };
+  }
+
+  let result = engine.apply(data, nodes);
+
+  if (query.sort) {
+    result = sortRecords(result === data ? [...data] : result, { field: query.sort, direction: query.dir });
+  }
+
+  return { data: result, errors: [] };
+}
+
+/**
+ * Schema of an adapter's records without loading them where possible: adapters with getSchema()
+ * answer at the source, adapters with exact field types profile a preview (value statistics cover
+ * the preview only), and the rest are loaded in full.
+ */
+export async function datasetSchema(adapter: DataAdapter, cache: DatasetCache): Promise<DiscoveredSchema> {
+  if (adapter.getSchema) {
+    return adapter.getSchema();
+  }
+  if (adapter.getFieldTypes && adapter.count) {
+    const preview = await adapter.getData({ limit: SCHEMA_PREVIEW_ROWS });
+    const schema = SchemaDiscovery.discover(preview, await adapter.getFieldTypes());
+    return { ...schema, totalRecords: await adapter.count() };
+  }
+  return cache.getStats(await adapter.getData()).schema;
+}
+
+/**
+ * Run a query for one page (limit 0 = every match) against a dataset adapter. Adapters with
+ * query() and getSchema() search, filter, sort and paginate at the source, and whatever they
+ * leave (e.g. filters SQL cannot evaluate exactly) runs here; other adapters are loaded in full.
+ * With fields, records only need those fields (plus whatever the query itself uses).
+ */
+export async function queryDataset(
+  adapter: DataAdapter,
+  query: DataQuery,
+  page: { offset: number; limit: number },
+  cache: DatasetCache,
+  fields?: string[]
+): Promise<DatasetQueryResult> {
+  if (!adapter.query || !adapter.getSchema) {
+    const allData = await loadRecords(adapter, query, fields);
+    const { schema } = cache.getStats(allData);
+    const { data, errors } = applyDataQuery(allData, query, schema);
+    const paginated = page.limit > 0 ? data.slice(page.offset, page.offset + page.limit) : data;
+    return { data: paginated, errors, total: data.length, unfilteredTotal: allData.length, schema };
+  }
+
+  return queryAtSource(adapter, await adapter.getSchema(), query, page, fields);
+}
+
+/**
+ * Every record for an adapter without query(). Adapters that read at the source (Parquet) only read
+ * the requested fields and those the query filters on; a text search covers every field, so it reads them all.
+ */
+async function loadRecords(adapter: DataAdapter, query: DataQuery, fields?: string[]): Promise<any[]> {
+  if (!fields || !adapter.getFieldTypes || query.q) {
+    return adapter.getData();
+  }
+  const columns = new Set([...fields, ...collectFilterFields(query.filters), ...Object.keys(query.facets)]);
+  if (query.sort) columns.add(query.sort);
+  return adapter.getData({ columns: Array.from(columns) });
+}
+
+async function queryAtSource(
+  adapter: DataAdapter,
+  schema: DiscoveredSchema,
+  query: DataQuery,
+  page: { offset: number; limit: number },
+  fields?: string[]
+): Promise<DatasetQueryResult> {
+  const paged = page.limit > 0;
+  const engine = new FilterEngine(schema);
+  const { nodes, errors } = buildFilters(query, engine);
+  if (errors.length > 0) {
+    return { data: [], errors, total: 0, unfilteredTotal: schema.totalRecords, schema };
+  }
+
+  const sort: DataSort | undefined = query.sort ? { field: query.sort, direction: query.dir } : undefined;
+  const result = await adapter.query!({
+    filters: nodes,
+    fields,
+    sort,
+    offset: paged ? page.offset : undefined,
+    limit: paged ? page.limit : undefined,
+    withTotal: paged,
+  });
+
+  if (result.limitApplied) {
+    const total = result.total ?? result.records.length;
+    return { data: result.records, errors: [], total, unfilteredTotal: schema.totalRecords, schema };
+  }
+
+  // The adapter returned every match of the filters it ran; finish the rest in memory
+  let data = engine.apply(result.records, result.remainingFilters);
+  if (sort) {
+    data = sortRecords(data === result.records ? [...data] : data, sort);
+  }
+  const paginated = paged ? data.slice(page.offset, page.offset + page.limit) : data;
+  return { data: paginated, errors: [], total: data.length, unfilteredTotal: schema.totalRecords, schema };
+}
+
+/**
+ * Sort records in place by one field, the way the data browser orders columns
+ */
+export function sortRecords(data: any[], sort: DataSort): any[] {
+  const multiplier = sort.direction === 'desc' ? -1 : 1;
+  return data.sort((a, b) => compareValues(a?.[sort.field], b?.[sort.field], multiplier));
+}
+
+/**
+ * Search, column and facet filters as FilterEngine nodes, with errors for invalid filters or sort field
+ */
+function buildFilters(query: DataQuery, engine: FilterEngine): { nodes: FilterNode[]; errors: string[] } {
+  const fields = engine.fieldNames;
+
+  const nodes: FilterNode[] = [...query.filters];
+  Object.entries(query.facets).forEach(([field, values]) => {
+    if (values.length > 0) {
+      nodes.push({ field, operator: 'in', value: values });
+    }
+  });
+  if (query.q && fields.length > 0) {
+    nodes.push({ or: fields.map(field => ({ field, operator: 'contains' as FilterOperator, value: query.q })) });
+  }
+
+  const { errors } = engine.validate(nodes);
+  if (query.sort && !fields.includes(query.sort)) {
+    errors.push(`Cannot sort by unknown field '${query.sort}'`);
+  }
+  return { nodes, errors };
+}
+
+/**
+ * Value counts for each facet field, like computeFacets(). Adapters with query() and getSchema()
+ * count at the source, reading only the facet field of the records that match the other filters;
+ * other adapters are loaded (Parquet: only the columns involved) and counted in memory.
+ */
+export async function queryFacets(
+  adapter: DataAdapter,
+  query: DataQuery,
+  schema: DiscoveredSchema,
+  fields: Array<{ name: string; displayName?: string }>,
+  cache: DatasetCache
+): Promise<{ facets: Facet[]; errors: string[] }> {
+  if (!adapter.query || !adapter.getSchema) {
+    const data = await loadRecords(adapter, query, fields.map(f => f.name));
+    return computeFacets(data, query, cache.getStats(data).schema, fields);
+  }
+
+  const facets: Facet[] = [];
+  for (const { name, displayName } of fields) {
+    const field = schema.fields.find(f => f.name === name);
+    if (!field || field.uniqueCount > MAX_FACET_DISTINCT) continue;
+
+    const { [name]: selectedValues = [], ...otherFacets } = query.facets;
+    const { data: matching, errors } = await queryAtSource(
+      adapter, schema, { ...query, sort: undefined, facets: otherFacets }, { offset: 0, limit: 0 }, [name]
+    );
+    if (errors.length > 0) {
+      return { facets: [], errors };
+    }
+
+    // Database schemas profile a sample of rows, so the distinct limit is checked on the whole column
+    // (the same fields are offered whatever is filtered)
+    const filtered = query.q || query.filters.length > 0 || Object.values(otherFacets).some(values => values.length > 0);
+    const column = filtered
+      ? (await queryAtSource(adapter, schema, { dir: 'asc', filters: [], facets: {} }, { offset: 0, limit: 0 }, [name])).data
+      : matching;
+    if (buildFacet(name, undefined, column, []).values.length > MAX_FACET_DISTINCT) continue;
+
+    facets.push(buildFacet(name, displayName, matching, selectedValues));
+  }
+
+  return { facets, errors: [] };
+}
+
+/**
+ * Value counts for each facet field. Counts for a field ignore that field's own selection,
+ * so selecting one value still shows how many records the other values would add.
+ */
+export function computeFacets(
+  data: any[],
+  query: DataQuery,
+  schema: DiscoveredSchema,
+  fields: Array<{ name: string; displayName?: string }>
+): { facets: Facet[]; errors: string[] } {
+  const facets: Facet[] = [];
+
+  for (const { name, displayName } of fields) {
+    const field = schema.fields.find(f => f.name === name);
+    if (!field || field.uniqueCount > MAX_FACET_DISTINCT) continue;
+
+    const { [name]: selectedValues = [], ...otherFacets } = query.facets;
+    const { data: matching, errors } = applyDataQuery(data, { ...query, sort: undefined, facets: otherFacets }, schema);
+    if (errors.length > 0) {
+      return { facets: [], errors };
+    }
+
+    facets.push(buildFacet(name, displayName, matching, selectedValues));
+  }
+
+  return { facets, errors: [] };
+}
+
+function buildFacet(name: string, displayName: string | undefined, matching: any[], selectedValues: string[]): Facet {
+  const counts = new Map<string, number>();
+  matching.forEach(record => {
+    const value = record?.[name];
+    if (value === null || value === undefined || value === '') return;
+    (Array.isArray(value) ? value : [value]).forEach(item => {
+      const key = String(item);
+      counts.set(key, (counts.get(key) || 0) + 1);
+    });
+  });
+  // Keep selected values visible even when nothing else matches them
+  selectedValues.forEach(value => {
+    if (!counts.has(value)) counts.set(value, 0);
+  });
+
+  return {
+    field: name,
+    displayName: displayName || name,
+    values: Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .map(([value, count]) => ({ value, count, selected: selectedValues.includes(value) })),
+  };
+}
+
+/**
+ * Numbers compare numerically, everything else as text with embedded numbers in order.
+ * Empty values always sort last.
+ */
+function compareValues(a: any, b: any, multiplier: number): number {
+  const aEmpty = a === null || a === undefined || a === '';
+  const bEmpty = b === null || b === undefined || b === '';
+  if (aEmpty || bEmpty) {
+    return aEmpty === bEmpty ? 0 : aEmpty ? 1 : -1;
+  }
+
+  if (typeof a === 'number' && typeof b === 'number') {
+    return (a - b) * multiplier;
+  }
+
+  const aText = typeof a === 'object' ? JSON.stringify(a) : String(a);
+  const bText = typeof b === 'object' ? JSON.stringify(b) : String(b);
+  return aText.localeCompare(bText, undefined, { numeric: true, sensitivity: 'base' }) * multiplier;
+}
@@ -0,0 +1,226 @@
+// Process-wide cache of parsed dataset files, shared by all data adapters and routes
+// Entries are keyed by resolved file path (plus an optional variant) and invalidated when the file's
+// mtime or size changes (or when any settings file the parse depends on changes)
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DiscoveredFieldType, DiscoveredSchema, SchemaDiscovery } from './schema-discovery';
+
+// Cache settings, configured under "dataSource.cache" in app.yaml
+export interface DatasetCacheConfig {
+  enabled?: boolean;
+  maxMemoryMb?: number; // Estimated size of all cached datasets; least recently used are evicted first
+}
+
+const DEFAULT_CACHE: Required<DatasetCacheConfig> = {
+  enabled: true,
+  maxMemoryMb: 512,
+};
+
+// Parsed records take roughly this many times the file size in memory
+const PARSED_SIZE_FACTOR = 3;
+
+export interface DatasetStats {
+  recordCount: number;
+  schema: DiscoveredSchema;
+}
+
+interface CacheEntry {
+  filePath: string;
+  version: string; // mtime and size of the file and its dependencies
+  bytes: number; // Estimated memory use
+  data: any;
+  recordCount: number;
+  schema?: DiscoveredSchema; // Discovered on first request
+  fieldTypes?: Record<string, DiscoveredFieldType>; // Exact types declared by the file format
+}
+
+export class DatasetCache {
+  private config: Required<DatasetCacheConfig>;
+  private entries = new Map<string, CacheEntry>(); // Least recently used first
+  private pending = new Map<string, Promise<CacheEntry>>();
+  private byData = new WeakMap<object, CacheEntry>();
+  private uncachedFieldTypes = new WeakMap<object, Record<string, DiscoveredFieldType>>();
+  private totalBytes = 0;
+
+  constructor(cacheConfig?: DatasetCacheConfig) {
+    this.config = { ...DEFAULT_CACHE, ...cacheConfig };
+  }
+
+  configure(cacheConfig?: DatasetCacheConfig) {
+    this.config = { ...DEFAULT_CACHE, ...cacheConfig };
+    if (!this.config.enabled) {
+      this.clear();
+    }
+    this.evict();
+  }
+
+  /**
+   * Read and parse a dataset file, reusing the cached result while the file is unchanged.
+   * Callers share the returned data and must not modify it.
+   */
+  async load(filePath: string, parse: (content: string) => any): Promise<any> {
+    return this.loadFile(filePath, async file => parse(await fs.readFile(file, 'utf-8')));
+  }
+
+  /**
+   * Like load(), but the reader gets the file path, so large files can be parsed as a stream.
+   * dependsOn lists settings files (e.g. metadata.yaml) whose changes also invalidate the entry.
+   * variant separates entries read differently from the same file (e.g. tables of one database).
+   */
+  async loadFile(
+    filePath: string,
+    read: (filePath: string) => Promise<any>,
+    dependsOn: string[] = [],
+    variant?: string
+  ): Promise<any> {
+    return this.loadEntry(filePath, read, dependsOn, variant, PARSED_SIZE_FACTOR);
+  }
+
+  /**
+   * Like loadFile(), for small facts computed from a file (e.g. how a database stores its columns)
+   * rather than its records; these do not count towards the memory limit
+   */
+  async loadDerived<T>(
+    filePath: string,
+    compute: (filePath: string) => Promise<T>,
+    dependsOn: string[] = [],
+    variant?: string
+  ): Promise<T> {
+    return this.loadEntry(filePath, compute, dependsOn, variant, 0);
+  }
+
+  private async loadEntry(
+    filePath: string,
+    read: (filePath: string) => Promise<any>,
+    dependsOn: string[],
+    variant: string | undefined,
+    sizeFactor: number
+  ): Promise<any> {
+    const stat = await fs.stat(filePath);
+    const resolved = variant ? `${path.resolve(filePath)}#${variant}` : path.resolve(filePath);
+    const dependencyVersions = await Promise.all(dependsOn.map(file => this.fileVersion(file)));
+    const version = [`${stat.mtimeMs}:${stat.size}`, ...dependencyVersions].join('|');
+
+    const cached = this.entries.get(resolved);
+    if (cached && cached.version === version) {
+      // Move to the end so it is evicted last
+      this.entries.delete(resolved);
+      this.entries.set(resolved, cached);
+      return cached.data;
+    }
+
+    // Concurrent requests for the same file share one read
+    const key = `${resolved}@${version}`;
+    let loading = this.pending.get(key);
+    if (!loading) {
+      loading = this.read(resolved, version, stat.size * sizeFactor, () => read(filePath)).finally(() => this.pending.delete(key));
+      this.pending.set(key, loading);
+    }
+    return (await loading).data;
+  }
+
+  /**
+   * Record count and discovered schema for data returned by load().
+   * Data that did not come from the cache is analysed without caching.
+   */
+  getStats(data: any): DatasetStats {
+    const records = Array.isArray(data) ? data : [];
+    const entry = data && typeof data === 'object' ? this.byData.get(data) : undefined;
+    if (!entry) {
+      const fieldTypes = data && typeof data === 'object' ? this.uncachedFieldTypes.get(data) : undefined;
+      return { recordCount: records.length, schema: SchemaDiscovery.discover(records, fieldTypes) };
+    }
+
+    if (!entry.schema) {
+      entry.schema = SchemaDiscovery.discover(records, entry.fieldTypes);
+    }
+    return { recordCount: entry.recordCount, schema: entry.schema };
+  }
+
+  /**
+   * Record exact field types for data returned by loadFile(), or read by an adapter without the cache
+   * (databases), used by getStats() instead of inference
+   */
+  setFieldTypes(data: any, fieldTypes: Record<string, DiscoveredFieldType>) {
+    if (!data || typeof data !== 'object') return;
+    const entry = this.byData.get(data);
+    if (!entry) {
+      this.uncachedFieldTypes.set(data, fieldTypes);
+    } else if (entry.fieldTypes !== fieldTypes) {
+      entry.fieldTypes = fieldTypes;
+      entry.schema = undefined;
+    }
+  }
+
+  clear() {
+    this.entries.clear();
+    this.totalBytes = 0;
+  }
+
+  private async fileVersion(filePath: string): Promise<string> {
+    try {
+      const stat = await fs.stat(filePath);
+      return `${stat.mtimeMs}:${stat.size}`;
+    } catch (e) {
+      return 'missing';
+    }
+  }
+
+  private async read(filePath: string, version: string, bytes: number, read: () => Promise<any>): Promise<CacheEntry> {
+    const data = await read();
+    const entry: CacheEntry = {
+      filePath,
+      version,
+      bytes,
+      data,
+      recordCount: Array.isArray(data) ? data.length : 0,
+    };
+
+    if (data && typeof data === 'object') {
+      this.byData.set(data, entry);
+    }
+
+    if (this.config.enabled) {
+      this.remove(filePath);
+      this.entries.set(filePath, entry);
+      this.totalBytes += entry.bytes;
+      this.evict();
+    }
+
+    return entry;
+  }
+
+  private evict() {
+    const maxBytes = this.config.maxMemoryMb * 1024 * 1024;
+    // Always keep the most recent entry, even if it alone exceeds the cap
+    while (this.totalBytes > maxBytes && this.entries.size > 1) {
+      const oldest = this.entries.keys().next().value as string;
+      console.log(`Dataset cache: evicting ${oldest}`);
+      this.remove(oldest);
+    }
+  }
+
+  private remove(filePath: string) {
+    const entry = this.entries.get(filePath);
+    if (entry) {
+      this.entries.delete(filePath);
+      this.totalBytes -= entry.bytes;
+    }
+  }
+}
+
+// Kept on globalThis so every route bundle in the process shares one cache
+const globalCache = globalThis as typeof globalThis & { __chatheroDatasetCache?: DatasetCache };
+
+/**
+ * Shared dataset cache. Settings are applied on every call so config changes take effect.
+ */
+export function getDatasetCache(cacheConfig?: DatasetCacheConfig): DatasetCache {
+  if (!globalCache.__chatheroDatasetCache) {
+    globalCache.__chatheroDatasetCache = new DatasetCache(cacheConfig);
+  } else {
+    globalCache.__chatheroDatasetCache.configure(cacheConfig);
+  }
+  return globalCache.__chatheroDatasetCache;
+}
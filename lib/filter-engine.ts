@@ -0,0 +1,413 @@
+// Typed filter engine for Phase 2
+// Evaluates QueryFilter objects with type coercion driven by the discovered schema
+
+import { DiscoveredSchema, SchemaDiscovery } from './schema-discovery';
+import { FilterGroup, FilterNode, FilterOperator, QueryFilter } from './types';
+
+export const FILTER_OPERATORS: FilterOperator[] = [
+  'equals',
+  'not_equals',
+  'contains',
+  'starts_with',
+  'greater_than',
+  'less_than',
+  'between',
+  'in',
+  'not_in',
+  'is_null',
+  'not_null',
+  'regex',
+];
+
+type FieldKind = 'string' | 'number' | 'boolean' | 'date' | 'other';
+
+export interface FilterValidationResult {
+  valid: FilterNode[];
+  errors: string[];
+}
+
+/**
+ * Check whether a filter node is an and/or/not group rather than a single filter
+ */
+export function isFilterGroup(node: FilterNode): node is FilterGroup {
+  return !!node && typeof node === 'object' && !('field' in node) &&
+    ('and' in node || 'or' in node || 'not' in node);
+}
+
+/**
+ * [min, max] of a "between" value: a two-item list or an object with min/max (or from/to, start/end)
+ */
+export function filterRange(value: any): [any, any] | null {
+  if (Array.isArray(value) && value.length === 2) {
+    return [value[0], value[1]];
+  }
+  if (value && typeof value === 'object') {
+    const min = value.min ?? value.from ?? value.start;
+    const max = value.max ?? value.to ?? value.end;
+    if (min !== undefined && max !== undefined) return [min, max];
+  }
+  return null;
+}
+
+/**
+ * Values of an "in" or "not_in" value: a list, or comma-separated text
+ */
+export function filterList(value: any): any[] {
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'string' && value.length > 0) {
+    return value.split(',').map(v => v.trim()).filter(v => v.length > 0);
+  }
+  return [];
+}
+
+/**
+ * Collect every field referenced by a list of filter nodes, including nested groups
+ */
+export function collectFilterFields(nodes: FilterNode[] = []): string[] {
+  const fields = new Set<string>();
+
+  const visit = (node: FilterNode) => {
+    if (!node) return;
+    if (isFilterGroup(node)) {
+      node.and?.forEach(visit);
+      node.or?.forEach(visit);
+      if (node.not) visit(node.not);
+    } else if (typeof node.field === 'string') {
+      fields.add(node.field);
+    }
+  };
+
+  nodes.forEach(visit);
+  return Array.from(fields);
+}
+
+export class FilterEngine {
+  private fieldKinds: Map<string, FieldKind>;
+  private regexCache = new Map<string, RegExp>();
+
+  /**
+   * @param schema Discovered schema of the data being filtered
+   * @param dateFields Additional fields to treat as dates (e.g. the configured primaryDateField)
+   */
+  constructor(schema: DiscoveredSchema, dateFields: string[] = []) {
+    this.fieldKinds = new Map();
+
+    schema.fields.forEach(field => {
+      const kind: FieldKind = field.type === 'string' || field.type === 'number' ||
+        field.type === 'boolean' || field.type === 'date'
+        ? field.type
+        : 'other';
+      this.fieldKinds.set(field.name, kind);
+    });
+
+    dateFields.forEach(fieldName => {
+      if (fieldName && this.fieldKinds.has(fieldName)) {
+        this.fieldKinds.set(fieldName, 'date');
+      }
+    });
+  }
+
+  /**
+   * Build an engine by discovering the schema of the given data
+   */
+  static fromData(data: any[], dateFields: string[] = []): FilterEngine {
+    return new FilterEngine(SchemaDiscovery.discover(data), dateFields);
+  }
+
+  get fieldNames(): string[] {
+    return Array.from(this.fieldKinds.keys());
+  }
+
+  /**
+   * Check filters against the schema. Returns the usable top-level filters and a readable error
+   * for each one that references an unknown field, operator or malformed value.
+   * A group is only usable if everything inside it is valid.
+   */
+  validate(filters: FilterNode[]): FilterValidationResult {
+    const valid: FilterNode[] = [];
+    const errors: string[] = [];
+
+    filters.forEach(node => {
+      const nodeErrors = this.validateNode(node);
+      if (nodeErrors.length > 0) {
+        errors.push(...nodeErrors);
+      } else {
+        valid.push(node);
+      }
+    });
+
+    return { valid, errors };
+  }
+
+  private validateNode(node: FilterNode): string[] {
+    if (!isFilterGroup(node)) {
+      const error = this.validateFilter(node as QueryFilter);
+      return error ? [error] : [];
+    }
+
+    const keys = (['and', 'or', 'not'] as const).filter(key => node[key] !== undefined);
+    if (keys.length !== 1) {
+      return [`Filter group ${JSON.stringify(node)} must have exactly one of "and", "or", "not"`];
+    }
+
+    if (node.not !== undefined) {
+      return this.validateNode(node.not);
+    }
+
+    const children = node.and ?? node.or;
+    if (!Array.isArray(children) || children.length === 0) {
+      return [`Filter group "${keys[0]}" must contain a non-empty list of filters`];
+    }
+
+    return children.flatMap(child => this.validateNode(child));
+  }
+
+  private validateFilter(filter: QueryFilter): string | null {
+    if (!filter || typeof filter.field !== 'string') {
+      return `Filter ${JSON.stringify(filter)} is missing a "field"`;
+    }
+
+    if (!this.fieldKinds.has(filter.field)) {
+      return `Filter references unknown field '${filter.field}'. Available fields: ${this.fieldNames.join(', ')}`;
+    }
+
+    if (!FILTER_OPERATORS.includes(filter.operator)) {
+      return `Filter on '${filter.field}' uses unknown operator '${filter.operator}'. Allowed operators: ${FILTER_OPERATORS.join(', ')}`;
+    }
+
+    switch (filter.operator) {
+      case 'between':
+        if (!filterRange(filter.value)) {
+          return `Filter on '${filter.field}' uses "between" but value is not [min, max]`;
+        }
+        break;
+      case 'in':
+      case 'not_in':
+        if (filterList(filter.value).length === 0) {
+          return `Filter on '${filter.field}' uses "${filter.operator}" but value is not a list`;
+        }
+        break;
+      case 'regex':
+        try {
+          this.getRegex(String(filter.value));
+        } catch (e) {
+          return `Filter on '${filter.field}' has an invalid regex: ${filter.value}`;
+        }
+        break;
+    }
+
+    return null;
+  }
+
+  /**
+   * Apply filters (top-level nodes ANDed together) to data
+   */
+  apply(data: any[], filters: FilterNode[]): any[] {
+    if (!filters || filters.length === 0) return data;
+    return data.filter(record => filters.every(node => this.matchesNode(record, node)));
+  }
+
+  /**
+   * Test a single record against a filter or a nested and/or/not group
+   */
+  matchesNode(record: any, node: FilterNode): boolean {
+    if (!isFilterGroup(node)) {
+      return this.matches(record, node as QueryFilter);
+    }
+    if (node.not !== undefined) {
+      return !this.matchesNode(record, node.not);
+    }
+    if (node.or) {
+      return node.or.some(child => this.matchesNode(record, child));
+    }
+    return (node.and || []).every(child => this.matchesNode(record, child));
+  }
+
+  /**
+   * Test a single record against a single filter
+   */
+  matches(record: any, filter: QueryFilter): boolean {
+    const value = record?.[filter.field];
+    const kind = this.fieldKinds.get(filter.field) || 'other';
+
+    switch (filter.operator) {
+      case 'is_null':
+        return this.isNull(value);
+      case 'not_null':
+        return !this.isNull(value);
+      case 'equals':
+        return this.equals(value, filter.value, kind);
+      case 'not_equals':
+        return !this.equals(value, filter.value, kind);
+      case 'in':
+        return filterList(filter.value).some(v => this.equals(value, v, kind));
+      case 'not_in':
+        return !filterList(filter.value).some(v => this.equals(value, v, kind));
+      case 'contains':
+        return this.textValues(value).some(text => text.includes(String(filter.value ?? '').toLowerCase()));
+      case 'starts_with':
+        return this.textValues(value).some(text => text.startsWith(String(filter.value ?? '').toLowerCase()));
+      case 'regex': {
+        const regex = this.getRegex(String(filter.value));
+        return this.textValues(value, false).some(text => regex.test(text));
+      }
+      case 'greater_than':
+        // Strictly after the filter value; "greater_than 2024" means 2025 onwards
+        return this.compare(value, filter.value, kind, 'upper') > 0;
+      case 'less_than':
+        return this.compare(value, filter.value, kind, 'lower') < 0;
+      case 'between': {
+        const bounds = filterRange(filter.value);
+        if (!bounds) return false;
+        // Inclusive on both ends; a partial date upper bound ("2024") covers the whole period
+        return this.compare(value, bounds[0], kind, 'lower') >= 0 &&
+               this.compare(value, bounds[1], kind, 'upper') <= 0;
+      }
+      default:
+        return false;
+    }
+  }
+
+  private isNull(value: any): boolean {
+    return value === null || value === undefined || value === '' ||
+      (typeof value === 'number' && isNaN(value));
+  }
+
+  private equals(value: any, target: any, kind: FieldKind): boolean {
+    if (this.isNull(value) || this.isNull(target)) {
+      return this.isNull(value) && this.isNull(target);
+    }
+
+    switch (kind) {
+      case 'number': {
+        const a = this.toNumber(value);
+        const b = this.toNumber(target);
+        return a !== null && b !== null && a === b;
+      }
+      case 'boolean': {
+        const a = this.toBoolean(value);
+        const b = this.toBoolean(target);
+        return a !== null && a === b;
+      }
+      case 'date': {
+        // Partial dates ("2024", "2024-03") match every date in that period
+        const range = this.dateRange(target);
+        const time = this.toTime(value);
+        if (range && time !== null) {
+          return time >= range[0] && time <= range[1];
+        }
+        return String(value) === String(target);
+      }
+      default:
+        if (Array.isArray(value)) {
+          return value.some(item => String(item) === String(target));
+        }
+        return String(value) === String(target);
+    }
+  }
+
+  /**
+   * Compare a record value to a filter value. Returns NaN when either side cannot be coerced,
+   * which makes every ordered comparison false.
+   * For partial dates, 'lower' compares against the start of the period and 'upper' against its end.
+   */
+  private compare(value: any, target: any, kind: FieldKind, bound: 'lower' | 'upper'): number {
+    if (this.isNull(value) || this.isNull(target)) return NaN;
+
+    if (kind === 'date') {
+      const time = this.toTime(value);
+      const range = this.dateRange(target);
+      if (time === null || !range) return NaN;
+      return time - (bound === 'lower' ? range[0] : range[1]);
+    }
+
+    const a = this.toNumber(value);
+    const b = this.toNumber(target);
+    if (kind === 'number' || (a !== null && b !== null)) {
+      if (a === null || b === null) return NaN;
+      return a - b;
+    }
+
+    return String(value).localeCompare(String(target));
+  }
+
+  private toNumber(value: any): number | null {
+    if (typeof value === 'number') return isNaN(value) ? null : value;
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    if (typeof value !== 'string') return null;
+
+    const cleaned = value.trim().replace(/[$,\s]/g, '');
+    if (cleaned === '') return null;
+    const num = Number(cleaned);
+    return isNaN(num) ? null : num;
+  }
+
+  private toBoolean(value: any): boolean | null {
+    if (typeof value === 'boolean') return value;
+    const text = String(value).trim().toLowerCase();
+    if (['true', 'yes', '1', 'y'].includes(text)) return true;
+    if (['false', 'no', '0', 'n'].includes(text)) return false;
+    return null;
+  }
+
+  private toTime(value: any): number | null {
+    if (value instanceof Date) return value.getTime();
+    if (typeof value === 'number') {
+      // A bare 4-digit number is a year, like the text "2024"; other numbers are epoch milliseconds
+      return Number.isInteger(value) && value >= 1000 && value <= 9999 ? Date.UTC(value, 0, 1) : value;
+    }
+    const time = Date.parse(String(value));
+    return isNaN(time) ? null : time;
+  }
+
+  /**
+   * Expand a filter date into the [start, end] milliseconds it covers.
+   * "2024" covers the whole year, "2024-03" the whole month, full dates a single instant.
+   */
+  private dateRange(value: any): [number, number] | null {
+    if (typeof value === 'number' && value >= 1000 && value <= 9999) {
+      value = String(value);
+    }
+
+    if (typeof value === 'string') {
+      const text = value.trim();
+      const year = text.match(/^(\d{4})$/);
+      if (year) {
+        const y = Number(year[1]);
+        return [Date.UTC(y, 0, 1), Date.UTC(y + 1, 0, 1) - 1];
+      }
+      const month = text.match(/^(\d{4})-(\d{1,2})$/);
+      if (month) {
+        const y = Number(month[1]);
+        const m = Number(month[2]) - 1;
+        return [Date.UTC(y, m, 1), Date.UTC(y, m + 1, 1) - 1];
+      }
+      const day = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+      if (day) {
+        const start = Date.UTC(Number(day[1]), Number(day[2]) - 1, Number(day[3]));
+        return [start, start + 24 * 60 * 60 * 1000 - 1];
+      }
+    }
+
+    const time = this.toTime(value);
+    return time === null ? null : [time, time];
+  }
+
+  private textValues(value: any, lowercase = true): string[] {
+    if (this.isNull(value)) return [];
+    const values = Array.isArray(value) ? value : [value];
+    return values
+      .filter(v => !this.isNull(v))
+      .map(v => (typeof v === 'object' ? JSON.stringify(v) : String(v)))
+      .map(v => (lowercase ? v.toLowerCase() : v));
+  }
+
+  private getRegex(pattern: string): RegExp {
+    let regex = this.regexCache.get(pattern);
+    if (!regex) {
+      regex = new RegExp(pattern, 'i');
+      this.regexCache.set(pattern, regex);
+    }
+    return regex;
+  }
+}
@@ -0,0 +1,196 @@
+// Deterministic joins for declared relationships (Phase 2)
+// Each joined row holds one "from" record's fields followed by the fields of one matching "to"
+// record, so generated code and SQL get a single flat table instead of a union of datasets.
+
+import { Relationship } from './relationships';
+import { DiscoveredFieldType, DiscoveredSchema, SchemaDiscovery } from './schema-discovery';
+
+// Safety backstop against joins that multiply rows (e.g. keys that are not unique on either side)
+export const MAX_JOINED_ROWS = 200000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface JoinedFields {
+  fields: string[]; // Field names of the joined rows, "from" fields first
+  toNames: Record<string, string>; // "to" field -> its name in the joined rows
+}
+
+export interface JoinResult {
+  records: any[];
+  schema: DiscoveredSchema;
+  matchedFrom: number; // "from" records with at least one match
+}
+
+interface IndexedRecord {
+  record: any;
+  time: number; // Range joins only
+}
+
+/**
+ * Field names of the joined rows. A "to" field whose name is taken by a "from" field is
+ * prefixed with its dataset: "spacex-launches.name".
+ */
+export function joinedFields(relationship: Relationship, fromFields: string[], toFields: string[]): JoinedFields {
+  const fields = fromFields.filter(field => field !== '_dataset_source');
+  const taken = new Set(fields);
+  const toNames: Record<string, string> = {};
+
+  toFields.filter(field => field !== '_dataset_source').forEach(field => {
+    const name = taken.has(field) ? `${relationship.to}.${field}` : field;
+    toNames[field] = name;
+    taken.add(name);
+    fields.push(name);
+  });
+
+  return { fields, toNames };
+}
+
+/**
+ * Join two datasets' records. Rows keep the order of the "from" records; the matches of one
+ * record are ordered by date for range joins and by position otherwise.
+ */
+export function joinRecords(
+  relationship: Relationship,
+  fromRecords: any[],
+  toRecords: any[],
+  fromSchema: DiscoveredSchema,
+  toSchema: DiscoveredSchema
+): JoinResult {
+  const fromFields = fromSchema.fields.map(field => field.name).filter(field => field !== '_dataset_source');
+  const { fields, toNames } = joinedFields(relationship, fromFields, toSchema.fields.map(field => field.name));
+  const keys = relationship.keys || [];
+  const range = relationship.dateRange;
+
+  // "to" records grouped by key, sorted by date within each group for range joins
+  const index = new Map<string, IndexedRecord[]>();
+  for (const record of toRecords) {
+    const key = keyOf(record, keys.map(k => k.to));
+    if (key === null) continue;
+    const time = range ? toTime(record?.[range.field]) : 0;
+    if (time === null) continue;
+    if (!index.has(key)) index.set(key, []);
+    index.get(key)!.push({ record, time });
+  }
+  if (range) {
+    index.forEach(group => group.sort((a, b) => a.time - b.time));
+  }
+
+  const records: any[] = [];
+  let matchedFrom = 0;
+  for (const fromRecord of fromRecords) {
+    const key = keyOf(fromRecord, keys.map(k => k.from));
+    const group = key !== null ? index.get(key) || [] : [];
+    const matches = range ? withinRange(group, fromRecord, range) : group;
+
+    if (matches.length > 0) {
+      matchedFrom++;
+    } else if (relationship.type !== 'left') {
+      continue;
+    }
+    if (records.length + Math.max(matches.length, 1) > MAX_JOINED_ROWS) {
+      throw new Error(`Relationship '${relationship.name}' joins to more than ${MAX_JOINED_ROWS} rows`);
+    }
+
+    const base: any = {};
+    fromFields.forEach(field => {
+      base[field] = fromRecord?.[field] ?? null;
+    });
+    if (matches.length === 0) {
+      Object.values(toNames).forEach(name => {
+        base[name] = null;
+      });
+      records.push(base);
+      continue;
+    }
+    for (const { record } of matches) {
+      const row = { ...base };
+      Object.entries(toNames).forEach(([field, name]) => {
+        row[name] = record?.[field] ?? null;
+      });
+      records.push(row);
+    }
+  }
+
+  // Joined fields keep the types discovered for their source datasets
+  const fieldTypes: Record<string, DiscoveredFieldType> = {};
+  fromSchema.fields.forEach(field => {
+    fieldTypes[field.name] = field.type;
+  });
+  toSchema.fields.forEach(field => {
+    if (toNames[field.name]) fieldTypes[toNames[field.name]] = field.type;
+  });
+  const schema = SchemaDiscovery.discover(records, fieldTypes);
+  // Fields of datasets without matches still exist in the joined table
+  schema.fields = fields.map(name => schema.fields.find(field => field.name === name) ||
+    { name, type: fieldTypes[name] || 'string', sampleValues: [], uniqueCount: 0, nullCount: records.length });
+
+  return { records, schema, matchedFrom };
+}
+
+/**
+ * Key of a record's equality fields, or null when one of them is empty (empty values never match)
+ */
+function keyOf(record: any, fields: string[]): string | null {
+  const parts: string[] = [];
+  for (const field of fields) {
+    const value = record?.[field];
+    if (value === null || value === undefined) return null;
+    const text = typeof value === 'string' ? value.trim() : String(value);
+    if (text === '') return null;
+    parts.push(text);
+  }
+  return parts.join('\u0000');
+}
+
+/**
+ * Records of a date-sorted group within a "from" record's [start, end) range.
+ * A missing end leaves the range open; a missing start matches nothing.
+ */
+function withinRange(group: IndexedRecord[], fromRecord: any, range: NonNullable<Relationship['dateRange']>): IndexedRecord[] {
+  const start = toTime(fromRecord?.[range.start]);
+  if (start === null) return [];
+
+  let end = Infinity;
+  const endValue = range.end ? fromRecord?.[range.end] : null;
+  if (endValue !== null && endValue !== undefined && endValue !== '') {
+    const time = toTime(endValue);
+    if (time === null) return [];
+    // An inclusive date-only end covers that whole day
+    end = range.endInclusive ? (isDateOnly(endValue) ? time + DAY_MS : time + 1) : time;
+  }
+
+  const matches: IndexedRecord[] = [];
+  for (let i = firstAtOrAfter(group, start); i < group.length && group[i].time < end; i++) {
+    matches.push(group[i]);
+  }
+  return matches;
+}
+
+function firstAtOrAfter(group: IndexedRecord[], time: number): number {
+  let low = 0;
+  let high = group.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (group[mid].time < time) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+function isDateOnly(value: any): boolean {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value.trim());
+}
+
+/**
+ * Milliseconds for a date value. Date-times without a zone are read as UTC, like date-only
+ * values, so mixed precision compares consistently whatever the server's time zone.
+ */
+function toTime(value: any): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'number') return value;
+  const text = String(value).trim();
+  const local = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/.test(text);
+  const time = Date.parse(local ? `${text.replace(' ', 'T')}Z` : text);
+  return isNaN(time) ? null : time;
+}
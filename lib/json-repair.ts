@@ -0,0 +1,136 @@
+// Extract and repair JSON from model output
+// Models without a native JSON mode (many local servers) often wrap JSON in prose,
+// markdown fences, or emit slightly invalid JSON (trailing commas, Python literals).
+
+/**
+ * Find the first balanced {...} or [...] block in a string, ignoring brackets inside strings
+ */
+function findJsonBlock(text: string): string | null {
+  const start = text.search(/[{[]/);
+  if (start === -1) return null;
+
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      stack.push(char === '{' ? '}' : ']');
+    } else if (char === '}' || char === ']') {
+      if (stack.pop() !== char) return null;
+      if (stack.length === 0) {
+        return text.slice(start, i + 1);
+      }
+    }
+  }
+
+  // Unterminated block (e.g. output truncated) - close whatever is still open
+  if (stack.length > 0 && !inString) {
+    return text.slice(start) + stack.reverse().join('');
+  }
+
+  return null;
+}
+
+const PYTHON_LITERALS: Record<string, string> = { True: 'true', False: 'false', None: 'null' };
+
+/**
+ * Apply common fixes for near-JSON produced by models.
+ * Python literals and trailing commas are only rewritten outside of strings, so values
+ * like "None of the above" or "a, ]" are kept as written.
+ */
+function repairJson(text: string): string {
+  // Smart quotes -> straight quotes
+  const source = text.replace(/[“”]/g, '"');
+  let output = '';
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      output += char;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+      output += char;
+      continue;
+    }
+
+    // Python literals -> JSON literals
+    if (/[A-Za-z_]/.test(char)) {
+      let end = i + 1;
+      while (end < source.length && /\w/.test(source[end])) end++;
+      const word = source.slice(i, end);
+      output += PYTHON_LITERALS[word] ?? word;
+      i = end - 1;
+      continue;
+    }
+
+    // Trailing commas before a closing bracket
+    if (char === ',') {
+      let next = i + 1;
+      while (next < source.length && /\s/.test(source[next])) next++;
+      if (source[next] === '}' || source[next] === ']') {
+        continue;
+      }
+    }
+
+    output += char;
+  }
+
+  return output;
+}
+
+/**
+ * Parse JSON from free-form model output.
+ * Tries the raw text first, then the first JSON block, then a repaired version of that block.
+ * Throws if no parseable JSON can be found.
+ */
+export function extractJson<T = any>(response: string): T {
+  const cleanResponse = response.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+
+  try {
+    return JSON.parse(cleanResponse);
+  } catch (e) {
+    // Fall through to extraction
+  }
+
+  const block = findJsonBlock(cleanResponse);
+  if (!block) {
+    throw new Error('No JSON object found in model response');
+  }
+
+  try {
+    return JSON.parse(block);
+  } catch (e) {
+    // Fall through to repair
+  }
+
+  return JSON.parse(repairJson(block));
+}
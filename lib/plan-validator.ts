@@ -0,0 +1,163 @@
+// Strict schema check for Phase 1 query plans
+// Catches unknown fields, unknown operators and malformed values before Phase 2 runs
+
+import { FILTER_OPERATORS, filterList, filterRange, isFilterGroup } from './filter-engine';
+import { ProjectConfig } from './config';
+import { AvailableRelationship } from './relationships';
+import { FilterOperator } from './types';
+
+// Operators that take no value
+const NO_VALUE_OPERATORS: FilterOperator[] = ['is_null', 'not_null'];
+
+// Operators that take a list of values
+const LIST_OPERATORS: FilterOperator[] = ['in', 'not_in'];
+
+export interface PlanValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+export class PlanValidator {
+  private knownFields: Set<string>;
+  private relationships: Set<string>;
+
+  constructor(knownFields: string[], relationships: string[] = []) {
+    this.knownFields = new Set(knownFields);
+    this.relationships = new Set(relationships);
+  }
+
+  /**
+   * Build a validator from the project schema plus every field seen in the data.
+   * Keys are collected across all records so fields from every selected dataset are accepted,
+   * as are the joined fields and names of the relationships available to the plan.
+   */
+  static fromProject(projectConfig: ProjectConfig, data: any[], relationships: AvailableRelationship[] = []): PlanValidator {
+    const fields = new Set<string>();
+    const schema = projectConfig.dataSchema;
+
+    if (schema?.primaryDateField) fields.add(schema.primaryDateField);
+    schema?.categoricalFields?.forEach(f => fields.add(f.name));
+    schema?.numericFields?.forEach(f => fields.add(f.name));
+
+    data.forEach(record => {
+      if (record && typeof record === 'object') {
+        Object.keys(record).forEach(key => fields.add(key));
+      }
+    });
+
+    relationships.forEach(r => r.fields.forEach(field => fields.add(field)));
+
+    return new PlanValidator(Array.from(fields), relationships.map(r => r.relationship.name));
+  }
+
+  /**
+   * Validate a parsed plan. Unrecognised top-level keys are ignored.
+   */
+  validate(plan: any): PlanValidationResult {
+    const errors: string[] = [];
+
+    if (!plan || typeof plan !== 'object' || Array.isArray(plan)) {
+      return { valid: false, errors: ['Plan must be a JSON object'] };
+    }
+
+    if (plan.filters !== undefined && plan.filters !== null) {
+      if (!Array.isArray(plan.filters)) {
+        errors.push('"filters" must be an array');
+      } else {
+        plan.filters.forEach((node: any, i: number) => this.validateNode(node, `filters[${i}]`, errors));
+      }
+    }
+
+    if (plan.limit !== undefined && plan.limit !== null) {
+      if (typeof plan.limit !== 'number' || !Number.isInteger(plan.limit) || plan.limit <= 0) {
+        errors.push(`"limit" must be a positive integer, got ${JSON.stringify(plan.limit)}`);
+      }
+    }
+
+    if (plan.fieldsToInclude !== undefined && plan.fieldsToInclude !== null) {
+      if (!Array.isArray(plan.fieldsToInclude)) {
+        errors.push('"fieldsToInclude" must be an array of field names');
+      } else {
+        plan.fieldsToInclude.forEach((field: any, i: number) => {
+          if (typeof field !== 'string') {
+            errors.push(`fieldsToInclude[${i}] must be a string`);
+          } else if (!this.knownFields.has(field)) {
+            errors.push(`fieldsToInclude[${i}] references unknown field '${field}'`);
+          }
+        });
+      }
+    }
+
+    if (plan.relationship !== undefined && plan.relationship !== null && !this.relationships.has(plan.relationship)) {
+      errors.push(this.relationships.size > 0
+        ? `"relationship" must be one of: ${Array.from(this.relationships).join(', ')}`
+        : '"relationship" is not available: no declared relationship covers the selected datasets');
+    }
+
+    (['generatedCode', 'codeDescription', 'sql', 'explanation'] as const).forEach(key => {
+      if (plan[key] !== undefined && plan[key] !== null && typeof plan[key] !== 'string') {
+        errors.push(`"${key}" must be a string`);
+      }
+    });
+
+    if (plan.generatedCode && plan.sql) {
+      errors.push('Return either "generatedCode" or "sql", not both');
+    }
+
+    if (errors.some(e => e.includes('unknown field'))) {
+      errors.push(`Available fields: ${Array.from(this.knownFields).join(', ')}`);
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  private validateNode(node: any, path: string, errors: string[]) {
+    if (!node || typeof node !== 'object' || Array.isArray(node)) {
+      errors.push(`${path} must be a filter object or an and/or/not group`);
+      return;
+    }
+
+    if (isFilterGroup(node)) {
+      const keys = (['and', 'or', 'not'] as const).filter(key => node[key] !== undefined);
+      if (keys.length !== 1) {
+        errors.push(`${path} must have exactly one of "and", "or", "not"`);
+        return;
+      }
+      if (node.not !== undefined) {
+        this.validateNode(node.not, `${path}.not`, errors);
+        return;
+      }
+      const children = node.and ?? node.or;
+      if (!Array.isArray(children) || children.length === 0) {
+        errors.push(`${path}.${keys[0]} must be a non-empty array`);
+        return;
+      }
+      children.forEach((child: any, i: number) => this.validateNode(child, `${path}.${keys[0]}[${i}]`, errors));
+      return;
+    }
+
+    if (typeof node.field !== 'string' || !node.field) {
+      errors.push(`${path} is missing "field"`);
+    } else if (!this.knownFields.has(node.field)) {
+      errors.push(`${path} references unknown field '${node.field}'`);
+    }
+
+    if (!FILTER_OPERATORS.includes(node.operator)) {
+      errors.push(`${path} has unknown operator ${JSON.stringify(node.operator)}. Use one of: ${FILTER_OPERATORS.join(', ')}`);
+      return;
+    }
+
+    const operator = node.operator as FilterOperator;
+    if (NO_VALUE_OPERATORS.includes(operator)) {
+      return;
+    }
+
+    if (node.value === undefined || node.value === null) {
+      errors.push(`${path} operator "${operator}" requires a "value"`);
+    } else if (operator === 'between' && !filterRange(node.value)) {
+      errors.push(`${path} operator "between" requires a [min, max] value`);
+    } else if (LIST_OPERATORS.includes(operator) && filterList(node.value).length === 0) {
+      errors.push(`${path} operator "${operator}" requires a list value`);
+    }
+  }
+}
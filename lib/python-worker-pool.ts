@@ -0,0 +1,603 @@
+// Pool of long-lived sandboxed Python workers for Phase 2 code execution
+// Workers keep pandas imported and datasets loaded as DataFrames between requests; each job runs
+// in a forked copy of its worker, so changes generated code makes to pandas or globals die with it
+
+import { spawn, ChildProcessWithoutNullStreams } from 'child_process';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+
+export interface WorkerPoolSettings {
+  pythonPath: string;
+  workers: number; // Max concurrent workers
+  maxExecutionsPerWorker: number; // Worker is replaced after this many executions
+  maxCachedDatasets: number; // DataFrames kept per worker (least recently used are dropped)
+  timeoutMs: number;
+  cpuSeconds: number;
+  memoryMb: number;
+  maxOutputBytes: number;
+  disableNetwork: boolean;
+  isolateFilesystem: boolean;
+  restrictBuiltins: boolean;
+  allowedImports: string[];
+  blockedBuiltins: string[];
+  env: Record<string, string>;
+}
+
+// Dataset the code runs against. The full records are only sent when the worker
+// does not already hold this version; otherwise just the row/column selection is sent.
+export interface CachedDataSource {
+  name: string;
+  version: string;
+  records: any[];
+  rows: number[] | null; // null = all rows
+  columns: string[] | null; // null = all columns
+}
+
+export interface WorkerJob {
+  code: string;
+  data?: any[]; // Inline data, used when there is no cached source
+  source?: CachedDataSource;
+}
+
+export interface WorkerJobResult {
+  success: boolean;
+  result?: any;
+  error?: string;
+}
+
+interface WorkerResponse {
+  ok: boolean;
+  result?: any;
+  error?: string;
+  missing?: boolean; // Worker no longer holds the requested dataset version
+  recycle?: boolean; // Worker hit a resource limit, or ran code in its own process, and should be replaced
+  cached?: Record<string, string>;
+}
+
+// Stderr kept for crash reports
+const MAX_STDERR_BYTES = 64 * 1024;
+
+// Frames are a 4-byte big-endian length followed by a UTF-8 JSON body, in both directions
+const FRAME_HEADER_BYTES = 4;
+
+// Runs inside the sandbox. Reads request frames from stdin until EOF and answers each on stdout.
+const WORKER_SCRIPT = `
+import builtins, collections, json, os, shutil, signal, sys, traceback, types
+import pandas as pd
+import numpy as np
+
+settings = json.loads(sys.argv[1])
+work_dir = os.path.dirname(os.path.abspath(__file__))
+frames_in = sys.stdin.buffer
+frames_out = sys.stdout.buffer
+# print() output from generated code goes to stderr so stdout only carries frames
+sys.stdout = sys.stderr
+
+def read_frame():
+    header = frames_in.read(4)
+    if len(header) < 4:
+        return None
+    return json.loads(frames_in.read(int.from_bytes(header, 'big')))
+
+def write_frame(body):
+    data = body.encode('utf-8')
+    frames_out.write(len(data).to_bytes(4, 'big'))
+    frames_out.write(data)
+    frames_out.flush()
+
+if settings['disableNetwork']:
+    import socket
+    def _network_disabled(*args, **kwargs):
+        raise PermissionError('Network access is disabled in the sandbox')
+    socket.socket = _network_disabled
+    socket.create_connection = _network_disabled
+    socket.getaddrinfo = _network_disabled
+
+class ResourceLimitExceeded(Exception):
+    pass
+
+def _on_cpu_limit(signum, frame):
+    raise ResourceLimitExceeded('CPU limit of %ss exceeded' % settings['cpuSeconds'])
+
+try:
+    import resource
+    signal.signal(signal.SIGXCPU, _on_cpu_limit)
+    memory = settings['memoryMb'] * 1024 * 1024
+    resource.setrlimit(resource.RLIMIT_AS, (memory, memory))
+    resource.setrlimit(resource.RLIMIT_FSIZE, (0, 0))
+except (ImportError, ValueError, OSError, AttributeError):
+    resource = None  # Limits not supported on this platform
+
+def set_cpu_budget(seconds):
+    # RLIMIT_CPU counts the whole process lifetime, so each execution gets used + budget
+    if resource is None:
+        return
+    try:
+        usage = resource.getrusage(resource.RUSAGE_SELF)
+        used = usage.ru_utime + usage.ru_stime
+        soft = resource.RLIM_INFINITY if seconds is None else int(used + seconds) + 1
+        resource.setrlimit(resource.RLIMIT_CPU, (soft, resource.getrlimit(resource.RLIMIT_CPU)[1]))
+    except (ValueError, OSError):
+        pass
+
+# Submodules generated code may reach through the modules it is given. Other module attributes
+# (np.ctypeslib, pd.io, datetime.sys, json.codecs) and "_" names are left out of what it sees.
+EXPOSED_SUBMODULES = {
+    'pandas': ['api', 'arrays', 'errors', 'offsets', 'tseries'],
+    'numpy': ['char', 'fft', 'linalg', 'ma', 'polynomial', 'random'],
+}
+
+def public_view(name):
+    __import__(name)
+    module = sys.modules[name]
+    view = types.ModuleType(name)
+    for attr, value in vars(module).items():
+        if not attr.startswith('_') and not isinstance(value, types.ModuleType):
+            setattr(view, attr, value)
+    for attr in EXPOSED_SUBMODULES.get(name, []):
+        if hasattr(module, attr):  # Loads lazy submodules
+            setattr(view, attr, getattr(module, attr))
+    return view
+
+module_views = {name: public_view(name) for name in set(settings['allowedImports']) | {'json'}}
+
+if settings['restrictBuiltins']:
+    allowed_imports = set(settings['allowedImports'])
+    safe_builtins = {k: v for k, v in vars(builtins).items() if k not in set(settings['blockedBuiltins'])}
+    def _safe_import(name, globals=None, locals=None, fromlist=(), level=0):
+        parts = name.split('.')
+        if level != 0 or parts[0] not in allowed_imports or (len(parts) > 1 and parts[1] not in EXPOSED_SUBMODULES.get(parts[0], [])):
+            raise ImportError("import of '%s' is not allowed in the sandbox" % name)
+        module = __import__(name, globals, locals, fromlist, level)
+        # "from pandas.api import types" gets the submodule; everything else binds the top-level view
+        return module if fromlist and len(parts) > 1 else module_views[parts[0]]
+    safe_builtins['__import__'] = _safe_import
+else:
+    safe_builtins = builtins
+
+# Dataset name -> (version, DataFrame), least recently used first
+datasets = collections.OrderedDict()
+
+def load_frame(request):
+    source = request.get('source')
+    if source is None:
+        return pd.DataFrame(request.get('data') or [])
+
+    if 'records' in source:
+        datasets[source['name']] = (source['version'], pd.DataFrame(source['records']))
+        while len(datasets) > settings['maxCachedDatasets']:
+            datasets.popitem(last=False)
+    elif source['name'] not in datasets or datasets[source['name']][0] != source['version']:
+        return None
+
+    datasets.move_to_end(source['name'])
+    frame = datasets[source['name']][1]
+    if source.get('rows') is not None:
+        frame = frame.iloc[source['rows']]
+    if source.get('columns') is not None:
+        frame = frame[[c for c in source['columns'] if c in frame.columns]]
+    # Copy so generated code cannot modify the cached DataFrame
+    return frame.reset_index(drop=True).copy()
+
+def cached_versions():
+    return {name: entry[0] for name, entry in datasets.items()}
+
+def response_body(ok, **fields):
+    fields['ok'] = ok
+    fields['cached'] = cached_versions()
+    return json.dumps(fields)
+
+def respond(ok, **fields):
+    write_frame(response_body(ok, **fields))
+
+def run_code(code, df, **fields):
+    # Returns the response body for one run of generated code
+    namespace = {
+        '__builtins__': safe_builtins, '__name__': '__sandbox__', 'df': df,
+        'pd': module_views['pandas'], 'np': module_views['numpy'], 'json': module_views['json'],
+    }
+    exec(compile(code, 'generated_code.py', 'exec'), namespace)
+
+    if 'result' not in namespace:
+        raise NameError('Generated code did not assign a "result" variable')
+
+    result = json.dumps(namespace['result'], ensure_ascii=False)
+    if len(result.encode('utf-8')) > settings['maxOutputBytes']:
+        return response_body(False, error='Result exceeded the %s byte output limit' % settings['maxOutputBytes'], **fields)
+
+    # Result is already JSON - splice it in rather than encoding twice
+    return response_body(True, **fields)[:-1] + ', "result": %s}' % result
+
+# Opened now: there is no /dev once the filesystem is isolated
+devnull = os.open(os.devnull, os.O_RDWR)
+
+def start_child():
+    # The child must never read request frames or write to the frame stream
+    os.dup2(devnull, 0)
+    os.dup2(2, 1)
+    if resource is not None:
+        # A fresh process: CPU time starts at zero. Code that catches SIGXCPU is killed a second later.
+        try:
+            resource.setrlimit(resource.RLIMIT_CPU, (settings['cpuSeconds'], settings['cpuSeconds'] + 1))
+        except (ValueError, OSError):
+            pass
+
+def run_in_child(code, df):
+    # The fork shares the imported modules and cached DataFrames copy-on-write, so it starts warm,
+    # and whatever the code changes (pd.DataFrame methods, module state, cached frames) is discarded
+    read_end, write_end = os.pipe()
+    pid = os.fork()
+    if pid == 0:
+        os.close(read_end)
+        try:
+            start_child()
+            body = run_code(code, df)
+        except BaseException:
+            body = response_body(False, error=traceback.format_exc())
+        try:
+            with os.fdopen(write_end, 'wb') as pipe:
+                pipe.write(body.encode('utf-8'))
+            sys.stderr.flush()
+        finally:
+            os._exit(0)
+
+    os.close(write_end)
+    with os.fdopen(read_end, 'rb') as pipe:
+        body = pipe.read().decode('utf-8')
+    _, status = os.waitpid(pid, 0)
+    if body:
+        return body
+    if os.WIFSIGNALED(status):
+        stopped = 'signal %s' % os.WTERMSIG(status)
+        if os.WTERMSIG(status) in (signal.SIGKILL, signal.SIGXCPU):
+            stopped += ', CPU limit of %ss exceeded' % settings['cpuSeconds']
+    else:
+        stopped = 'exit code %s' % os.WEXITSTATUS(status)
+    return response_body(False, error='Generated code stopped without a result (%s)' % stopped)
+
+# Without fork (Windows), code runs in the worker itself and the worker is replaced after each job
+can_fork = hasattr(os, 'fork')
+
+def execute(request):
+    df = load_frame(request)
+    if df is None:
+        respond(False, missing=True)
+        return
+
+    if can_fork:
+        write_frame(run_in_child(request['code'], df))
+        return
+
+    set_cpu_budget(settings['cpuSeconds'])
+    try:
+        write_frame(run_code(request['code'], df, recycle=True))
+    finally:
+        set_cpu_budget(None)
+
+if settings['isolateFilesystem']:
+    # Runs as root of a user namespace. pandas and numpy are loaded, so from here on the worker and
+    # its jobs only see the worker's temp directory and cannot read server files such as .env
+    os.chroot(work_dir)
+    os.chdir('/')
+
+while True:
+    request = read_frame()
+    if request is None:
+        break
+    try:
+        execute(request)
+    except (ResourceLimitExceeded, MemoryError):
+        set_cpu_budget(None)
+        respond(False, error=traceback.format_exc(), recycle=True)
+    except BaseException:
+        respond(False, error=traceback.format_exc(), recycle=not can_fork)
+
+# stdin closed (server stopped): remove this worker's temp directory. An isolated worker can no
+# longer reach it by path; the server removes it when it stops the worker.
+if not settings['isolateFilesystem']:
+    shutil.rmtree(work_dir, ignore_errors=True)
+`;
+
+// Whether unprivileged user and network namespaces work here - checked once per process
+let namespaceSupport: Promise<boolean> | null = null;
+
+function canUseNamespaces(): Promise<boolean> {
+  if (!namespaceSupport) {
+    namespaceSupport = process.platform !== 'linux'
+      ? Promise.resolve(false)
+      : new Promise(resolve => {
+          const probe = spawn('unshare', ['--net', '--map-root-user', 'true'], { stdio: 'ignore' });
+          probe.on('error', () => resolve(false));
+          probe.on('close', (code) => resolve(code === 0));
+        });
+  }
+  return namespaceSupport;
+}
+
+/**
+ * A single long-lived Python process. Handles one job at a time.
+ */
+class PythonWorker {
+  private process: ChildProcessWithoutNullStreams;
+  private workDir: string;
+  private settings: WorkerPoolSettings;
+  private buffer = Buffer.alloc(0);
+  private stderr = '';
+  private cachedVersions: Record<string, string> = {};
+  private pending: { resolve: (response: WorkerResponse) => void; reject: (error: Error) => void } | null = null;
+  private exitError?: Error;
+  executions = 0;
+  alive = true;
+  needsRecycle = false;
+
+  private constructor(process: ChildProcessWithoutNullStreams, workDir: string, settings: WorkerPoolSettings) {
+    this.process = process;
+    this.workDir = workDir;
+    this.settings = settings;
+
+    process.stdout.on('data', (chunk: Buffer) => this.onData(chunk));
+    process.stderr.on('data', (chunk: Buffer) => {
+      this.stderr = (this.stderr + chunk.toString()).slice(-MAX_STDERR_BYTES);
+    });
+    process.stdin.on('error', () => {});
+    process.on('error', (error) => this.fail(error));
+    process.on('close', (exitCode, signal) => {
+      const reason = signal ? `signal ${signal}` : `exit code ${exitCode}`;
+      this.fail(new Error(`Python worker exited (${reason}): ${this.stderr.trim() || 'no output'}`));
+    });
+  }
+
+  /**
+   * Spawn a worker in its own temp directory with a stripped environment.
+   * Throws when filesystem isolation is enabled but the OS does not allow it.
+   */
+  static async start(settings: WorkerPoolSettings): Promise<PythonWorker> {
+    const namespaces = (settings.disableNetwork || settings.isolateFilesystem) && await canUseNamespaces();
+    if (settings.isolateFilesystem && !namespaces) {
+      throw new Error('Filesystem isolation needs unprivileged user namespaces (unshare on Linux), which are not available; ' +
+        'set sandbox.isolateFilesystem to false to run generated code without it');
+    }
+
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'chathero-worker-'));
+    const scriptFile = path.join(workDir, 'worker.py');
+    await fs.writeFile(scriptFile, WORKER_SCRIPT, 'utf-8');
+
+    const workerSettings = JSON.stringify({
+      cpuSeconds: settings.cpuSeconds,
+      memoryMb: settings.memoryMb,
+      maxOutputBytes: settings.maxOutputBytes,
+      maxCachedDatasets: settings.maxCachedDatasets,
+      disableNetwork: settings.disableNetwork,
+      isolateFilesystem: settings.isolateFilesystem,
+      restrictBuiltins: settings.restrictBuiltins,
+      allowedImports: settings.allowedImports,
+      blockedBuiltins: settings.blockedBuiltins,
+    });
+
+    const pythonArgs = ['-B', scriptFile, workerSettings];
+    // Root inside a user namespace may chroot; the network namespace has no interfaces but loopback
+    const unshareArgs = ['--map-root-user', ...(settings.disableNetwork ? ['--net'] : [])];
+    const [command, args] = namespaces
+      ? ['unshare', [...unshareArgs, settings.pythonPath, ...pythonArgs]]
+      : [settings.pythonPath, pythonArgs];
+
+    const env: Record<string, string> = { ...settings.env, TMPDIR: workDir };
+    const child = spawn(command, args, {
+      cwd: workDir,
+      env: env as NodeJS.ProcessEnv,
+      stdio: ['pipe', 'pipe', 'pipe'],
+      // Its own process group, so stopping the worker also stops the job it has forked
+      detached: process.platform !== 'win32',
+    });
+
+    return new PythonWorker(child, workDir, settings);
+  }
+
+  /**
+   * Run a job. Resends the full dataset if the worker reports it has dropped it from its cache.
+   */
+  async execute(job: WorkerJob): Promise<WorkerJobResult> {
+    this.executions++;
+    let response = await this.send(this.buildRequest(job, false));
+
+    if (response.missing && job.source) {
+      response = await this.send(this.buildRequest(job, true));
+    }
+
+    if (response.recycle) {
+      this.needsRecycle = true;
+    }
+
+    return response.ok
+      ? { success: true, result: response.result }
+      : { success: false, error: response.error || 'Unknown error' };
+  }
+
+  private buildRequest(job: WorkerJob, includeRecords: boolean): any {
+    if (!job.source) {
+      return { code: job.code, data: job.data || [] };
+    }
+
+    const { records, ...selection } = job.source;
+    const isCached = this.cachedVersions[job.source.name] === job.source.version;
+    return {
+      code: job.code,
+      source: includeRecords || !isCached ? { ...selection, records } : selection,
+    };
+  }
+
+  private send(request: any): Promise<WorkerResponse> {
+    if (!this.alive) {
+      return Promise.reject(this.exitError || new Error('Python worker is not running'));
+    }
+
+    return new Promise<WorkerResponse>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.fail(new Error(`Timed out after ${this.settings.timeoutMs}ms`));
+      }, this.settings.timeoutMs);
+
+      this.pending = {
+        resolve: (response) => {
+          clearTimeout(timer);
+          resolve(response);
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      };
+
+      const body = Buffer.from(JSON.stringify(request), 'utf-8');
+      const header = Buffer.alloc(FRAME_HEADER_BYTES);
+      header.writeUInt32BE(body.length, 0);
+      this.process.stdin.write(header);
+      this.process.stdin.write(body);
+    });
+  }
+
+  private onData(chunk: Buffer) {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    while (this.buffer.length >= FRAME_HEADER_BYTES) {
+      const length = this.buffer.readUInt32BE(0);
+
+      // The worker enforces the limit itself; this guards against a corrupted stream
+      if (length > this.settings.maxOutputBytes + MAX_STDERR_BYTES) {
+        this.fail(new Error(`Result exceeded the ${this.settings.maxOutputBytes} byte output limit`));
+        return;
+      }
+
+      if (this.buffer.length < FRAME_HEADER_BYTES + length) {
+        return;
+      }
+
+      const body = this.buffer.subarray(FRAME_HEADER_BYTES, FRAME_HEADER_BYTES + length).toString('utf-8');
+      this.buffer = this.buffer.subarray(FRAME_HEADER_BYTES + length);
+
+      const pending = this.pending;
+      this.pending = null;
+      try {
+        const response: WorkerResponse = JSON.parse(body);
+        this.cachedVersions = response.cached || {};
+        pending?.resolve(response);
+      } catch (error: any) {
+        this.fail(new Error(`Invalid response from Python worker: ${error.message}`));
+      }
+    }
+  }
+
+  /**
+   * Kill the worker and reject the job in flight, if any
+   */
+  private fail(error: Error) {
+    if (!this.exitError) this.exitError = error;
+    const pending = this.pending;
+    this.pending = null;
+    this.stop();
+    pending?.reject(error);
+  }
+
+  stop() {
+    if (!this.alive) return;
+    this.alive = false;
+    try {
+      process.kill(-this.process.pid!, 'SIGKILL');
+    } catch {
+      this.process.kill('SIGKILL');
+    }
+    fs.rm(this.workDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+export class PythonWorkerPool {
+  private settings: WorkerPoolSettings;
+  private idle: PythonWorker[] = [];
+  private running = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(settings: WorkerPoolSettings) {
+    this.settings = settings;
+  }
+
+  /**
+   * Run a job on an idle worker, starting one if the pool has room or waiting otherwise.
+   * Workers are replaced after maxExecutionsPerWorker jobs, on timeout, on crash
+   * and after hitting a CPU or memory limit.
+   */
+  async execute(job: WorkerJob): Promise<WorkerJobResult> {
+    const worker = await this.acquire();
+
+    try {
+      return await worker.execute(job);
+    } catch (error: any) {
+      return { success: false, error: error.message || 'Python execution failed' };
+    } finally {
+      this.release(worker);
+    }
+  }
+
+  /**
+   * Stop all idle workers. Busy workers stop when their job finishes.
+   */
+  shutdown() {
+    this.settings = { ...this.settings, maxExecutionsPerWorker: 0 };
+    this.idle.forEach(worker => worker.stop());
+    this.idle = [];
+  }
+
+  private async acquire(): Promise<PythonWorker> {
+    while (true) {
+      const worker = this.idle.pop();
+      if (worker) {
+        if (worker.alive) {
+          this.running++;
+          return worker;
+        }
+        continue;
+      }
+
+      if (this.running < Math.max(1, this.settings.workers)) {
+        this.running++;
+        try {
+          return await PythonWorker.start(this.settings);
+        } catch (error) {
+          this.running--;
+          this.wakeNext();
+          throw error;
+        }
+      }
+
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+  }
+
+  private release(worker: PythonWorker) {
+    this.running--;
+
+    if (!worker.alive || worker.needsRecycle || worker.executions >= this.settings.maxExecutionsPerWorker) {
+      worker.stop();
+    } else {
+      this.idle.push(worker);
+    }
+
+    this.wakeNext();
+  }
+
+  private wakeNext() {
+    const next = this.waiting.shift();
+    if (next) next();
+  }
+}
+
+// One pool per process, rebuilt when the sandbox settings change
+let sharedPool: { key: string; pool: PythonWorkerPool } | null = null;
+
+export function getPythonWorkerPool(settings: WorkerPoolSettings): PythonWorkerPool {
+  const key = JSON.stringify(settings);
+  if (!sharedPool || sharedPool.key !== key) {
+    sharedPool?.pool.shutdown();
+    sharedPool = { key, pool: new PythonWorkerPool(settings) };
+  }
+  return sharedPool.pool;
+}
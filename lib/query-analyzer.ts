@@ -1,18 +1,29 @@
 // AI-powered query analyzer that determines how to process data
 import { AIAdapter } from './adapters/ai.adapter';
 import { ProjectConfig } from './config';
+import { extractJson } from './json-repair';
+import { FilterNode, RetryContext } from './types';
+import { collectFilterFields } from './filter-engine';
+import { PlanValidator } from './plan-validator';
+import { AvailableRelationship, describeRelationship } from './relationships';
+import { sqlTableName } from './sql-executor';
 
 export interface QueryAnalysisResult {
-  filters?: Array<{
-    field: string;
-    operator: 'equals' | 'contains' | 'greater_than' | 'less_than' | 'between';
-    value: any;
-  }>;
+  filters?: FilterNode[];
   limit?: number;
   fieldsToInclude?: string[];
   generatedCode?: string;
   codeDescription?: string;
+  sql?: string; // Read-only DuckDB query, alternative to generatedCode
+  relationship?: string; // Declared relationship whose joined rows Phase 2 works on
   explanation: string;
+  planValidation?: PlanValidationOutcome;
+}
+
+// How the plan got past validation: as returned, after one repair round-trip, or not at all
+export interface PlanValidationOutcome {
+  status: 'valid' | 'repaired' | 'fallback';
+  errors: string[];
 }
 
 export class QueryAnalyzer {
@@ -27,7 +38,10 @@ export class QueryAnalyzer {
   /**
    * Analyze a user question using AI to determine how to process the data
    */
-  async analyze(question: string, dataSample: any[], datasetReadmes?: Record<string, string>, modelOverride?: string, retryContext?: { previousCode: string; error: string; attempt: number }, conversationHistory?: Array<{role: string; content: string}>): Promise<QueryAnalysisResult> {
+  async analyze(question: string, dataSample: any[], datasetReadmes?: Record<string, string>, modelOverride?: string, retryContext?: RetryContext, conversationHistory?: Array<{role: string; content: string}>, sqlTables?: Record<string, string[]>, relationships?: AvailableRelationship[], totalRecords?: number): Promise<QueryAnalysisResult> {
+    // dataSample is a preview for adapters that read at the source; totalRecords is the full count
+    const recordCount = totalRecords ?? dataSample.length;
+
     // Check if multiple datasets are present
     const hasMultipleDatasets = dataSample.length > 0 && dataSample.some(record => record._dataset_source);
     const uniqueDatasets = Array.from(new Set(dataSample.map(r => r._dataset_source).filter(Boolean)));
@@ -40,7 +54,7 @@ Available datasets: ${uniqueDatasets.join(', ')}
 You can filter by dataset using the '_dataset_source' field.
 
 ⚠️ MULTI-DATASET OPTIMIZATION:
-With ${dataSample.length} total records from ${uniqueDatasets.length} datasets, Phase 3 will receive a LARGE amount of data.
+With ${recordCount} total records from ${uniqueDatasets.length} datasets, Phase 3 will receive a LARGE amount of data.
 If the user's question only needs data from ONE dataset, add a filter for _dataset_source to reduce data size.
 If the user's question needs correlation between datasets (e.g., "launches by president"), return NO filters - Phase 3 needs all data.`
       : '';
@@ -63,7 +77,21 @@ ${uniqueDatasets.length >= 2 ? `- "show ${uniqueDatasets[1]}" → {"operation":
 IMPORTANT: When the user mentions a specific dataset name (${uniqueDatasets.map(d => `"${d}"`).join(', ')}), you MUST add a filter for _dataset_source to isolate that dataset!`
       : '';
 
-    const retryInstructions = retryContext ? `
+    const retryInstructions = retryContext ? (retryContext.previousSql ? `
+⚠️ RETRY ATTEMPT ${retryContext.attempt}/2
+
+Your previous SQL query FAILED with this error:
+${retryContext.error}
+
+Previous SQL that failed:
+\`\`\`sql
+${retryContext.previousSql}
+\`\`\`
+
+Please generate a CORRECTED query. Use ONLY the tables and columns listed under SQL QUERIES, quote column names containing spaces, dots or capitals with double quotes, and cast text dates with CAST(col AS DATE) before date functions.
+
+IMPORTANT: Generate a NEW, CORRECTED query. Do not repeat the same mistake!
+` : retryContext.previousCode ? `
 ⚠️ RETRY ATTEMPT ${retryContext.attempt}/2
 
 Your previous code FAILED with this error:
@@ -81,7 +109,43 @@ Please generate CORRECTED code that fixes this error. Common fixes:
 - Ensure correct data types
 
 IMPORTANT: Generate NEW, CORRECTED code. Do not repeat the same mistake!
-` : '';
+` : `
+⚠️ RETRY ATTEMPT ${retryContext.attempt}/2
+
+Your previous filters FAILED with this error:
+${retryContext.error}
+
+Previous filters:
+${JSON.stringify(retryContext.previousFilters || [], null, 2)}
+
+Please return CORRECTED filters. Use ONLY field names that exist in the schema and sample data below (case-sensitive).
+`) : '';
+
+    // SQL mode: the selected datasets are available as DuckDB tables
+    const sqlInfo = sqlTables && Object.keys(sqlTables).length > 0
+      ? `SQL QUERIES (preferred for counting, aggregation and grouping):
+Instead of "generatedCode" you may return a single read-only "sql" query. It runs in DuckDB against these tables (one per dataset, ALL records - filters are not applied, put conditions in WHERE):
+${Object.entries(sqlTables).map(([table, columns]) => `- ${table}(${columns.map(c => /^[a-z_][a-z0-9_]*$/.test(c) ? c : `"${c}"`).join(', ')})`).join('\n')}
+- Only SELECT / WITH queries; no INSERT, UPDATE, DDL, table functions or file access
+- Use standard PostgreSQL-compatible syntax; cast text dates with CAST(col AS DATE)
+- Return either "sql" or "generatedCode", never both
+- Example: "count by category" → {"filters": [], "fieldsToInclude": [], "sql": "SELECT category, COUNT(*) AS count FROM ${Object.keys(sqlTables)[0]} GROUP BY category ORDER BY count DESC", "explanation": "Count records per category"}
+
+`
+      : '';
+
+    // Declared relationships between the selected datasets, joined in Phase 2 when the plan names one
+    const relationshipInfo = relationships && relationships.length > 0
+      ? `DECLARED RELATIONSHIPS (preferred for questions that combine the datasets):
+Set "relationship" to one of these names and Phase 2 joins the datasets for you. Filters, "fieldsToInclude", "generatedCode" (df) and "sql" then work on the joined rows: one row per matching pair of records, with the fields listed.
+${relationships.map(({ relationship, fields }) => `- ${relationship.name}: ${describeRelationship(relationship)}${relationship.description ? `\n  ${relationship.description}` : ''}
+  Joined fields: ${fields.join(', ')}${sqlTables ? `\n  SQL table: ${sqlTableName(relationship.name)} (the only table available to "sql" when "relationship" is set)` : ''}`).join('\n')}
+- Joined rows have no _dataset_source field and need no date correlation in code - the join already matched the records
+- Omit "relationship" when the question needs only one dataset
+- Example: "list ${relationships[0].relationship.to} with their ${relationships[0].relationship.from}" → {"relationship": "${relationships[0].relationship.name}", "filters": [], "limit": 100, "fieldsToInclude": ${JSON.stringify(relationships[0].fields.slice(0, 3))}, "explanation": "Join ${relationships[0].relationship.from} with ${relationships[0].relationship.to}"}
+
+`
+      : '';
 
     const conversationContext = conversationHistory && conversationHistory.length > 0
       ? `\n\n⚠️ CONVERSATION HISTORY - CRITICAL FOR CONTEXT:\n${conversationHistory.map(msg => `${msg.role}: ${msg.content}`).join('\n')}\n\n🔴 IMPORTANT: The current user question MUST be interpreted in the context of the conversation above.\n- The current question often modifies or builds upon the previous query\n- If previous messages discussed a specific metric or entity, the current question likely continues that topic\n- Phrases like "by X instead of Y" or "what about Z" are modifications to the previous query, not new queries\n- Always preserve the core intent (e.g., if asking about orders, keep it about orders even if changing grouping)\n\nExample patterns:\n  Previous: "How many X by Y?"\n  Current: "By Z instead of Y" → Same metric (X), different grouping (Z instead of Y)\n  \n  Previous: "Show me category A"\n  Current: "What about B?" → Switch from category A to category B, same type of query`
@@ -101,7 +165,7 @@ ${this.projectConfig.dataSchema.numericFields?.map(f => `- ${f.name} (numeric):
 Primary date field: ${this.projectConfig.dataSchema.primaryDateField}
 ${hasMultipleDatasets ? '- _dataset_source (categorical): Source dataset name' : ''}
 
-Sample data (first 3 records):
+Sample data (first 3 of ${recordCount} records):
 ${JSON.stringify(dataSample.slice(0, 3), null, 2)}
 
 Your task: Determine what filters (if any) should be applied to get the relevant data for answering the question.
@@ -109,16 +173,36 @@ You MUST also specify which fields are needed - this significantly reduces data
 
 Return a JSON object:
 {
-  "filters": [{"field": "field_name", "operator": "equals|contains|greater_than|less_than", "value": "value"}],
+  "filters": [{"field": "field_name", "operator": "equals|not_equals|contains|starts_with|greater_than|less_than|between|in|not_in|is_null|not_null|regex", "value": "value"}],
   "limit": 100,
   "fieldsToInclude": ["field1", "field2"],
   "generatedCode": "optional JavaScript code for deterministic operations",
-  "codeDescription": "optional description of what the code does",
+  "codeDescription": "optional description of what the code does",${sqlTables ? `
+  "sql": "optional read-only SQL query - use INSTEAD of generatedCode when SQL can answer the question",` : ''}${relationshipInfo ? `
+  "relationship": "optional name of a declared relationship - work on its joined rows",` : ''}
   "explanation": "What data is needed and why"
 }
 
 CRITICAL: The "fieldsToInclude" field is REQUIRED in every response.
 
+FILTER OPERATORS (top-level filters are ANDed together):
+- "equals" / "not_equals": exact match; numbers and dates are compared by value ("2024" matches 2024)
+- "contains" / "starts_with": case-insensitive text match
+- "greater_than" / "less_than": strictly after/before; works for numbers and dates
+- "between": inclusive range, value is [min, max] (e.g. ["2020-01-01", "2020-12-31"])
+- "in" / "not_in": value is a list (e.g. ["Falcon 9", "Falcon Heavy"])
+- "is_null" / "not_null": missing or empty values, no "value" needed
+- "regex": case-insensitive regular expression
+- Date fields accept partial dates: "2024" is the whole year, "2024-03" the whole month
+- Filter "field" MUST be an exact field name from the schema - unknown fields are rejected
+
+BOOLEAN GROUPS - use these instead of generatedCode for OR / NOT conditions:
+- {"or": [filter, filter, ...]}: matches if ANY filter inside matches
+- {"and": [filter, filter, ...]}: matches if ALL filters inside match
+- {"not": filter}: matches if the filter inside does NOT match
+- Groups can be nested and mixed with plain filters, e.g. "failed launches that were Falcon Heavy or in 2024" →
+  "filters": [{"field": "outcome", "operator": "equals", "value": "Failure"}, {"or": [{"field": "vehicle", "operator": "equals", "value": "Falcon Heavy"}, {"field": "launch_date", "operator": "equals", "value": "2024"}]}]
+
 ⚠️ TOKEN LIMIT WARNING: Each field increases token usage significantly!
 - With 500 records × 21 fields = ~78K tokens (EXCEEDS 30K TPM LIMIT)
 - With 500 records × 6 fields = ~20K tokens (safe)
@@ -188,8 +272,9 @@ CODE REQUIREMENTS:
 - Output: Must create "result" variable containing a list of dictionaries
 - NEVER convert result to CSV, JSON strings, or other formats - always return list of dicts
 - If user asks for CSV/JSON/etc format, ignore the format request in code - Phase 3 will handle formatting
-- Available imports: pandas (as pd), numpy (as np)
-- NO file I/O, NO network access, NO subprocess, NO imports beyond pandas/numpy
+- Available imports: pandas (as pd), numpy (as np), math, datetime
+- NO file I/O, NO network access, NO subprocess, NO imports beyond pandas/numpy/math/datetime
+- NO eval/exec/open/getattr, NO df.eval()/pd.eval()/df.query(), NO file reads or writes (pd.read_*, df.to_csv and other to_* writers, np.load/np.save), NO dunder attributes (e.g. __class__) - code using them is rejected
 - Keep code concise and readable
 - pandas automatically handles date parsing with pd.to_datetime()
 
@@ -284,7 +369,7 @@ CODE EXAMPLE for temporal correlation:
   "fieldsToInclude": ["_dataset_source", "name", "transaction_date", "start_date", "end_date"]
 }
 
-🔍 SELF-VERIFICATION CHECKLIST (review before submitting):
+${relationshipInfo}${sqlInfo}🔍 SELF-VERIFICATION CHECKLIST (review before submitting):
 Before returning your analysis, verify:
 1. ✅ All fields in "generatedCode" are included in "fieldsToInclude"
 2. ✅ Date parsing uses pd.to_datetime() on the correct DataFrames (the ones you'll actually use)
@@ -318,27 +403,52 @@ Important:
 - Return ONLY valid JSON, no other text.`;
 
     try {
-      const response = await this.aiAdapter.chat(question, {
+      const aiContext = {
         system_instruction: systemPrompt,
         require_json: true,
         model: modelOverride, // Use more capable model if provided
-      });
+      };
+      const validator = PlanValidator.fromProject(this.projectConfig, dataSample, relationships);
+
+      const response = await this.aiAdapter.chat(question, aiContext);
+      let { plan, errors } = this.parsePlan(response, validator);
+      let planValidation: PlanValidationOutcome = { status: 'valid', errors: [] };
+
+      // Invalid plan: send the errors back to the model once before giving up
+      if (errors.length > 0) {
+        console.warn(`Phase 1 plan failed validation: ${errors.join('; ')}. Requesting a repaired plan.`);
+        const repairResponse = await this.aiAdapter.chat(this.buildRepairMessage(question, response, errors), aiContext);
+        const repaired = this.parsePlan(repairResponse, validator);
+
+        if (repaired.errors.length > 0) {
+          console.warn(`Phase 1 repaired plan still invalid: ${repaired.errors.join('; ')}. Falling back to all data.`);
+          return {
+            filters: [],
+            explanation: 'Fallback: returning all available data (query plan failed validation)',
+            planValidation: { status: 'fallback', errors: repaired.errors },
+          };
+        }
+
+        plan = repaired.plan;
+        planValidation = { status: 'repaired', errors };
+      }
 
-      // Parse JSON response
-      const cleanResponse = response.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-      const analysis: QueryAnalysisResult = JSON.parse(cleanResponse);
+      const analysis = plan as QueryAnalysisResult;
+      analysis.planValidation = planValidation;
 
       // Ensure fieldsToInclude is always present - if missing, extract all field names from sample
+      // (or every joined field when the plan works on a relationship)
       if (!analysis.fieldsToInclude || analysis.fieldsToInclude.length === 0) {
         console.warn('Phase 1 did not specify fieldsToInclude - using all fields as fallback');
-        const allFields = dataSample.length > 0 ? Object.keys(dataSample[0]) : [];
+        const joined = relationships?.find(r => r.relationship.name === analysis.relationship);
+        const allFields = joined ? [...joined.fields] : dataSample.length > 0 ? Object.keys(dataSample[0]) : [];
         analysis.fieldsToInclude = allFields;
       }
 
       // CRITICAL FIX: Ensure all fields used in filters are also in fieldsToInclude
       // Otherwise Phase 2 will filter data but then strip out the filter field, causing Phase 3 to fail
       if (analysis.filters && analysis.filters.length > 0) {
-        const filterFields = analysis.filters.map(f => f.field);
+        const filterFields = collectFilterFields(analysis.filters);
         const missingFields = filterFields.filter(f => !analysis.fieldsToInclude!.includes(f));
 
         if (missingFields.length > 0) {
@@ -368,7 +478,40 @@ Important:
       return {
         filters: [],
         explanation: 'Fallback: returning all available data',
+        planValidation: {
+          status: 'fallback',
+          errors: [error instanceof Error ? error.message : String(error)],
+        },
       };
     }
   }
+
+  /**
+   * Parse a model response and validate it against the plan schema
+   */
+  private parsePlan(response: string, validator: PlanValidator): { plan: any; errors: string[] } {
+    let plan: any;
+    try {
+      // Repairs free-text output from models without JSON mode
+      plan = extractJson(response);
+    } catch (error) {
+      return { plan: null, errors: [`Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+    }
+    return { plan, errors: validator.validate(plan).errors };
+  }
+
+  /**
+   * Build the follow-up message asking the model to fix an invalid plan
+   */
+  private buildRepairMessage(question: string, previousResponse: string, errors: string[]): string {
+    return `${question}
+
+Your previous query plan for this question was INVALID:
+${previousResponse}
+
+Validation errors:
+${errors.map(e => `- ${e}`).join('\n')}
+
+Return the complete CORRECTED plan as a JSON object. Use only field names and operators listed in the instructions.`;
+  }
 }
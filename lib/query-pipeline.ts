@@ -0,0 +1,934 @@
+// Five-phase query pipeline shared by /api/chat and /api/chat-stream
+// Plan → Validate → Wrangle → Optimize → Answer
+
+import crypto from 'crypto';
+import { AppConfig, ProjectConfig, loadProjectConfig } from './config';
+import { AIAdapter } from './adapters/ai.adapter';
+import { createAIAdapter } from './adapters/ai-adapter-factory';
+import { createDataAdapter, getDatasetVersion } from './adapters/adapter-factory';
+import { DataAdapter } from './adapters/data.adapter';
+import { QueryAnalyzer, QueryAnalysisResult, PlanValidationOutcome } from './query-analyzer';
+import { CodeValidator, CodeValidationResult } from './code-validator';
+import { CodeExecutor, CodeExecutionResult } from './code-executor';
+import { SqlExecutor, SqlTableColumns, describeSqlTables, sqlTableColumns, sqlTableName } from './sql-executor';
+import { SqlValidator } from './sql-validator';
+import { CachedDataSource } from './python-worker-pool';
+import { FilterEngine, collectFilterFields } from './filter-engine';
+import { DiscoveredFieldType, DiscoveredSchema, SchemaDiscovery } from './schema-discovery';
+import { getDatasetCache } from './dataset-cache';
+import { AvailableRelationship, Relationship, describeRelationship, loadRelationships, relationshipsFor } from './relationships';
+import { joinRecords, joinedFields } from './join-engine';
+import { ConversationMessage, RetryContext } from './types';
+
+export type PipelinePhaseId = 'phase1' | 'phase1.5' | 'phase2' | 'phase2.5' | 'phase3';
+export type PipelinePhaseStatus = 'active' | 'completed' | 'warning' | 'error';
+
+export interface PipelinePhaseEvent {
+  id: PipelinePhaseId;
+  status: PipelinePhaseStatus;
+  attempt?: number;
+  data?: any;
+  error?: string;
+  samplingApplied?: boolean;
+}
+
+export type PipelinePhaseHandler = (event: PipelinePhaseEvent) => void;
+
+export interface PhaseDetails {
+  phase1: {
+    filters: any[];
+    fieldsToInclude: string[];
+    generatedCode?: string;
+    codeDescription?: string;
+    sql?: string;
+    relationship?: string;
+    explanation: string;
+    limit?: number;
+    attempts: number;
+    planValidation?: PlanValidationOutcome;
+  };
+  phase1_5: {
+    approved: boolean;
+    reason: string;
+    risks: string[];
+    checkedBy?: 'static' | 'ai';
+    attempts: number;
+  } | null;
+  phase2: {
+    inputRecords: number;
+    joinedRecords?: number; // Rows produced by the relationship join, when the plan used one
+    outputRecords: number;
+    filtersApplied: number;
+    codeExecuted: boolean;
+    sqlExecuted: boolean;
+    executionError: string | null;
+    attempts: number;
+  };
+  phase2_5: {
+    recordsToPhase3: number;
+    totalRecords: number;
+    samplingApplied: boolean;
+  };
+  phase3: {
+    responseLength: number;
+    datasets: string[];
+  };
+}
+
+export interface QueryPipelineResult {
+  response: string;
+  phaseDetails: PhaseDetails;
+}
+
+export interface QueryPipelineOptions {
+  requestId: string;
+  config: AppConfig;
+  projectConfig: ProjectConfig;
+  selectedDatasets?: string[];
+  logger: any;
+  onPhase?: PipelinePhaseHandler;
+}
+
+interface WrangleResult {
+  data: any[];
+  rows: number[] | null; // Positions of the selected records in rawData, null = all
+  columns: string[] | null; // Fields kept, null = all
+}
+
+// Joined rows of a relationship, computed once per question
+interface JoinedData {
+  relationship: Relationship;
+  records: any[];
+  schema: DiscoveredSchema;
+  filterEngine: FilterEngine;
+  version: string;
+}
+
+interface PlannedRead {
+  records: any[];
+  readKey: string | null; // Identifies a partial read (projection or pushdown), null = every record
+  remaining: QueryAnalysisResult; // Plan with only the filters and limit still to apply in memory
+}
+
+// Retry budget for planning, filter validation and code execution
+const MAX_RETRIES = 2;
+
+// Safety backstop: Enforce maximum field count to prevent token overflow
+// With 500 records, ~10 fields max = 50K tokens total (safe buffer under 30K TPM limit)
+const MAX_FIELDS = 10;
+
+// Rows read for Phase 1 from adapters with column projection; Phase 2 reads the needed columns in full
+const PLANNING_PREVIEW_ROWS = 100;
+
+// OpenAI has a 30,000 TPM limit. With ~8 tokens per record, we can safely send ~500 records max.
+const PHASE_3_MAX_RECORDS = 500;
+
+export class QueryPipeline {
+  private requestId: string;
+  private config: AppConfig;
+  private projectConfig: ProjectConfig;
+  private selectedDatasets?: string[];
+  private logger: any;
+  private onPhase?: PipelinePhaseHandler;
+
+  constructor(options: QueryPipelineOptions) {
+    this.requestId = options.requestId;
+    this.config = options.config;
+    this.projectConfig = options.projectConfig;
+    this.selectedDatasets = options.selectedDatasets;
+    this.logger = options.logger;
+    this.onPhase = options.onPhase;
+  }
+
+  private emit(event: PipelinePhaseEvent) {
+    if (this.onPhase) {
+      this.onPhase(event);
+    }
+  }
+
+  private async log(phase: string, data: any) {
+    await this.logger.chatQuery(this.requestId, phase, data);
+  }
+
+  /**
+   * Run all phases for a user question and return the answer with phase details for the UI
+   */
+  async run(message: string, conversationHistory: ConversationMessage[] = []): Promise<QueryPipelineResult> {
+    // Initialize data adapter with all selected datasets
+    const dataAdapter = await createDataAdapter(this.config.dataSource, this.selectedDatasets);
+
+    // Adapters that read at the source (Parquet, SQLite, databases) are planned on a preview with exact field
+    // types; Phase 2 then reads only the columns the plan needs, and pushes filters down when the adapter can.
+    // In-memory adapters (JSON, CSV) are planned on every record, and Phase 2 filters those directly.
+    const fieldTypes = dataAdapter.count && dataAdapter.getFieldTypes ? await dataAdapter.getFieldTypes() : undefined;
+    const rawData: any[] = await dataAdapter.getData(fieldTypes ? { limit: PLANNING_PREVIEW_ROWS } : undefined);
+    const totalRecords = fieldTypes ? await dataAdapter.count!() : rawData.length;
+    // In-memory adapters keep the schema of every record cached alongside the data
+    const schema = fieldTypes || !dataAdapter.getSchema
+      ? SchemaDiscovery.discover(rawData, fieldTypes)
+      : await dataAdapter.getSchema();
+
+    const aiAdapter = createAIAdapter(this.config.ai, this.projectConfig, this.logger);
+    const datasetReadmes = await this.loadDatasetReadmes();
+    const dateFields = [this.projectConfig.dataSchema.primaryDateField];
+    const filterEngine = new FilterEngine(schema, dateFields);
+    const datasetVersion = await getDatasetVersion(this.config.dataSource, this.selectedDatasets);
+    const sourceName = (this.selectedDatasets || [this.config.dataSource.defaultDataset]).join('+');
+
+    // SQL mode: Phase 1 may plan a DuckDB query over one table per dataset
+    // (tables read at the source take their columns from the schema rather than the preview rows)
+    const sqlTables = this.config.sql?.enabled === false
+      ? undefined
+      : fieldTypes
+        ? { [sqlTableName(sourceName)]: schema.fields.map(field => field.name) }
+        : describeSqlTables(rawData, sourceName);
+
+    // Declared relationships between the selected datasets, which Phase 1 may plan on by name
+    const relationships = await this.loadAvailableRelationships();
+    const joins = new Map<string, JoinedData>();
+
+    // Retry loop for code generation and execution
+    let attempt = 0;
+    let queryAnalysis!: QueryAnalysisResult;
+    let codeValidation: CodeValidationResult | null = null;
+    let processedData: any;
+    let executionError: string | null = null;
+    let retryContext: RetryContext | undefined;
+
+    while (attempt < MAX_RETRIES) {
+      attempt++;
+
+      queryAnalysis = await this.plan(aiAdapter, message, rawData, totalRecords, datasetReadmes, conversationHistory, attempt, retryContext, sqlTables, relationships);
+      codeValidation = await this.validate(aiAdapter, queryAnalysis, attempt, sqlTables);
+
+      this.emit({ id: 'phase2', status: 'active', attempt });
+
+      let joined: JoinedData | undefined;
+      if (queryAnalysis.relationship) {
+        try {
+          joined = await this.join(queryAnalysis.relationship, relationships, joins, datasetVersion, attempt);
+        } catch (error) {
+          const joinError = `Join '${queryAnalysis.relationship}' failed: ${error instanceof Error ? error.message : String(error)}`;
+          await this.log('PHASE_2_JOIN_FAILED', { relationship: queryAnalysis.relationship, error: joinError, attempt, retrying: attempt < MAX_RETRIES });
+          executionError = joinError;
+          this.emit({ id: 'phase2', status: 'warning', attempt, error: joinError });
+          if (attempt < MAX_RETRIES) {
+            retryContext = {
+              previousCode: '',
+              previousFilters: queryAnalysis.filters,
+              error: `${joinError}. Plan without "relationship".`,
+              attempt: attempt + 1
+            };
+            continue;
+          }
+          // Last attempt: answer from the combined datasets; code and SQL written for the joined rows cannot run
+          queryAnalysis.relationship = undefined;
+          queryAnalysis.generatedCode = undefined;
+          queryAnalysis.sql = undefined;
+        }
+      }
+
+      // Filters referencing unknown fields go back to the planner while retries remain
+      const filterErrors = await this.checkFilters(joined ? joined.filterEngine : filterEngine, queryAnalysis, attempt, attempt < MAX_RETRIES);
+      if (filterErrors && attempt < MAX_RETRIES) {
+        executionError = filterErrors;
+        this.emit({ id: 'phase2', status: 'warning', attempt, error: filterErrors });
+        retryContext = {
+          previousCode: '',
+          previousFilters: queryAnalysis.filters,
+          error: filterErrors,
+          attempt: attempt + 1
+        };
+        continue;
+      }
+
+      const { records, readKey, remaining } = joined
+        ? { records: joined.records, readKey: null, remaining: queryAnalysis }
+        : fieldTypes
+          ? await this.readPlannedData(dataAdapter, queryAnalysis, fieldTypes)
+          : { records: rawData, readKey: null, remaining: queryAnalysis };
+      const { data: filteredData, rows, columns } = await this.wrangle(joined ? joined.filterEngine : filterEngine, remaining, records, attempt);
+
+      processedData = filteredData;
+      executionError = null;
+
+      // Warm workers and the SQL engine keep the records loaded, so only the selection is sent
+      const source: CachedDataSource = {
+        name: joined ? joined.relationship.name : sourceName,
+        version: joined ? joined.version : readKey ? `${datasetVersion}#${readKey}` : datasetVersion,
+        records,
+        rows,
+        columns
+      };
+
+      let executionResult: CodeExecutionResult;
+      if (queryAnalysis.sql && codeValidation?.approved) {
+        const columns = joined
+          ? { [sqlTableName(joined.relationship.name)]: joined.schema.fields }
+          : sqlTableColumns(sqlTables || {}, schema);
+        executionResult = await this.executeSql(queryAnalysis.sql, source, attempt, columns);
+      } else if (queryAnalysis.generatedCode && codeValidation?.approved) {
+        executionResult = await this.executeCode(queryAnalysis.generatedCode, filteredData, source, attempt);
+      } else {
+        // No code to execute, break out
+        this.emit({ id: 'phase2', status: 'completed', attempt });
+        break;
+      }
+
+      if (executionResult.success) {
+        processedData = executionResult.result;
+        this.emit({ id: 'phase2', status: 'completed', attempt });
+        // Success! Break out of retry loop
+        break;
+      }
+
+      executionError = executionResult.error || 'Unknown error';
+      this.emit({ id: 'phase2', status: 'warning', attempt, error: executionError });
+
+      if (attempt < MAX_RETRIES) {
+        // Set up retry context and return to Phase 1 with the error
+        retryContext = queryAnalysis.sql ? {
+          previousCode: '',
+          previousSql: queryAnalysis.sql,
+          error: executionError,
+          attempt: attempt + 1
+        } : {
+          previousCode: queryAnalysis.generatedCode || '',
+          error: executionError,
+          attempt: attempt + 1
+        };
+        continue;
+      }
+
+      // No more retries, fall back to unprocessed data
+      processedData = filteredData;
+    }
+
+    await this.log('PHASE_2_RESULT', {
+      filteredRecords: Array.isArray(processedData) ? processedData.length : 1,
+      originalRecords: totalRecords
+    });
+
+    const { dataForPhase3, samplingApplied } = await this.optimize(processedData);
+
+    const joined = queryAnalysis.relationship ? joins.get(queryAnalysis.relationship) : undefined;
+    const response = await this.answer(
+      aiAdapter, message, conversationHistory, queryAnalysis, processedData, dataForPhase3, samplingApplied, totalRecords, joined?.relationship
+    );
+
+    const phaseDetails: PhaseDetails = {
+      phase1: {
+        filters: queryAnalysis.filters || [],
+        fieldsToInclude: queryAnalysis.fieldsToInclude || [],
+        generatedCode: queryAnalysis.generatedCode,
+        codeDescription: queryAnalysis.codeDescription,
+        sql: queryAnalysis.sql,
+        relationship: queryAnalysis.relationship,
+        explanation: queryAnalysis.explanation,
+        limit: queryAnalysis.limit,
+        attempts: attempt,
+        planValidation: queryAnalysis.planValidation
+      },
+      phase1_5: codeValidation ? {
+        approved: codeValidation.approved,
+        reason: codeValidation.reason,
+        risks: codeValidation.risks || [],
+        checkedBy: codeValidation.checkedBy,
+        attempts: attempt
+      } : null,
+      phase2: {
+        inputRecords: totalRecords,
+        joinedRecords: joined?.records.length,
+        outputRecords: Array.isArray(processedData) ? processedData.length : 1,
+        filtersApplied: queryAnalysis.filters?.length || 0,
+        codeExecuted: !!queryAnalysis.generatedCode && !!codeValidation?.approved,
+        sqlExecuted: !!queryAnalysis.sql && !!codeValidation?.approved,
+        executionError: executionError,
+        attempts: attempt
+      },
+      phase2_5: {
+        recordsToPhase3: Array.isArray(dataForPhase3) ? dataForPhase3.length : 1,
+        totalRecords: Array.isArray(processedData) ? processedData.length : 1,
+        samplingApplied
+      },
+      phase3: {
+        responseLength: response.length,
+        datasets: this.selectedDatasets || [this.config.dataSource.defaultDataset]
+      }
+    };
+
+    return { response, phaseDetails };
+  }
+
+  /**
+   * Load READMEs for all selected datasets
+   */
+  private async loadDatasetReadmes(): Promise<Record<string, string>> {
+    const datasetReadmes: Record<string, string> = {};
+    if (this.selectedDatasets && this.selectedDatasets.length > 0) {
+      for (const datasetName of this.selectedDatasets) {
+        try {
+          const datasetConfig = await loadProjectConfig(datasetName);
+          if (datasetConfig.readme) {
+            datasetReadmes[datasetName] = datasetConfig.readme;
+          }
+        } catch (error) {
+          // README is optional, continue without it
+        }
+      }
+    }
+    return datasetReadmes;
+  }
+
+  /**
+   * Declared relationships between the selected datasets, with the fields of their joined rows.
+   * Relationships whose datasets cannot be read are skipped.
+   */
+  private async loadAvailableRelationships(): Promise<AvailableRelationship[]> {
+    const selected = this.selectedDatasets || [];
+    if (selected.length < 2) {
+      return [];
+    }
+
+    const available: AvailableRelationship[] = [];
+    for (const relationship of relationshipsFor(await loadRelationships(), selected)) {
+      try {
+        const [fromSchema, toSchema] = await Promise.all([this.datasetSchema(relationship.from), this.datasetSchema(relationship.to)]);
+        const { fields } = joinedFields(
+          relationship,
+          fromSchema.fields.map(field => field.name),
+          toSchema.fields.map(field => field.name)
+        );
+        available.push({ relationship, fields });
+      } catch (error) {
+        console.warn(`Relationship '${relationship.name}' is unavailable:`, error);
+      }
+    }
+    return available;
+  }
+
+  /**
+   * Schema of one dataset, from the adapter when it has one (cached or sampled at the source)
+   */
+  private async datasetSchema(datasetName: string): Promise<DiscoveredSchema> {
+    const adapter = await createDataAdapter(this.config.dataSource, [datasetName]);
+    return adapter.getSchema
+      ? adapter.getSchema()
+      : getDatasetCache(this.config.dataSource.cache).getStats(await adapter.getData()).schema;
+  }
+
+  /**
+   * PHASE 2 (join): Join the datasets of a declared relationship, once per question.
+   * Both datasets are read in full; the joined rows replace the combined records downstream.
+   */
+  private async join(
+    name: string,
+    relationships: AvailableRelationship[],
+    joins: Map<string, JoinedData>,
+    datasetVersion: string,
+    attempt: number
+  ): Promise<JoinedData> {
+    const cached = joins.get(name);
+    if (cached) {
+      return cached;
+    }
+
+    const relationship = relationships.find(r => r.relationship.name === name)?.relationship;
+    if (!relationship) {
+      throw new Error(`Unknown relationship '${name}'`);
+    }
+
+    const [from, to] = await Promise.all([relationship.from, relationship.to].map(async datasetName => {
+      const adapter = await createDataAdapter(this.config.dataSource, [datasetName]);
+      const records = await adapter.getData();
+      return { records, schema: getDatasetCache(this.config.dataSource.cache).getStats(records).schema };
+    }));
+    const result = joinRecords(relationship, from.records, to.records, from.schema, to.schema);
+
+    // Date conditions of the join are dates in the joined rows too
+    const { toNames } = joinedFields(relationship, from.schema.fields.map(f => f.name), to.schema.fields.map(f => f.name));
+    const range = relationship.dateRange;
+    const dateFields = [this.projectConfig.dataSchema.primaryDateField];
+    if (range) {
+      dateFields.push(toNames[range.field], range.start, ...(range.end ? [range.end] : []));
+    }
+
+    const joined: JoinedData = {
+      relationship,
+      records: result.records,
+      schema: result.schema,
+      filterEngine: new FilterEngine(result.schema, dateFields),
+      // Declaration changes produce different rows from the same data
+      version: `${datasetVersion}#join:${crypto.createHash('sha1').update(JSON.stringify(relationship)).digest('hex').slice(0, 12)}`,
+    };
+    joins.set(name, joined);
+
+    await this.log('PHASE_2_JOIN', {
+      relationship: describeRelationship(relationship),
+      fromRecords: from.records.length,
+      toRecords: to.records.length,
+      matchedFromRecords: result.matchedFrom,
+      joinedRecords: result.records.length,
+      attempt
+    });
+    return joined;
+  }
+
+  /**
+   * PHASE 1: AI determines what data is needed
+   */
+  private async plan(
+    aiAdapter: AIAdapter,
+    message: string,
+    rawData: any[],
+    totalRecords: number,
+    datasetReadmes: Record<string, string>,
+    conversationHistory: ConversationMessage[],
+    attempt: number,
+    retryContext?: RetryContext,
+    sqlTables?: Record<string, string[]>,
+    relationships?: AvailableRelationship[]
+  ): Promise<QueryAnalysisResult> {
+    const isRetry = attempt > 1;
+    this.emit({ id: 'phase1', status: 'active', attempt });
+
+    await this.log(isRetry ? 'PHASE_1_RETRY' : 'PHASE_1_START', {
+      totalRecords,
+      model: this.config.ai.queryAnalyzerModel || this.config.ai.model,
+      attempt,
+      retrying: isRetry
+    });
+
+    const queryAnalyzer = new QueryAnalyzer(aiAdapter, this.projectConfig);
+    const queryAnalysis = await queryAnalyzer.analyze(message, rawData, datasetReadmes, this.config.ai.queryAnalyzerModel, retryContext, conversationHistory, sqlTables, relationships, totalRecords);
+    await this.log('PHASE_1_RESULT', { ...queryAnalysis, attempt });
+
+    const planValidation = queryAnalysis.planValidation;
+    if (planValidation && planValidation.status !== 'valid') {
+      await this.log(planValidation.status === 'repaired' ? 'PHASE_1_PLAN_REPAIRED' : 'PHASE_1_PLAN_FALLBACK', {
+        errors: planValidation.errors,
+        attempt
+      });
+    }
+
+    this.emit({
+      id: 'phase1',
+      status: planValidation?.status === 'fallback' ? 'warning' : 'completed',
+      attempt,
+      data: queryAnalysis
+    });
+    return queryAnalysis;
+  }
+
+  /**
+   * PHASE 1.5: Validate generated code or SQL if present.
+   * Rejected code is removed from the analysis so Phase 2 continues without execution.
+   */
+  private async validate(
+    aiAdapter: AIAdapter,
+    queryAnalysis: QueryAnalysisResult,
+    attempt: number,
+    sqlTables?: Record<string, string[]>
+  ): Promise<CodeValidationResult | null> {
+    if (queryAnalysis.sql) {
+      return this.validateSql(queryAnalysis, attempt, sqlTables);
+    }
+
+    if (!queryAnalysis.generatedCode) {
+      this.emit({ id: 'phase1.5', status: 'completed', attempt, data: null });
+      return null;
+    }
+
+    this.emit({ id: 'phase1.5', status: 'active', attempt });
+
+    await this.log('PHASE_1.5_START', {
+      codeLength: queryAnalysis.generatedCode.length,
+      description: queryAnalysis.codeDescription,
+      attempt
+    });
+
+    const codeValidator = new CodeValidator(aiAdapter, this.config.ai.codeValidatorModel);
+    const codeValidation = await codeValidator.validate(
+      queryAnalysis.generatedCode,
+      queryAnalysis.codeDescription || 'No description provided'
+    );
+
+    await this.log('PHASE_1.5_RESULT', { ...codeValidation, attempt });
+
+    if (!codeValidation.approved) {
+      await this.log('PHASE_1.5_REJECTED', {
+        reason: codeValidation.reason,
+        risks: codeValidation.risks,
+        attempt
+      });
+      // Continue without code execution
+      queryAnalysis.generatedCode = undefined;
+      this.emit({ id: 'phase1.5', status: 'warning', attempt, data: codeValidation });
+    } else {
+      this.emit({ id: 'phase1.5', status: 'completed', attempt, data: codeValidation });
+    }
+
+    return codeValidation;
+  }
+
+  /**
+   * PHASE 1.5 (SQL): Parse the query and allow only a single SELECT/WITH over the dataset tables
+   */
+  private async validateSql(
+    queryAnalysis: QueryAnalysisResult,
+    attempt: number,
+    sqlTables?: Record<string, string[]>
+  ): Promise<CodeValidationResult> {
+    this.emit({ id: 'phase1.5', status: 'active', attempt });
+    await this.log('PHASE_1.5_START', { sqlLength: queryAnalysis.sql!.length, attempt });
+
+    // Plans on a relationship query its joined rows, which are the only table loaded
+    const tables = queryAnalysis.relationship ? [sqlTableName(queryAnalysis.relationship)] : Object.keys(sqlTables || {});
+    const { approved, errors } = sqlTables
+      ? new SqlValidator(tables).validate(queryAnalysis.sql!)
+      : { approved: false, errors: ['SQL execution is disabled'] };
+
+    const codeValidation: CodeValidationResult = {
+      approved,
+      reason: approved ? 'Read-only SQL query over the dataset tables' : 'Rejected by SQL validator',
+      risks: errors,
+      checkedBy: 'static',
+    };
+
+    await this.log('PHASE_1.5_RESULT', { ...codeValidation, attempt });
+
+    if (!approved) {
+      await this.log('PHASE_1.5_REJECTED', { reason: codeValidation.reason, risks: errors, attempt });
+      // Continue without SQL execution
+      queryAnalysis.sql = undefined;
+      this.emit({ id: 'phase1.5', status: 'warning', attempt, data: codeValidation });
+    } else {
+      this.emit({ id: 'phase1.5', status: 'completed', attempt, data: codeValidation });
+    }
+
+    return codeValidation;
+  }
+
+  /**
+   * PHASE 2 (pre-check): Validate filters against the data schema.
+   * Returns the combined error message, or null when every filter is usable.
+   * On the final attempt invalid filters are dropped so the query can still proceed.
+   */
+  private async checkFilters(
+    filterEngine: FilterEngine,
+    queryAnalysis: QueryAnalysisResult,
+    attempt: number,
+    canRetry: boolean
+  ): Promise<string | null> {
+    if (!queryAnalysis.filters || queryAnalysis.filters.length === 0) {
+      return null;
+    }
+
+    const { valid, errors } = filterEngine.validate(queryAnalysis.filters);
+    if (errors.length === 0) {
+      return null;
+    }
+
+    await this.log('PHASE_2_FILTER_ERRORS', { errors, attempt, retrying: canRetry });
+
+    if (!canRetry) {
+      queryAnalysis.filters = valid;
+    }
+
+    return errors.join('\n');
+  }
+
+  /**
+   * PHASE 2 (projection): Read only the planned fields and filter fields from adapters that support it.
+   * Adapters with query() also apply the filters and limit they can evaluate exactly; the rest is
+   * left in the returned plan for wrangle(). SQL plans read every record, and plans without a field
+   * selection every column.
+   */
+  private async readPlannedData(
+    dataAdapter: DataAdapter,
+    queryAnalysis: QueryAnalysisResult,
+    fieldTypes: Record<string, DiscoveredFieldType>
+  ): Promise<PlannedRead> {
+    const allColumns = Object.keys(fieldTypes);
+    const needed = new Set([...(queryAnalysis.fieldsToInclude || []), ...collectFilterFields(queryAnalysis.filters)]);
+    const projected = !!queryAnalysis.fieldsToInclude?.length && allColumns.some(column => !needed.has(column));
+    const readColumns = projected ? allColumns.filter(column => needed.has(column)) : null;
+
+    if (queryAnalysis.sql) {
+      return { records: await dataAdapter.getData(), readKey: null, remaining: queryAnalysis };
+    }
+
+    if (dataAdapter.query && (queryAnalysis.filters?.length || queryAnalysis.limit || readColumns)) {
+      const query = { filters: queryAnalysis.filters, fields: readColumns || undefined, limit: queryAnalysis.limit || undefined };
+      const result = await dataAdapter.query({ ...query, dateFields: [this.projectConfig.dataSchema.primaryDateField] });
+
+      await this.log('PHASE_2_PUSHDOWN', {
+        filtersPushed: (queryAnalysis.filters?.length || 0) - result.remainingFilters.length,
+        filtersRemaining: result.remainingFilters.length,
+        limitPushed: !!queryAnalysis.limit && result.limitApplied,
+        columns: readColumns,
+        recordsRead: result.records.length
+      });
+      return {
+        records: result.records,
+        readKey: JSON.stringify(query),
+        remaining: {
+          ...queryAnalysis,
+          filters: result.remainingFilters,
+          limit: result.limitApplied ? undefined : queryAnalysis.limit
+        }
+      };
+    }
+
+    if (!readColumns) {
+      return { records: await dataAdapter.getData(), readKey: null, remaining: queryAnalysis };
+    }
+
+    await this.log('PHASE_2_COLUMN_PROJECTION', {
+      columnsRead: readColumns.length,
+      totalColumns: allColumns.length,
+      columns: readColumns
+    });
+    return { records: await dataAdapter.getData({ columns: readColumns }), readKey: readColumns.join(','), remaining: queryAnalysis };
+  }
+
+  /**
+   * PHASE 2: Apply basic filters, limit and field selection to get the requested data.
+   * Also returns the selected row positions in rawData and the kept fields (null = all).
+   */
+  private async wrangle(filterEngine: FilterEngine, queryAnalysis: QueryAnalysisResult, rawData: any[], attempt: number): Promise<WrangleResult> {
+    await this.log('PHASE_2_START', { filtersToApply: queryAnalysis.filters?.length || 0, attempt });
+    let filteredData = rawData;
+    let columns: string[] | null = null;
+
+    if (queryAnalysis.filters && queryAnalysis.filters.length > 0) {
+      filteredData = filterEngine.apply(rawData, queryAnalysis.filters);
+    }
+
+    // Apply limit if specified
+    if (queryAnalysis.limit) {
+      filteredData = filteredData.slice(0, queryAnalysis.limit);
+    }
+
+    // Filtering keeps the original record objects, so positions can be recovered by identity
+    let rows: number[] | null = null;
+    if (filteredData !== rawData) {
+      const positions = new Map<any, number>();
+      rawData.forEach((record, i) => positions.set(record, i));
+      rows = filteredData.map(record => positions.get(record)!);
+    }
+
+    // Apply field selection if specified (reduces token usage for Phase 3)
+    if (queryAnalysis.fieldsToInclude && queryAnalysis.fieldsToInclude.length > 0) {
+      let fieldsToKeep = queryAnalysis.fieldsToInclude;
+      let fieldLimitApplied = false;
+
+      if (fieldsToKeep.length > MAX_FIELDS) {
+        fieldLimitApplied = true;
+        fieldsToKeep = this.prioritizeFields(fieldsToKeep, queryAnalysis);
+
+        await this.log('PHASE_2_FIELD_LIMIT_APPLIED', {
+          requestedFields: queryAnalysis.fieldsToInclude.length,
+          maxAllowed: MAX_FIELDS,
+          selectedFields: fieldsToKeep
+        });
+      }
+
+      filteredData = filteredData.map((record: any) => {
+        const reduced: any = {};
+        fieldsToKeep.forEach((field: string) => {
+          if (field in record) {
+            reduced[field] = record[field];
+          }
+        });
+        return reduced;
+      });
+
+      await this.log('PHASE_2_FIELD_SELECTION', {
+        originalFields: Object.keys(rawData[0] || {}).length,
+        selectedFields: fieldsToKeep.length,
+        fields: fieldsToKeep,
+        fieldLimitApplied
+      });
+
+      columns = fieldsToKeep;
+    }
+
+    return { data: filteredData, rows, columns };
+  }
+
+  /**
+   * Prioritize fields: _dataset_source, filter fields, then first fields in list
+   */
+  private prioritizeFields(fieldsToKeep: string[], queryAnalysis: QueryAnalysisResult): string[] {
+    const priorityFields: string[] = [];
+
+    // 1. Always include _dataset_source if present
+    if (fieldsToKeep.includes('_dataset_source')) {
+      priorityFields.push('_dataset_source');
+    }
+
+    // 2. Include fields used in filters
+    const filterFields = collectFilterFields(queryAnalysis.filters);
+    filterFields.forEach((field: string) => {
+      if (fieldsToKeep.includes(field) && !priorityFields.includes(field)) {
+        priorityFields.push(field);
+      }
+    });
+
+    // 3. Fill remaining slots with fields from Phase 1 selection
+    fieldsToKeep.forEach((field: string) => {
+      if (priorityFields.length < MAX_FIELDS && !priorityFields.includes(field)) {
+        priorityFields.push(field);
+      }
+    });
+
+    return priorityFields;
+  }
+
+  /**
+   * PHASE 2 (continued): Execute approved code against the wrangled data
+   */
+  private async executeCode(code: string, filteredData: any[], source: CachedDataSource, attempt: number) {
+    await this.log('PHASE_2_CODE_EXECUTION_START', {
+      dataRecords: filteredData.length,
+      attempt
+    });
+
+    const executor = new CodeExecutor(this.logger, this.config.sandbox);
+    const executionResult = await executor.execute(code, filteredData, this.requestId, source);
+
+    if (executionResult.success) {
+      await this.log('PHASE_2_CODE_EXECUTION_SUCCESS', {
+        inputRecords: filteredData.length,
+        outputRecords: Array.isArray(executionResult.result) ? executionResult.result.length : 1,
+        attempt
+      });
+    } else {
+      await this.log('PHASE_2_CODE_EXECUTION_FAILED', {
+        error: executionResult.error || 'Unknown error',
+        attempt
+      });
+    }
+
+    return executionResult;
+  }
+
+  /**
+   * PHASE 2 (continued): Run an approved SQL query against the dataset tables
+   */
+  private async executeSql(sql: string, source: CachedDataSource, attempt: number, columns: SqlTableColumns) {
+    await this.log('PHASE_2_SQL_EXECUTION_START', { sql, attempt });
+
+    const executor = new SqlExecutor(this.logger, this.config.sql);
+    const executionResult = await executor.execute(sql, source, this.requestId, columns);
+
+    if (executionResult.success) {
+      await this.log('PHASE_2_SQL_EXECUTION_SUCCESS', {
+        outputRecords: Array.isArray(executionResult.result) ? executionResult.result.length : 1,
+        attempt
+      });
+    } else {
+      await this.log('PHASE_2_SQL_EXECUTION_FAILED', {
+        error: executionResult.error || 'Unknown error',
+        attempt
+      });
+    }
+
+    return executionResult;
+  }
+
+  /**
+   * PHASE 2.5: Apply hard limit on records sent to Phase 3 to avoid token overflow
+   */
+  private async optimize(processedData: any): Promise<{ dataForPhase3: any; samplingApplied: boolean }> {
+    this.emit({ id: 'phase2.5', status: 'active' });
+
+    let dataForPhase3 = processedData;
+    let samplingApplied = false;
+
+    if (Array.isArray(processedData) && processedData.length > PHASE_3_MAX_RECORDS) {
+      // For aggregate/count operations, take a representative sample
+      dataForPhase3 = processedData.slice(0, PHASE_3_MAX_RECORDS);
+      samplingApplied = true;
+
+      await this.log('PHASE_2.5_SAMPLING', {
+        originalRecords: processedData.length,
+        sampledRecords: dataForPhase3.length,
+        reason: 'Token limit protection'
+      });
+    }
+
+    this.emit({ id: 'phase2.5', status: 'completed', samplingApplied });
+    return { dataForPhase3, samplingApplied };
+  }
+
+  /**
+   * PHASE 3: AI generates final response with processed data
+   */
+  private async answer(
+    aiAdapter: AIAdapter,
+    message: string,
+    conversationHistory: ConversationMessage[],
+    queryAnalysis: QueryAnalysisResult,
+    processedData: any,
+    dataForPhase3: any,
+    samplingApplied: boolean,
+    rawRecordCount: number,
+    relationship?: Relationship
+  ): Promise<string> {
+    this.emit({ id: 'phase3', status: 'active' });
+
+    const contextData = {
+      data: dataForPhase3,
+      total_records: Array.isArray(processedData) ? processedData.length : 1,
+      data_explanation: queryAnalysis.codeDescription || queryAnalysis.explanation,
+    };
+
+    // Add sampling notice if applied
+    if (samplingApplied && Array.isArray(processedData)) {
+      contextData.data_explanation = `${contextData.data_explanation}\n\nNote: Showing first ${PHASE_3_MAX_RECORDS} of ${processedData.length} total records to avoid token limits. Use this sample to answer the question, but report the total count accurately.`;
+    }
+
+    // Add metadata
+    const currentDate = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
+    const metadata: any = {
+      current_date: currentDate,
+      query_analysis: queryAnalysis.explanation,
+    };
+
+    // Add dataset info if multiple datasets are selected
+    if (this.selectedDatasets && this.selectedDatasets.length > 1) {
+      metadata.datasets_queried = this.selectedDatasets;
+      metadata.note = relationship
+        ? `Data from the datasets joined as ${describeRelationship(relationship)}. Each record combines a ${relationship.from} record with a matching ${relationship.to} record.`
+        : 'Data from multiple datasets combined. Use _dataset_source field to identify record origin.';
+    }
+
+    // Add a small delay to help avoid rate limit issues when Phase 1 used many tokens
+    if (rawRecordCount > 1000) {
+      await this.log('PHASE_3_RATE_LIMIT_DELAY', {
+        delayMs: 1000,
+        reason: 'Large dataset - avoiding TPM burst'
+      });
+      await new Promise(resolve => setTimeout(resolve, 1000));
+    }
+
+    await this.log('PHASE_3_START', {
+      dataRecords: Array.isArray(dataForPhase3) ? dataForPhase3.length : 1,
+      totalRecords: Array.isArray(processedData) ? processedData.length : 1,
+      samplingApplied,
+      datasets: metadata.datasets_queried
+    });
+
+    const response = await aiAdapter.chat(message, { ...contextData, ...metadata, requestId: this.requestId, conversationHistory });
+
+    await this.log('PHASE_3_RESULT', {
+      responseLength: response.length,
+      response: response.substring(0, 500) // Log first 500 chars
+    });
+
+    this.emit({ id: 'phase3', status: 'completed' });
+    return response;
+  }
+}
@@ -0,0 +1,177 @@
+// Declared relationships between datasets, configured in config/relationships.yaml
+// Phase 1 can plan on one by name when both of its datasets are selected; Phase 2 then joins
+// the datasets deterministically (see join-engine.ts) instead of handing code a concatenated union.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+
+export interface RelationshipKey {
+  from: string; // Field in the "from" dataset
+  to: string; // Field in the "to" dataset
+}
+
+// Matches "to" records whose date falls within a "from" record's start and end
+export interface RelationshipDateRange {
+  field: string; // Date field in the "to" dataset
+  start: string; // Date field in the "from" dataset
+  end?: string; // Date field in the "from" dataset; an empty value leaves the range open
+  endInclusive?: boolean; // Default: false, so ranges that meet (terms of office) never share a record
+}
+
+export interface Relationship {
+  name: string; // Referenced by Phase 1 plans; also the SQL table holding the joined rows
+  description?: string;
+  from: string; // Dataset whose records start each joined row
+  to: string; // Dataset matched against each "from" record
+  type?: 'inner' | 'left'; // "left" keeps "from" records without a match. Default: inner
+  keys?: RelationshipKey[]; // Equality conditions, ANDed together (and with dateRange)
+  dateRange?: RelationshipDateRange;
+}
+
+// A relationship whose datasets are selected, with the field names of its joined rows
+export interface AvailableRelationship {
+  relationship: Relationship;
+  fields: string[];
+}
+
+export const RELATIONSHIPS_FILE = path.join('config', 'relationships.yaml');
+
+// Written at the top of the file whenever a relationship is added from the admin page
+const FILE_HEADER = `# Declared joins between datasets. When both datasets of a relationship are selected, Phase 1
+# can plan on it by name and Phase 2 hands code and SQL the joined rows instead of a union.
+`;
+
+/**
+ * Read the declared relationships. Invalid entries are logged and skipped; a missing file means none.
+ * The file is read on every call, so edits apply to the next question without a restart.
+ */
+export async function loadRelationships(): Promise<Relationship[]> {
+  let parsed: any;
+  try {
+    parsed = yaml.load(await fs.readFile(path.join(process.cwd(), RELATIONSHIPS_FILE), 'utf-8'));
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') {
+      console.error(`Error loading ${RELATIONSHIPS_FILE}:`, error);
+    }
+    return [];
+  }
+
+  const relationships: Relationship[] = [];
+  const entries = relationshipEntries(parsed);
+  entries.forEach((entry: any, i: number) => {
+    const errors = validateRelationship(entry);
+    if (errors.length === 0 && relationships.some(r => r.name === entry.name)) {
+      errors.push(`duplicate name '${entry.name}'`);
+    }
+    if (errors.length > 0) {
+      console.warn(`${RELATIONSHIPS_FILE}: skipping relationships[${i}]: ${errors.join('; ')}`);
+      return;
+    }
+    relationships.push(entry as Relationship);
+  });
+  return relationships;
+}
+
+/**
+ * Append a relationship to the file. Throws when it is invalid or its name is taken.
+ * Entries already in the file are kept as written, including ones that are currently invalid.
+ */
+export async function saveRelationship(relationship: Relationship): Promise<Relationship[]> {
+  const errors = validateRelationship(relationship);
+  if (errors.length > 0) {
+    throw new Error(`Invalid relationship: ${errors.join('; ')}`);
+  }
+
+  const filePath = path.join(process.cwd(), RELATIONSHIPS_FILE);
+  let parsed: any = {};
+  try {
+    parsed = yaml.load(await fs.readFile(filePath, 'utf-8')) || {};
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') throw error;
+  }
+
+  const entries = relationshipEntries(parsed);
+  if (entries.some((entry: any) => entry?.name === relationship.name)) {
+    throw new Error(`A relationship named '${relationship.name}' already exists`);
+  }
+
+  const content = yaml.dump({ ...parsed, relationships: [...entries, relationship] }, { indent: 2, lineWidth: -1 });
+  await fs.writeFile(filePath, FILE_HEADER + content, 'utf-8');
+  return loadRelationships();
+}
+
+/**
+ * Whether two relationships join the same datasets on the same conditions, in either direction
+ */
+export function isSameRelationship(a: Relationship, b: Relationship): boolean {
+  const conditions = (r: Relationship, flip: boolean) => JSON.stringify({
+    datasets: flip ? [r.to, r.from] : [r.from, r.to],
+    keys: (r.keys || []).map(key => (flip ? [key.to, key.from] : [key.from, key.to])).sort(),
+    range: r.dateRange ? [r.dateRange.field, r.dateRange.start, r.dateRange.end || null] : null,
+  });
+  // Date ranges have a direction: the range is always on the "from" side
+  return conditions(a, false) === conditions(b, false) || (!a.dateRange && !b.dateRange && conditions(a, false) === conditions(b, true));
+}
+
+function relationshipEntries(parsed: any): any[] {
+  return Array.isArray(parsed?.relationships) ? parsed.relationships : [];
+}
+
+/**
+ * Problems with one relationship entry, empty when it can be used
+ */
+export function validateRelationship(entry: any): string[] {
+  const errors: string[] = [];
+  const isName = (value: any) => typeof value === 'string' && value.trim() !== '';
+
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+    return ['must be an object'];
+  }
+  if (typeof entry.name !== 'string' || !/^[A-Za-z_][A-Za-z0-9_]*$/.test(entry.name)) {
+    errors.push('"name" must be letters, digits and underscores, not starting with a digit');
+  }
+  if (!isName(entry.from) || !isName(entry.to)) {
+    errors.push('"from" and "to" must name datasets');
+  }
+  if (entry.type !== undefined && entry.type !== 'inner' && entry.type !== 'left') {
+    errors.push('"type" must be "inner" or "left"');
+  }
+
+  if (entry.keys !== undefined && (!Array.isArray(entry.keys) || !entry.keys.every((key: any) => isName(key?.from) && isName(key?.to)))) {
+    errors.push('"keys" must be a list of {from, to} field names');
+  }
+  const range = entry.dateRange;
+  if (range !== undefined && (!isName(range?.field) || !isName(range?.start) || (range.end !== undefined && !isName(range.end)))) {
+    errors.push('"dateRange" needs "field" and "start" field names (and optionally "end")');
+  }
+  if (!entry.keys?.length && !range) {
+    errors.push('set "keys", "dateRange" or both');
+  }
+
+  return errors;
+}
+
+/**
+ * Relationships whose datasets are all selected
+ */
+export function relationshipsFor(relationships: Relationship[], datasets: string[]): Relationship[] {
+  return relationships.filter(r => datasets.includes(r.from) && datasets.includes(r.to));
+}
+
+/**
+ * One-line join condition for prompts and logs, e.g.
+ * "us-presidents → spacex-launches where launch_date >= presidential_start and launch_date < presidential_end"
+ */
+export function describeRelationship(relationship: Relationship): string {
+  const conditions = (relationship.keys || []).map(key => `${relationship.from}.${key.from} = ${relationship.to}.${key.to}`);
+  const range = relationship.dateRange;
+  if (range) {
+    conditions.push(`${range.field} >= ${range.start}`);
+    if (range.end) {
+      conditions.push(`${range.field} ${range.endInclusive ? '<=' : '<'} ${range.end} (or ${range.end} is empty)`);
+    }
+  }
+  const join = relationship.type === 'left' ? ` (every ${relationship.from} record, matched or not)` : '';
+  return `${relationship.from} → ${relationship.to}${join} where ${conditions.join(' and ')}`;
+}
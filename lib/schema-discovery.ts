@@ -1,8 +1,12 @@
 // Automatic schema discovery from JSON data
 
+import { Relationship } from './relationships';
+
+export type DiscoveredFieldType = 'string' | 'number' | 'boolean' | 'date' | 'object' | 'array';
+
 export interface DiscoveredField {
   name: string;
-  type: 'string' | 'number' | 'boolean' | 'date' | 'object' | 'array';
+  type: DiscoveredFieldType;
   sampleValues: any[];
   uniqueCount: number;
   nullCount: number;
@@ -16,12 +20,70 @@ export interface DiscoveredSchema {
   dateFields: string[];
 }
 
+export interface ColumnStats {
+  name: string;
+  type: DiscoveredField['type'];
+  totalRecords: number;
+  nullCount: number; // null, undefined or empty string
+  distinctCount: number;
+  categorical: boolean;
+  numeric?: {
+    min: number;
+    max: number;
+    mean: number;
+    median: number;
+  };
+  topValues?: Array<{ value: string; count: number }>; // Most frequent values, for categorical fields
+  dates?: {
+    min: string;
+    max: string;
+    histogram: Array<{ month: string; count: number }>; // YYYY-MM, every month from min to max
+  };
+}
+
+// Records and schema of one dataset, for cross-dataset analysis
+export interface DatasetSample {
+  name: string;
+  data: any[];
+  schema: DiscoveredSchema;
+}
+
+// A relationship between two datasets found in their data, ready to be declared
+export interface RelationshipSuggestion {
+  relationship: Relationship;
+  score: number; // 0-1, higher means stronger evidence
+  reasons: string[];
+}
+
+// Distinct values of a field that could be a join key
+interface KeyProfile {
+  name: string;
+  type: DiscoveredFieldType;
+  values: Set<string>;
+  nonNull: number;
+  idShaped: boolean;
+}
+
+// Relationship discovery thresholds
+const MIN_KEY_OVERLAP = 0.5; // Share of the smaller value set found in the other field
+const MIN_VALUE_ONLY_OVERLAP = 0.9; // For keys with neither a matching name nor ID-shaped values
+const MIN_VALUE_ONLY_DISTINCT = 20;
+const MIN_RANGE_COVERAGE = 0.5; // Share of dates that fall within the other dataset's ranges
+const MIN_ORDERED_RANGES = 0.9; // Share of ranges whose start is not after their end
+
+const START_FIELD = /(^|[_\s-])(start|begin|beginning|from|since|open|opened)([_\s-]|$)|(Start|Begin|From|Since)/;
+const END_FIELD = /(^|[_\s-])(end|until|finish|close|closed|stop|expiry|expires)([_\s-]|$)|(End|Until|Finish|Close|Stop)/;
+const ID_FIELD = /(^|[_\s-])(id|key|code|uuid|ref)$|[a-z](Id|ID|Key|Code)$/i;
+// Row identifiers that every dataset may have; two of them matching says nothing
+const SURROGATE_KEYS = ['id', 'key', 'index', 'rowid', 'uuid'];
+
 export class SchemaDiscovery {
 
   /**
-   * Discover schema from JSON data array
+   * Discover schema from JSON data array.
+   * fieldTypes gives exact types for fields whose source declares them (e.g. Parquet columns).
    */
-  static discover(data: any[]): DiscoveredSchema {
+  static discover(data: any[], fieldTypes: Record<string, DiscoveredFieldType> = {}): DiscoveredSchema {
     if (!Array.isArray(data) || data.length === 0) {
       return {
         totalRecords: 0,
@@ -47,7 +109,7 @@ export class SchemaDiscovery {
     const dateFields: string[] = [];
 
     allFieldNames.forEach(fieldName => {
-      const fieldAnalysis = this.analyzeField(data, fieldName);
+      const fieldAnalysis = this.analyzeField(data, fieldName, fieldTypes[fieldName]);
       fields.push(fieldAnalysis);
 
       // Categorize fields
@@ -77,10 +139,350 @@ export class SchemaDiscovery {
     };
   }
 
+  /**
+   * Profile one column: null and distinct counts, plus numeric summary, top values
+   * or a monthly histogram depending on the field's discovered type
+   */
+  static columnStats(data: any[], schema: DiscoveredSchema, fieldName: string, topN: number = 10): ColumnStats | null {
+    const field = schema.fields.find(f => f.name === fieldName);
+    if (!field) return null;
+
+    const values: any[] = [];
+    const counts = new Map<string, number>();
+    data.forEach(record => {
+      const value = record?.[fieldName];
+      if (value === null || value === undefined || value === '') return;
+      values.push(value);
+      const key = typeof value === 'object' ? JSON.stringify(value) : String(value);
+      counts.set(key, (counts.get(key) || 0) + 1);
+    });
+
+    const stats: ColumnStats = {
+      name: fieldName,
+      type: field.type,
+      totalRecords: data.length,
+      nullCount: data.length - values.length,
+      distinctCount: counts.size,
+      categorical: schema.categoricalFields.includes(fieldName),
+    };
+
+    if (field.type === 'number') {
+      const numbers = values.filter(v => typeof v === 'number' && isFinite(v)).sort((a, b) => a - b);
+      if (numbers.length > 0) {
+        const middle = Math.floor(numbers.length / 2);
+        stats.numeric = {
+          min: numbers[0],
+          max: numbers[numbers.length - 1],
+          mean: numbers.reduce((sum, n) => sum + n, 0) / numbers.length,
+          median: numbers.length % 2 === 0 ? (numbers[middle - 1] + numbers[middle]) / 2 : numbers[middle],
+        };
+      }
+    } else if (field.type === 'date') {
+      stats.dates = this.dateStats(values);
+    }
+
+    if (stats.categorical || field.type === 'boolean') {
+      stats.topValues = Array.from(counts.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, topN)
+        .map(([value, count]) => ({ value, count }));
+    }
+
+    return stats;
+  }
+
+  /**
+   * Earliest and latest date plus a count per month, with empty months filled in
+   */
+  private static dateStats(values: any[]): ColumnStats['dates'] {
+    const times = values.map(v => Date.parse(String(v))).filter(t => !isNaN(t)).sort((a, b) => a - b);
+    if (times.length === 0) return undefined;
+
+    const monthCounts = new Map<string, number>();
+    times.forEach(time => {
+      const month = new Date(time).toISOString().slice(0, 7);
+      monthCounts.set(month, (monthCounts.get(month) || 0) + 1);
+    });
+
+    const histogram: Array<{ month: string; count: number }> = [];
+    const first = new Date(times[0]);
+    const last = new Date(times[times.length - 1]);
+    // Months counted from year 0 so the range can be walked with a single index
+    const lastIndex = last.getUTCFullYear() * 12 + last.getUTCMonth();
+    for (let index = first.getUTCFullYear() * 12 + first.getUTCMonth(); index <= lastIndex; index++) {
+      const month = `${Math.floor(index / 12)}-${String(index % 12 + 1).padStart(2, '0')}`;
+      histogram.push({ month, count: monthCounts.get(month) || 0 });
+    }
+
+    return {
+      min: first.toISOString().slice(0, 10),
+      max: last.toISOString().slice(0, 10),
+      histogram,
+    };
+  }
+
+  /**
+   * Suggest relationships between datasets: join keys (matching names, value overlap, ID-shaped
+   * values) and date-in-range joins (a date field falling within another dataset's start/end
+   * ranges). Suggestions are sorted by score, strongest first.
+   */
+  static discoverRelationships(datasets: DatasetSample[]): RelationshipSuggestion[] {
+    const suggestions: RelationshipSuggestion[] = [];
+    for (let i = 0; i < datasets.length; i++) {
+      for (let j = i + 1; j < datasets.length; j++) {
+        suggestions.push(
+          ...this.keySuggestions(datasets[i], datasets[j]),
+          ...this.rangeSuggestions(datasets[i], datasets[j]),
+          ...this.rangeSuggestions(datasets[j], datasets[i])
+        );
+      }
+    }
+
+    // Names only have to be unique among suggestions; callers check them against declared ones
+    const names = new Set<string>();
+    return suggestions
+      .sort((a, b) => b.score - a.score)
+      .map(suggestion => {
+        let name = suggestion.relationship.name;
+        for (let n = 2; names.has(name); n++) {
+          name = `${suggestion.relationship.name}_${n}`;
+        }
+        names.add(name);
+        return { ...suggestion, relationship: { ...suggestion.relationship, name } };
+      });
+  }
+
+  /**
+   * Field pairs whose values overlap, backed by a matching name or ID-shaped values
+   */
+  private static keySuggestions(a: DatasetSample, b: DatasetSample): RelationshipSuggestion[] {
+    const suggestions: RelationshipSuggestion[] = [];
+    const profilesB = this.keyProfiles(b);
+
+    for (const pa of this.keyProfiles(a)) {
+      for (const pb of profilesB) {
+        if (pa.type !== pb.type) continue;
+
+        let shared = 0;
+        const [smaller, larger] = pa.values.size <= pb.values.size ? [pa.values, pb.values] : [pb.values, pa.values];
+        smaller.forEach(value => {
+          if (larger.has(value)) shared++;
+        });
+        const overlap = shared / smaller.size;
+        if (shared < 2 || overlap < MIN_KEY_OVERLAP) continue;
+
+        // The side with unique values is the "one" side and starts each joined row
+        const uniqueA = pa.values.size === pa.nonNull;
+        const uniqueB = pb.values.size === pb.nonNull;
+
+        const sameName = this.normalizeName(pa.name) === this.normalizeName(pb.name);
+        const reference = this.isReference(pa.name, b.name) || this.isReference(pb.name, a.name);
+        // Small integers overlap by chance, so one ID-shaped side is not enough
+        const idShaped = pa.idShaped && pb.idShaped;
+        if (sameName && uniqueA && uniqueB && SURROGATE_KEYS.includes(this.normalizeName(pa.name))) {
+          continue;
+        }
+        const valueOnly = !sameName && !reference && !idShaped;
+        if (valueOnly && (pa.type !== 'string' || overlap < MIN_VALUE_ONLY_OVERLAP || smaller.size < MIN_VALUE_ONLY_DISTINCT)) {
+          continue;
+        }
+
+        const [from, fromField, to, toField] = uniqueB && !uniqueA ? [b, pb, a, pa] : [a, pa, b, pb];
+
+        const reasons: string[] = [];
+        if (sameName) {
+          reasons.push(pa.name === pb.name ? `Both datasets have a field named '${pa.name}'` : `Field names match: '${pa.name}' and '${pb.name}'`);
+        } else if (reference) {
+          reasons.push(`'${this.isReference(pa.name, b.name) ? pa.name : pb.name}' looks like a reference to ${this.isReference(pa.name, b.name) ? b.name : a.name}`);
+        }
+        reasons.push(`${Math.round(overlap * 100)}% of the ${smaller.size} distinct ${smaller === pa.values ? `${a.name}.${pa.name}` : `${b.name}.${pb.name}`} values appear in ${smaller === pa.values ? `${b.name}.${pb.name}` : `${a.name}.${pa.name}`}`);
+        if (idShaped) reasons.push('Both fields are ID-shaped');
+        if (uniqueA !== uniqueB) reasons.push(`${fromField.name} is unique in ${from.name}`);
+
+        const score = Math.min(1, 0.5 * overlap + (sameName || reference ? 0.3 : 0) + (idShaped ? 0.1 : 0) + (uniqueA !== uniqueB ? 0.1 : 0));
+        suggestions.push({
+          relationship: {
+            name: this.relationshipName(from.name, to.name, toField.name),
+            from: from.name,
+            to: to.name,
+            keys: [{ from: fromField.name, to: toField.name }],
+          },
+          score: Math.round(score * 100) / 100,
+          reasons,
+        });
+      }
+    }
+    return suggestions;
+  }
+
+  /**
+   * Date fields of one dataset that fall within the start/end ranges of another
+   */
+  private static rangeSuggestions(ranges: DatasetSample, dates: DatasetSample): RelationshipSuggestion[] {
+    const suggestions: RelationshipSuggestion[] = [];
+
+    for (const { start, end } of this.rangeFields(ranges)) {
+      // Union of the ranges, so each date is checked with one binary search
+      const intervals: Array<[number, number]> = [];
+      let open = 0;
+      ranges.data.forEach(record => {
+        const from = this.toTime(record?.[start]);
+        if (from === null) return;
+        const endValue = record?.[end];
+        const to = endValue === null || endValue === undefined || endValue === '' ? Infinity : this.toTime(endValue);
+        if (to === null || to < from) return;
+        if (to === Infinity) open++;
+        intervals.push([from, to]);
+      });
+      if (intervals.length === 0) continue;
+      intervals.sort((x, y) => x[0] - y[0]);
+      const merged: Array<[number, number]> = [];
+      intervals.forEach(([from, to]) => {
+        const last = merged[merged.length - 1];
+        if (last && from <= last[1]) last[1] = Math.max(last[1], to);
+        else merged.push([from, to]);
+      });
+
+      for (const field of this.dateFieldNames(dates.schema)) {
+        let parsed = 0;
+        let covered = 0;
+        dates.data.forEach(record => {
+          const time = this.toTime(record?.[field]);
+          if (time === null) return;
+          parsed++;
+          let low = 0;
+          let high = merged.length;
+          while (low < high) {
+            const mid = (low + high) >> 1;
+            if (merged[mid][0] <= time) low = mid + 1;
+            else high = mid;
+          }
+          if (low > 0 && time < merged[low - 1][1]) covered++;
+        });
+        const coverage = parsed > 0 ? covered / parsed : 0;
+        if (coverage < MIN_RANGE_COVERAGE) continue;
+
+        const reasons = [
+          `${Math.round(coverage * 100)}% of ${dates.name}.${field} dates fall within the ${start} – ${end} ranges of ${ranges.name}`,
+          `${ranges.name} ranges span ${this.isoDate(merged[0][0])} to ${merged[merged.length - 1][1] === Infinity ? 'now' : this.isoDate(merged[merged.length - 1][1])}`,
+        ];
+        if (open > 0) reasons.push(`${open} range${open === 1 ? ' has' : 's have'} no ${end} and stay${open === 1 ? 's' : ''} open`);
+
+        suggestions.push({
+          relationship: {
+            name: this.relationshipName(ranges.name, dates.name, field),
+            from: ranges.name,
+            to: dates.name,
+            dateRange: { field, start, end },
+          },
+          score: Math.round((0.5 + 0.4 * coverage) * 100) / 100,
+          reasons,
+        });
+      }
+    }
+    return suggestions;
+  }
+
+  /**
+   * Distinct values of the string and number fields that could be join keys
+   */
+  private static keyProfiles(dataset: DatasetSample): KeyProfile[] {
+    return dataset.schema.fields
+      .filter(field => (field.type === 'string' || field.type === 'number') && field.name !== '_dataset_source')
+      .map(field => {
+        const values = new Set<string>();
+        let nonNull = 0;
+        let codeLike = true;
+        dataset.data.forEach(record => {
+          const value = record?.[field.name];
+          if (value === null || value === undefined) return;
+          const text = typeof value === 'string' ? value.trim() : String(value);
+          if (text === '') return;
+          nonNull++;
+          values.add(text);
+          if (codeLike && !/^(?=.*\d)[A-Za-z0-9]+([-_.:][A-Za-z0-9]+)*$/.test(text)) codeLike = false;
+        });
+        // Codes such as "OFF-ST-6261" or "TB-112803"; plain numbers only count by name
+        const idShaped = ID_FIELD.test(field.name) || (field.type === 'string' && codeLike && nonNull > 0);
+        return { name: field.name, type: field.type, values, nonNull, idShaped };
+      })
+      .filter(profile => profile.values.size >= 2);
+  }
+
+  /**
+   * Start/end date field pairs: matching names (term_start/term_end), or the only pair when names
+   * do not match, with starts not after ends
+   */
+  private static rangeFields(dataset: DatasetSample): Array<{ start: string; end: string }> {
+    const dateFields = this.dateFieldNames(dataset.schema);
+    const starts = dateFields.filter(name => START_FIELD.test(name));
+    const ends = dateFields.filter(name => END_FIELD.test(name) && !starts.includes(name));
+    const stem = (name: string, pattern: RegExp) => this.normalizeName(name.replace(pattern, '$1$3'));
+
+    const pairs: Array<{ start: string; end: string }> = [];
+    starts.forEach(start => {
+      const end = ends.find(e => stem(e, END_FIELD) === stem(start, START_FIELD)) ||
+        (starts.length === 1 && ends.length === 1 ? ends[0] : undefined);
+      if (end) pairs.push({ start, end });
+    });
+
+    return pairs.filter(({ start, end }) => {
+      let both = 0;
+      let ordered = 0;
+      dataset.data.forEach(record => {
+        const from = this.toTime(record?.[start]);
+        const to = this.toTime(record?.[end]);
+        if (from === null || to === null) return;
+        both++;
+        if (from <= to) ordered++;
+      });
+      return both === 0 ? dataset.data.some(record => this.toTime(record?.[start]) !== null) : ordered / both >= MIN_ORDERED_RANGES;
+    });
+  }
+
+  /**
+   * Date fields, including string fields whose values parse as dates
+   */
+  private static dateFieldNames(schema: DiscoveredSchema): string[] {
+    return schema.fields.filter(field => field.type === 'date').map(field => field.name);
+  }
+
+  /**
+   * "president_id" refers to "us-presidents"; "customer_id" to "customers"
+   */
+  private static isReference(fieldName: string, datasetName: string): boolean {
+    const entity = datasetName.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean).pop() || '';
+    const singular = entity.replace(/ies$/, 'y').replace(/s$/, '');
+    const field = this.normalizeName(fieldName);
+    return !!singular && [`${singular}id`, `${singular}key`, `${singular}code`, `${entity}id`].includes(field);
+  }
+
+  private static normalizeName(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+  }
+
+  /**
+   * Relationship name from its datasets and matched field, e.g. us_presidents_spacex_launches_launch_date
+   */
+  private static relationshipName(from: string, to: string, field: string): string {
+    const name = `${from}_${to}_${field}`.toLowerCase().replace(/[^a-z0-9_]+/g, '_').replace(/_+/g, '_').replace(/^_|_$/g, '');
+    return /^[a-z_]/.test(name) ? name : `r_${name}`;
+  }
+
+  private static toTime(value: any): number | null {
+    if (value === null || value === undefined || value === '') return null;
+    const time = Date.parse(String(value));
+    return isNaN(time) ? null : time;
+  }
+
+  private static isoDate(time: number): string {
+    return new Date(time).toISOString().slice(0, 10);
+  }
+
   /**
    * Analyze a single field across all records
    */
-  private static analyzeField(data: any[], fieldName: string): DiscoveredField {
+  private static analyzeField(data: any[], fieldName: string, knownType?: DiscoveredFieldType): DiscoveredField {
     const values: any[] = [];
     const uniqueValues = new Set();
     let nullCount = 0;
@@ -97,7 +499,7 @@ export class SchemaDiscovery {
     });
 
     // Determine field type
-    const type = this.inferType(values);
+    const type = knownType || this.inferType(values);
 
     // Get sample values (up to 5)
     const sampleValues = Array.from(new Set(values)).slice(0, 5);
@@ -114,7 +516,7 @@ export class SchemaDiscovery {
   /**
    * Infer the type of a field from its values
    */
-  private static inferType(values: any[]): 'string' | 'number' | 'boolean' | 'date' | 'object' | 'array' {
+  private static inferType(values: any[]): DiscoveredFieldType {
     if (values.length === 0) return 'string';
 
     // Sample first non-null value
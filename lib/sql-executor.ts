@@ -0,0 +1,267 @@
+// Read-only SQL execution against the selected datasets using embedded DuckDB (Phase 2)
+// Each _dataset_source becomes its own table
+
+import { DuckDBInstance } from '@duckdb/node-api';
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { CodeExecutionResult } from './code-executor';
+import { CachedDataSource } from './python-worker-pool';
+import { DiscoveredFieldType, DiscoveredSchema } from './schema-discovery';
+
+// SQL execution settings, configured under "sql" in app.yaml
+export interface SqlConfig {
+  enabled?: boolean; // Let Phase 1 plan SQL queries instead of Python
+  timeoutMs?: number;
+  maxRows?: number; // Rows read from a result; the rest are dropped
+}
+
+const DEFAULT_SQL: Required<SqlConfig> = {
+  enabled: true,
+  timeoutMs: 10000,
+  maxRows: 10000,
+};
+
+// Databases kept in memory, one per dataset selection
+const MAX_CACHED_DATABASES = 4;
+
+interface CachedDatabase {
+  version: string;
+  instance: DuckDBInstance;
+  queries: number; // In flight; an evicted database is closed when the last one finishes
+  evicted: boolean;
+}
+
+// Table name -> its columns, so a table exists even when none of its records were selected
+export type SqlTableColumns = Record<string, Array<{ name: string; type: DiscoveredFieldType }>>;
+
+// Column types of tables created without rows; read_json_auto infers the others from the values
+const EMPTY_COLUMN_TYPES: Record<DiscoveredFieldType, string> = {
+  string: 'VARCHAR',
+  number: 'DOUBLE',
+  boolean: 'BOOLEAN',
+  date: 'TIMESTAMP',
+  object: 'JSON',
+  array: 'JSON',
+};
+
+// Dataset name -> loaded database, least recently used first
+const databases = new Map<string, CachedDatabase>();
+
+/**
+ * Table name for a dataset: lowercase with anything other than letters, digits and _ replaced
+ */
+export function sqlTableName(datasetName: string): string {
+  const name = datasetName.toLowerCase().replace(/[^a-z0-9_]/g, '_');
+  return /^[0-9]/.test(name) ? `t_${name}` : name;
+}
+
+/**
+ * Split records into tables by _dataset_source. Records without a source go into defaultDataset.
+ */
+export function groupSqlTables(records: any[], defaultDataset: string): Map<string, any[]> {
+  const tables = new Map<string, any[]>();
+  for (const record of records) {
+    const { _dataset_source, ...fields } = record;
+    const table = sqlTableName(_dataset_source || defaultDataset);
+    if (!tables.has(table)) tables.set(table, []);
+    tables.get(table)!.push(fields);
+  }
+  return tables;
+}
+
+/**
+ * Table name -> column names, for the planner prompt
+ */
+export function describeSqlTables(records: any[], defaultDataset: string): Record<string, string[]> {
+  const description: Record<string, string[]> = {};
+  groupSqlTables(records, defaultDataset).forEach((rows, table) => {
+    const columns = new Set<string>();
+    rows.forEach(row => Object.keys(row).forEach(key => columns.add(key)));
+    description[table] = Array.from(columns);
+  });
+  return description;
+}
+
+/**
+ * Table columns for SqlExecutor, typed from the schema of the records they were described from
+ */
+export function sqlTableColumns(tables: Record<string, string[]>, schema: DiscoveredSchema): SqlTableColumns {
+  const types = new Map(schema.fields.map(field => [field.name, field.type]));
+  const columns: SqlTableColumns = {};
+  Object.entries(tables).forEach(([table, names]) => {
+    columns[table] = names.map(name => ({ name, type: types.get(name) || 'string' }));
+  });
+  return columns;
+}
+
+export class SqlExecutor {
+  private logger?: any;
+  private config: Required<SqlConfig>;
+
+  constructor(logger?: any, sqlConfig?: SqlConfig) {
+    this.logger = logger;
+    this.config = { ...DEFAULT_SQL, ...sqlConfig };
+  }
+
+  /**
+   * Run a validated SELECT against the source datasets.
+   * The query runs in a transaction that is always rolled back, so the cached tables cannot change.
+   * Tables in `columns` are created from their column list when no record of them was selected.
+   */
+  async execute(sql: string, source: CachedDataSource, requestId?: string, columns?: SqlTableColumns): Promise<CodeExecutionResult> {
+    if (this.logger && requestId) {
+      await this.logger.chatQuery(requestId, 'SQL_QUERY_GENERATED', { sql });
+    }
+
+    try {
+      const database = await this.acquire(source, columns);
+      let rows: Record<string, any>[];
+      try {
+        // One connection per query so concurrent requests get separate transactions
+        const connection = await database.instance.connect();
+        const timer = setTimeout(() => connection.interrupt(), this.config.timeoutMs);
+        try {
+          await connection.run('BEGIN TRANSACTION');
+          const reader = await connection.runAndReadUntil(sql, this.config.maxRows);
+          rows = reader.getRowObjectsJS().slice(0, this.config.maxRows).map(row => this.toPlainRow(row));
+        } finally {
+          clearTimeout(timer);
+          await connection.run('ROLLBACK').catch(() => {});
+          connection.closeSync();
+        }
+      } finally {
+        this.release(database);
+      }
+
+      if (this.logger && requestId) {
+        await this.logger.chatQuery(requestId, 'SQL_EXECUTION_SUCCESS', {
+          resultCount: rows.length,
+          sampleData: rows.slice(0, 3)
+        });
+      }
+
+      return { success: true, result: rows };
+    } catch (error: any) {
+      const message = /interrupt/i.test(error.message || '')
+        ? `Timed out after ${this.config.timeoutMs}ms`
+        : error.message || 'Unknown error';
+
+      if (this.logger && requestId) {
+        await this.logger.chatQuery(requestId, 'SQL_EXECUTION_ERROR', { error: message });
+      }
+
+      return {
+        success: false,
+        error: `SQL execution failed: ${message}`,
+      };
+    }
+  }
+
+  /**
+   * Get the in-memory database for a dataset selection, loading it if the version changed.
+   * The caller must release it when its query finishes.
+   */
+  private async acquire(source: CachedDataSource, columns?: SqlTableColumns): Promise<CachedDatabase> {
+    let database = databases.get(source.name);
+    if (database && database.version === source.version) {
+      // Move to the end so it is evicted last
+      databases.delete(source.name);
+      databases.set(source.name, database);
+    } else {
+      database = await this.loadDatabase(source, columns);
+      // The previous version, or the same version loaded by a concurrent request
+      const previous = databases.get(source.name);
+      if (previous) {
+        this.evict(source.name, previous);
+      }
+      databases.set(source.name, database);
+
+      while (databases.size > MAX_CACHED_DATABASES) {
+        const [oldest, entry] = databases.entries().next().value as [string, CachedDatabase];
+        this.evict(oldest, entry);
+      }
+    }
+
+    database.queries++;
+    return database;
+  }
+
+  private release(database: CachedDatabase) {
+    database.queries--;
+    if (database.evicted && database.queries === 0) {
+      database.instance.closeSync();
+    }
+  }
+
+  /**
+   * Load each table from a temporary NDJSON file, then lock the database down:
+   * no file or network access and no configuration changes from queries.
+   */
+  private async loadDatabase(source: CachedDataSource, columns?: SqlTableColumns): Promise<CachedDatabase> {
+    const instance = await DuckDBInstance.create(':memory:');
+    const connection = await instance.connect();
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'chathero-sql-'));
+
+    try {
+      const tables = groupSqlTables(source.records, source.name);
+      for (const [table, tableColumns] of Object.entries(columns || {})) {
+        if (!tables.has(table) && tableColumns.length > 0) {
+          const definitions = tableColumns.map(column => `"${column.name.replace(/"/g, '""')}" ${EMPTY_COLUMN_TYPES[column.type] || 'VARCHAR'}`);
+          await connection.run(`CREATE TABLE "${table}" (${definitions.join(', ')})`);
+        }
+      }
+      for (const [table, rows] of Array.from(tables.entries())) {
+        const file = path.join(workDir, `${table}.ndjson`);
+        await fs.writeFile(file, rows.map(row => JSON.stringify(row)).join('\n'), 'utf-8');
+        await connection.run(
+          `CREATE TABLE "${table}" AS SELECT * FROM read_json_auto('${file.replace(/'/g, "''")}', format = 'newline_delimited', sample_size = -1)`
+        );
+      }
+
+      await connection.run('SET enable_external_access = false');
+      await connection.run('SET lock_configuration = true');
+    } catch (error) {
+      instance.closeSync();
+      throw error;
+    } finally {
+      connection.closeSync();
+      await fs.rm(workDir, { recursive: true, force: true }).catch(() => {});
+    }
+
+    return { version: source.version, instance, queries: 0, evicted: false };
+  }
+
+  /**
+   * Drop a database from the cache, closing it now or once its last query finishes
+   */
+  private evict(name: string, database: CachedDatabase) {
+    if (databases.get(name) === database) {
+      databases.delete(name);
+    }
+    database.evicted = true;
+    if (database.queries === 0) {
+      database.instance.closeSync();
+    }
+  }
+
+  /**
+   * Convert DuckDB values to JSON-friendly ones (BIGINT -> number, DATE -> ISO string)
+   */
+  private toPlainRow(row: Record<string, any>): Record<string, any> {
+    const plain: Record<string, any> = {};
+    for (const [key, value] of Object.entries(row)) {
+      if (typeof value === 'bigint') {
+        plain[key] = Number.isSafeInteger(Number(value)) ? Number(value) : value.toString();
+      } else if (value instanceof Date) {
+        plain[key] = value.toISOString();
+      } else if (value !== null && typeof value === 'object' && !Array.isArray(value) && value.constructor !== Object) {
+        // DuckDB value classes (decimals, intervals, ...) render themselves with toString
+        plain[key] = String(value);
+      } else {
+        plain[key] = value;
+      }
+    }
+    return plain;
+  }
+}
@@ -0,0 +1,93 @@
+// Parser-based validator for planner-generated SQL (Phase 1.5)
+// Only a single read-only SELECT/WITH statement over the registered dataset tables is allowed
+
+import { Parser } from 'node-sql-parser';
+
+export interface SqlValidationResult {
+  approved: boolean;
+  errors: string[];
+}
+
+// DuckDB SQL is close enough to PostgreSQL for the parser
+const SQL_DIALECT = 'PostgresQL';
+
+// Statement types that modify data or schema, e.g. inside a CTE
+const WRITE_STATEMENT_TYPES = ['insert', 'update', 'delete', 'replace', 'create', 'drop', 'alter', 'truncate', 'rename'];
+
+export class SqlValidator {
+  private tables: Set<string>;
+  private parser = new Parser();
+
+  constructor(tableNames: string[]) {
+    this.tables = new Set(tableNames.map(name => name.toLowerCase()));
+  }
+
+  validate(sql: string): SqlValidationResult {
+    let ast: any;
+    try {
+      ast = this.parser.astify(sql, { database: SQL_DIALECT });
+    } catch (error: any) {
+      return { approved: false, errors: [`SQL could not be parsed: ${error.message}`] };
+    }
+
+    const statements = Array.isArray(ast) ? ast : [ast];
+    if (statements.length !== 1) {
+      return { approved: false, errors: ['Exactly one SQL statement is allowed'] };
+    }
+    if (statements[0].type !== 'select') {
+      return { approved: false, errors: [`Only SELECT/WITH queries are allowed, got ${String(statements[0].type).toUpperCase()}`] };
+    }
+
+    const errors: string[] = [];
+    const cteNames = new Set<string>();
+    this.collectCteNames(statements[0], cteNames);
+    this.checkNode(statements[0], cteNames, errors);
+
+    return { approved: errors.length === 0, errors: Array.from(new Set(errors)) };
+  }
+
+  private collectCteNames(node: any, names: Set<string>) {
+    if (!node || typeof node !== 'object') return;
+    if (Array.isArray(node)) {
+      node.forEach(child => this.collectCteNames(child, names));
+      return;
+    }
+    if (Array.isArray(node.with)) {
+      node.with.forEach((cte: any) => {
+        const name = cte?.name?.value ?? cte?.name;
+        if (typeof name === 'string') names.add(name.toLowerCase());
+      });
+    }
+    Object.values(node).forEach(child => this.collectCteNames(child, names));
+  }
+
+  /**
+   * Walk the AST rejecting writes, table functions and unknown tables
+   */
+  private checkNode(node: any, cteNames: Set<string>, errors: string[]) {
+    if (!node || typeof node !== 'object') return;
+    if (Array.isArray(node)) {
+      node.forEach(child => this.checkNode(child, cteNames, errors));
+      return;
+    }
+
+    if (typeof node.type === 'string' && WRITE_STATEMENT_TYPES.includes(node.type.toLowerCase())) {
+      errors.push(`${node.type.toUpperCase()} statements are not allowed`);
+    }
+
+    if (Array.isArray(node.from)) {
+      node.from.forEach((item: any) => {
+        if (typeof item?.table === 'string') {
+          const table = item.table.toLowerCase();
+          if (!this.tables.has(table) && !cteNames.has(table)) {
+            errors.push(`Unknown table '${item.table}'. Available tables: ${Array.from(this.tables).join(', ')}`);
+          }
+        } else if (item?.expr?.type === 'function') {
+          errors.push('Table functions are not allowed in FROM');
+        }
+      });
+    }
+
+    Object.values(node).forEach(child => this.checkNode(child, cteNames, errors));
+  }
+}
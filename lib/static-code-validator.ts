@@ -0,0 +1,162 @@
+// Deterministic static safety check for generated Python code (Phase 1.5)
+// Parses the code with Python's ast module in a subprocess - the code itself is never run
+
+import { spawn } from 'child_process';
+
+export const ALLOWED_IMPORTS = ['pandas', 'numpy', 'math', 'datetime'];
+
+export interface StaticValidationResult {
+  approved: boolean;
+  errors: string[];
+}
+
+// Builtins that can execute code, touch the filesystem or reach into object internals
+const BANNED_NAMES = [
+  'open', 'eval', 'exec', 'compile', '__import__', 'getattr', 'setattr', 'delattr',
+  'globals', 'locals', 'vars', 'input', 'breakpoint', 'memoryview', 'help', 'exit', 'quit',
+];
+
+// Methods that evaluate strings as expressions (df.eval, df.query) or read and write files (np.load, np.save)
+const BANNED_ATTRIBUTES = [
+  'eval', 'query', 'load', 'loadtxt', 'genfromtxt', 'fromfile', 'fromregex', 'tofile', 'memmap',
+  'HDFStore', 'ExcelWriter',
+];
+
+// Attributes that lead from the allowed modules to native code, the filesystem or other modules
+// (np.ctypeslib.ctypes, pd.io.common.get_handle, datetime.sys). "_"-prefixed attributes are rejected too.
+const BANNED_MODULE_ATTRIBUTES = [
+  'ctypeslib', 'ctypes', 'io', 'common', 'get_handle', 'lib', 'util', 'compat', 'testing', 'core',
+  'sys', 'os', 'codecs', 'builtins', 'f2py', 'distutils', 'DataSource',
+];
+
+// File readers (pd.read_csv), savers (np.savez) and writers (df.to_csv); only the to_* conversions below are allowed
+const BANNED_ATTRIBUTE_PREFIXES = ['read_', 'save', 'to_'];
+const ALLOWED_CONVERSIONS = [
+  'to_datetime', 'to_numeric', 'to_timedelta', 'to_period', 'to_timestamp', 'to_pydatetime',
+  'to_dict', 'to_list', 'to_numpy', 'to_frame', 'to_series', 'to_records', 'to_flat_index',
+];
+
+const TIMEOUT_MS = 5000;
+
+// Reads the code from stdin and prints {"errors": [...]} to stdout
+const CHECKER_SCRIPT = `
+import ast, json, re, sys
+
+ALLOWED_IMPORTS = set(${JSON.stringify(ALLOWED_IMPORTS)})
+BANNED_NAMES = set(${JSON.stringify(BANNED_NAMES)})
+BANNED_ATTRIBUTES = set(${JSON.stringify(BANNED_ATTRIBUTES)})
+BANNED_ATTRIBUTE_PREFIXES = tuple(${JSON.stringify(BANNED_ATTRIBUTE_PREFIXES)})
+ALLOWED_CONVERSIONS = set(${JSON.stringify(ALLOWED_CONVERSIONS)})
+BANNED_MODULE_ATTRIBUTES = set(${JSON.stringify(BANNED_MODULE_ATTRIBUTES)})
+DUNDER = re.compile(r'__\\w+__')
+
+errors = []
+def err(node, message):
+    errors.append('Line %s: %s' % (getattr(node, 'lineno', '?'), message))
+
+def is_banned_attribute(name):
+    return (name.startswith('_') or name in BANNED_ATTRIBUTES or name in BANNED_MODULE_ATTRIBUTES or
+            (name.startswith(BANNED_ATTRIBUTE_PREFIXES) and name not in ALLOWED_CONVERSIONS))
+
+def check_import(node, module, names):
+    # "import numpy.ctypeslib" and "from pandas.io import common" reach the same attributes as np.ctypeslib
+    for part in module.split('.')[1:] + names:
+        if is_banned_attribute(part):
+            err(node, "import of '%s' is not allowed" % part)
+
+try:
+    tree = ast.parse(sys.stdin.read())
+except SyntaxError as e:
+    print(json.dumps({'errors': ['Syntax error on line %s: %s' % (e.lineno, e.msg)]}))
+    sys.exit(0)
+
+assigns_result = False
+for node in ast.walk(tree):
+    if isinstance(node, ast.Import):
+        for alias in node.names:
+            if alias.name.split('.')[0] not in ALLOWED_IMPORTS:
+                err(node, "import of '%s' is not allowed" % alias.name)
+            else:
+                check_import(node, alias.name, [])
+    elif isinstance(node, ast.ImportFrom):
+        if node.level or (node.module or '').split('.')[0] not in ALLOWED_IMPORTS:
+            err(node, "import from '%s' is not allowed" % (node.module or '.'))
+        else:
+            check_import(node, node.module, [alias.name for alias in node.names if alias.name != '*'])
+    elif isinstance(node, ast.Attribute):
+        if node.attr.startswith('__') and node.attr.endswith('__'):
+            err(node, "access to dunder attribute '%s' is not allowed" % node.attr)
+        elif is_banned_attribute(node.attr):
+            err(node, "'.%s' is not allowed" % node.attr)
+    elif isinstance(node, ast.Name):
+        if node.id in BANNED_NAMES or node.id.startswith('__'):
+            err(node, "use of '%s' is not allowed" % node.id)
+        elif node.id == 'result' and isinstance(node.ctx, ast.Store):
+            assigns_result = True
+    elif isinstance(node, ast.Constant) and isinstance(node.value, str):
+        if DUNDER.search(node.value):
+            err(node, 'string containing a dunder name is not allowed')
+    elif isinstance(node, (ast.Global, ast.Nonlocal)):
+        err(node, 'global/nonlocal statements are not allowed')
+
+if not assigns_result:
+    errors.append('Code must assign a "result" variable')
+
+print(json.dumps({'errors': errors}))
+`;
+
+export class StaticCodeValidator {
+  /**
+   * Check code against the import allow-list and banned constructs.
+   * Anything that prevents the check from running counts as a rejection.
+   */
+  async validate(code: string): Promise<StaticValidationResult> {
+    try {
+      const output = await this.runChecker(code);
+      const { errors } = JSON.parse(output) as { errors: string[] };
+      return { approved: errors.length === 0, errors };
+    } catch (error: any) {
+      return {
+        approved: false,
+        errors: [`Static analysis failed: ${error.message || error}`],
+      };
+    }
+  }
+
+  private runChecker(code: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const checker = spawn('python3', ['-I', '-c', CHECKER_SCRIPT]);
+      let stdout = '';
+      let stderr = '';
+
+      const timer = setTimeout(() => {
+        checker.kill();
+        reject(new Error('Static analysis timeout'));
+      }, TIMEOUT_MS);
+
+      checker.stdout.on('data', (data) => {
+        stdout += data.toString();
+      });
+
+      checker.stderr.on('data', (data) => {
+        stderr += data.toString();
+      });
+
+      checker.on('error', (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+
+      checker.on('close', (exitCode) => {
+        clearTimeout(timer);
+        if (exitCode !== 0) {
+          reject(new Error(stderr || `checker exited with code ${exitCode}`));
+        } else {
+          resolve(stdout);
+        }
+      });
+
+      checker.stdin.end(code);
+    });
+  }
+}
@@ -33,14 +33,39 @@ export interface CodeValidationResult {
   risks: string[];
 }
 
+export type FilterOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'starts_with'
+  | 'greater_than'
+  | 'less_than'
+  | 'between'
+  | 'in'
+  | 'not_in'
+  | 'is_null'
+  | 'not_null'
+  | 'regex';
+
 export interface QueryFilter {
   field: string;
-  operator: 'equals' | 'contains' | 'greater_than' | 'less_than' | 'between';
-  value: any;
+  operator: FilterOperator;
+  value?: any;
+}
+
+// Boolean combination of filters; exactly one of and/or/not is expected
+export interface FilterGroup {
+  and?: FilterNode[];
+  or?: FilterNode[];
+  not?: FilterNode;
 }
 
+export type FilterNode = QueryFilter | FilterGroup;
+
 export interface RetryContext {
   previousCode: string;
   error: string;
   attempt: number;
+  previousFilters?: FilterNode[];
+  previousSql?: string;
 }
@@ -1,4 +1,10 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {}
+const nextConfig = {
+  experimental: {
+    // Native DuckDB bindings must be loaded from node_modules, not bundled; exceljs and mysql2 are
+    // large and only used by server-side data adapters
+    serverComponentsExternalPackages: ['@duckdb/node-api', '@duckdb/node-bindings', 'exceljs', 'mysql2'],
+  },
+}
 
 module.exports = nextConfig
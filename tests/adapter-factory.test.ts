@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { createDataAdapter } from '@/lib/adapters/adapter-factory';
+import { DataSourceConfig } from '@/lib/adapters/data.adapter';
+
+const config: DataSourceConfig = { type: 'json', datasetsPath: './data', defaultDataset: 'spacex-launches' };
+
+function selection() {
+  return createDataAdapter(config, ['us-presidents', 'spacex-launches']);
+}
+
+describe('multi-dataset selection', () => {
+  it('counts and profiles every dataset', async () => {
+    const adapter = await selection();
+
+    expect(await adapter.count!()).toBe(47 + 578);
+    const schema = await adapter.getSchema!();
+    expect(schema.totalRecords).toBe(47 + 578);
+    expect(schema.fields.map(field => field.name)).toEqual(expect.arrayContaining(['name', 'mission_name', '_dataset_source']));
+  });
+
+  it('applies the limit across datasets', async () => {
+    const records = await (await selection()).getData({ columns: ['name', 'vehicle'], limit: 50 });
+
+    expect(records).toHaveLength(50);
+    expect(records[0]).toMatchObject({ name: 'George Washington', _dataset_source: 'us-presidents' });
+    expect(records[47]).toMatchObject({ vehicle: 'Falcon 1', _dataset_source: 'spacex-launches' });
+  });
+
+  it('pushes filters, fields and the limit down to each dataset', async () => {
+    const result = await (await selection()).query!({
+      filters: [{ field: 'vehicle', operator: 'equals', value: 'Falcon Heavy' }],
+      fields: ['mission_name'],
+      limit: 3,
+      withTotal: true,
+    });
+
+    expect(result.limitApplied).toBe(true);
+    expect(result.remainingFilters).toEqual([]);
+    expect(result.records).toHaveLength(3);
+    expect(result.records.every(record => record._dataset_source === 'spacex-launches')).toBe(true);
+    expect(result.total).toBeGreaterThan(3);
+  });
+
+  it('leaves filters on the dataset source, sorting and offsets to the caller', async () => {
+    const sourceFilter = { field: '_dataset_source', operator: 'equals' as const, value: 'us-presidents' };
+    const result = await (await selection()).query!({
+      filters: [sourceFilter],
+      fields: ['name'],
+      sort: { field: 'name', direction: 'asc' },
+      offset: 10,
+      limit: 5,
+    });
+
+    expect(result.limitApplied).toBe(false);
+    expect(result.remainingFilters).toEqual([sourceFilter]);
+    expect(result.records).toHaveLength(47 + 578);
+  });
+
+  it('streams every record tagged with its dataset', async () => {
+    const sources: Record<string, number> = {};
+    for await (const record of (await selection()).stream!()) {
+      sources[record._dataset_source] = (sources[record._dataset_source] || 0) + 1;
+    }
+
+    expect(sources).toEqual({ 'us-presidents': 47, 'spacex-launches': 578 });
+  });
+});
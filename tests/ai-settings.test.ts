@@ -0,0 +1,49 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { createAIAdapter } from '@/lib/adapters/ai-adapter-factory';
+
+// The route writes config/app.yaml and .env under the working directory, so it runs in a copy
+let workDir: string;
+let POST: typeof import('@/app/api/admin/ai-settings/route').POST;
+let loadConfig: typeof import('@/lib/config').loadConfig;
+
+beforeAll(async () => {
+  workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'chathero-settings-'));
+  await fs.mkdir(path.join(workDir, 'config'));
+  await fs.writeFile(path.join(workDir, 'config', 'app.yaml'), 'ai:\n  provider: openai\n  model: gpt-4o-mini\n  apiKey: ${OPENAI_API_KEY}\n');
+  vi.spyOn(process, 'cwd').mockReturnValue(workDir);
+  vi.resetModules();
+  ({ POST } = await import('@/app/api/admin/ai-settings/route'));
+  ({ loadConfig } = await import('@/lib/config'));
+});
+
+afterAll(async () => {
+  vi.restoreAllMocks();
+  delete process.env.ANTHROPIC_API_KEY;
+  await fs.rm(workDir, { recursive: true, force: true });
+});
+
+describe('POST /api/admin/ai-settings', () => {
+  it('applies the saved settings to the next config load', async () => {
+    expect((await loadConfig()).ai.provider).toBe('openai');
+
+    const response = await POST(new NextRequest('http://localhost/api/admin/ai-settings', {
+      method: 'POST',
+      body: JSON.stringify({ provider: 'anthropic', model: 'claude-sonnet-4-5', apiKey: 'test-key' }),
+    }));
+
+    expect(response.status).toBe(200);
+    expect((await loadConfig()).ai).toMatchObject({ provider: 'anthropic', model: 'claude-sonnet-4-5', apiKey: 'test-key' });
+    expect(await fs.readFile(path.join(workDir, '.env'), 'utf-8')).toContain('ANTHROPIC_API_KEY=test-key');
+  });
+});
+
+describe('createAIAdapter', () => {
+  it('rejects a replay provider that records through itself', () => {
+    expect(() => createAIAdapter({ provider: 'replay', model: 'gpt-4o', apiKey: '', replay: { provider: 'replay' } }))
+      .toThrow(/live provider/);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it, vi } from 'vitest';
+import { chatRequest, withReplayProvider } from './replay';
+import { POST } from '@/app/api/chat-stream/route';
+
+vi.mock('@/lib/config', async importOriginal => {
+  const actual = await importOriginal<typeof import('@/lib/config')>();
+  return { ...actual, loadConfig: async () => withReplayProvider(await actual.loadConfig()) };
+});
+
+/**
+ * Read the whole event stream of a question as {event, data} pairs
+ */
+async function ask(message: string, datasets: string[]): Promise<Array<{ event: string; data: any }>> {
+  const response = await POST(chatRequest('/api/chat-stream', message, datasets));
+  expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+
+  const text = await response.text();
+  return text.split('\n\n').filter(Boolean).map(block => {
+    const [eventLine, dataLine] = block.split('\n');
+    return { event: eventLine.replace('event: ', ''), data: JSON.parse(dataLine.replace('data: ', '')) };
+  });
+}
+
+describe('POST /api/chat-stream (replay)', () => {
+  it('streams every phase and the answer for a filter plan over us-presidents', async () => {
+    const events = await ask('How many Republican presidents have there been?', ['us-presidents']);
+    const complete = events[events.length - 1];
+
+    expect(complete.event).toBe('complete');
+    expect(complete.data.response).toBe('There have been 20 Republican presidents.');
+    expect(complete.data.phaseDetails.phase2).toMatchObject({ inputRecords: 47, outputRecords: 20, filtersApplied: 1 });
+
+    const completed = events.filter(e => e.event === 'phase' && e.data.status === 'completed').map(e => e.data.id);
+    expect(completed).toEqual(expect.arrayContaining(['phase1', 'phase2', 'phase2.5', 'phase3']));
+  });
+
+  it('joins spacex-launches to us-presidents through a declared relationship', async () => {
+    const events = await ask('How many SpaceX launches happened under each president?', ['us-presidents', 'spacex-launches']);
+    const complete = events[events.length - 1];
+
+    expect(complete.event).toBe('complete');
+    expect(complete.data.response).toContain('Joe Biden: 340 launches');
+    expect(complete.data.phaseDetails.phase1.relationship).toBe('president_launches');
+    expect(complete.data.phaseDetails.phase2).toMatchObject({ joinedRecords: 578, outputRecords: 4, sqlExecuted: true });
+  });
+
+  it('sends an error event when no response was recorded', async () => {
+    const events = await ask('A question nobody recorded', ['us-presidents']);
+
+    expect(events[events.length - 1].event).toBe('error');
+    expect(events[events.length - 1].data.message).toContain('no recorded response');
+  });
+});
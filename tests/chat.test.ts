@@ -0,0 +1,46 @@
+import { describe, expect, it, vi } from 'vitest';
+import { chatRequest, withReplayProvider } from './replay';
+import { POST } from '@/app/api/chat/route';
+
+vi.mock('@/lib/config', async importOriginal => {
+  const actual = await importOriginal<typeof import('@/lib/config')>();
+  return { ...actual, loadConfig: async () => withReplayProvider(await actual.loadConfig()) };
+});
+
+async function ask(message: string, datasets: string[]) {
+  const response = await POST(chatRequest('/api/chat', message, datasets));
+  return { status: response.status, body: await response.json() };
+}
+
+describe('POST /api/chat (replay)', () => {
+  it('answers from a SQL plan over spacex-launches', async () => {
+    const { status, body } = await ask('How many launches failed?', ['spacex-launches']);
+
+    expect(status).toBe(200);
+    expect(body.response).toBe('15 of the 578 SpaceX launches in the dataset ended in failure.');
+    expect(body.phaseDetails.phase1.sql).toContain("outcome = 'Failure'");
+    expect(body.phaseDetails.phase2).toMatchObject({ inputRecords: 578, outputRecords: 1, sqlExecuted: true, executionError: null });
+    expect(body.conversationHistory).toHaveLength(2);
+  });
+
+  it('answers from a SQL plan over global_connect', async () => {
+    const { status, body } = await ask('Which market had the most orders?', ['global_connect']);
+
+    expect(status).toBe(200);
+    expect(body.response).toContain('Asia Pacific had the most orders');
+    expect(body.phaseDetails.phase2).toMatchObject({ inputRecords: 10256, outputRecords: 5, sqlExecuted: true });
+  });
+
+  it('fails the request when no response was recorded', async () => {
+    const { status, body } = await ask('A question nobody recorded', ['spacex-launches']);
+
+    expect(status).toBe(500);
+    expect(body.error).toBe('Failed to process chat request');
+  });
+
+  it('rejects a request without a message', async () => {
+    const { status } = await ask('', ['spacex-launches']);
+
+    expect(status).toBe(400);
+  });
+});
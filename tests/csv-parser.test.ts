@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { CsvParser, detectDelimiter, parseCsv } from '@/lib/adapters/csv-parser';
+
+function rows(content: string, dialect = {}) {
+  const parsed: Array<{ values: string[]; line: number }> = [];
+  const summary = parseCsv(content, (values, line) => parsed.push({ values, line }), dialect);
+  return { parsed, summary };
+}
+
+describe('parseCsv', () => {
+  it('reads quoted fields with delimiters, escaped quotes and newlines', () => {
+    const { parsed, summary } = rows('﻿name,notes\r\n"Falcon 9","reusable, ""block 5""\r\nbooster"\r\nStarship,\r\n');
+
+    expect(summary).toMatchObject({ headers: ['name', 'notes'], delimiter: ',', rowCount: 2, malformedRows: 0 });
+    expect(parsed).toEqual([
+      { values: ['Falcon 9', 'reusable, "block 5"\r\nbooster'], line: 2 },
+      { values: ['Starship', ''], line: 4 },
+    ]);
+  });
+
+  it('skips rows with the wrong number of fields and reports their line', () => {
+    const { parsed, summary } = rows('a,b\n1,2\n3\n4,5,6\n7,8');
+
+    expect(parsed.map(row => row.values)).toEqual([['1', '2'], ['7', '8']]);
+    expect(summary.malformedRows).toBe(2);
+    expect(summary.errors.map(error => error.line)).toEqual([3, 4]);
+  });
+
+  it('detects semicolons, tabs and pipes, ignoring delimiters inside quotes', () => {
+    expect(detectDelimiter('a;b;c\n1;"2,5";3\n')).toBe(';');
+    expect(detectDelimiter('a\tb\n1\t2\n')).toBe('\t');
+    expect(detectDelimiter('a|b\n"x|y"|2\n')).toBe('|');
+    expect(rows('a;b\n"1,5";2\n').parsed[0].values).toEqual(['1,5', '2']);
+  });
+
+  it('honours a configured delimiter and quote', () => {
+    expect(rows("a,b|c\n'x|y'|2\n", { delimiter: '|', quote: "'" }).parsed[0].values).toEqual(['x|y', '2']);
+  });
+
+  it('gives the same rows however the input is split into chunks', () => {
+    const content = 'id,text\n' + Array.from({ length: 30 }, (_, i) => `${i},"line ${i}\nwith ""quotes"""`).join('\r\n');
+    const whole = rows(content).parsed;
+
+    const chunked: string[][] = [];
+    const parser = new CsvParser(values => chunked.push(values));
+    for (let i = 0; i < content.length; i += 7) {
+      parser.write(content.slice(i, i + 7));
+    }
+    parser.end();
+
+    expect(whole).toHaveLength(30);
+    expect(chunked).toEqual(whole.map(row => row.values));
+  });
+});
@@ -0,0 +1,98 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, expect, it, vi } from 'vitest';
+import { convertValue, DEFAULT_NULL_VALUES, inferFieldSpec, loadDeclaredFieldTypes } from '@/lib/adapters/csv-typing';
+
+const nullValues = new Set(DEFAULT_NULL_VALUES);
+
+describe('inferFieldSpec', () => {
+  it('picks the narrowest type that fits every non-null value', () => {
+    expect(inferFieldSpec(['1', '1,000', 'N/A', '-7'], nullValues)).toEqual({ type: 'integer' });
+    expect(inferFieldSpec(['1.5', '2', '3e2'], nullValues)).toEqual({ type: 'decimal' });
+    expect(inferFieldSpec(['$5', '5', '$(1,200.50)', '$-'], nullValues)).toEqual({ type: 'currency' });
+    expect(inferFieldSpec(['45%', '2.5 %'], nullValues)).toEqual({ type: 'percent' });
+    expect(inferFieldSpec(['true', 'FALSE', ''], nullValues)).toEqual({ type: 'boolean' });
+    expect(inferFieldSpec(['2021-01-05', '2021-02-01T10:00:00Z'], nullValues)).toEqual({ type: 'date' });
+  });
+
+  it('keeps IDs with leading zeros and empty columns as strings', () => {
+    expect(inferFieldSpec(['00123', '45'], nullValues)).toEqual({ type: 'string' });
+    expect(inferFieldSpec(['', 'N/A'], nullValues)).toEqual({ type: 'string' });
+  });
+
+  it('reads slash dates day-first only when a first part cannot be a month', () => {
+    expect(inferFieldSpec(['01/02/2021', '12/31/2021'], nullValues)).toEqual({ type: 'date', format: 'MM/DD/YYYY' });
+    expect(inferFieldSpec(['01/02/2021', '31/12/2021'], nullValues)).toEqual({ type: 'date', format: 'DD/MM/YYYY' });
+  });
+});
+
+describe('convertValue', () => {
+  it('converts numbers, currency, percentages and booleans', () => {
+    expect(convertValue(' 1,234 ', { type: 'integer' }, nullValues)).toBe(1234);
+    expect(convertValue('$1,234.50', { type: 'currency' }, nullValues)).toBe(1234.5);
+    expect(convertValue('$(122.80)', { type: 'currency' }, nullValues)).toBe(-122.8);
+    expect(convertValue('-$122.80', { type: 'currency' }, nullValues)).toBe(-122.8);
+    expect(convertValue('45%', { type: 'percent' }, nullValues)).toBe(0.45);
+    expect(convertValue('45%', { type: 'percent', format: 'points' }, nullValues)).toBe(45);
+    expect(convertValue('Yes', { type: 'boolean' }, nullValues)).toBe(true);
+  });
+
+  it('converts formatted dates to ISO form', () => {
+    expect(convertValue('31.12.2021', { type: 'date', format: 'DD.MM.YYYY' }, nullValues)).toBe('2021-12-31');
+    expect(convertValue('1/2/2021 13:05:09', { type: 'date', format: 'M/D/YYYY HH:mm:ss' }, nullValues)).toBe('2021-01-02T13:05:09');
+    expect(convertValue('2021-03-04', { type: 'date' }, nullValues)).toBe('2021-03-04');
+  });
+
+  it('returns null for null tokens, and reports values that do not fit', () => {
+    const onInvalid = vi.fn();
+
+    expect(convertValue('N/A', { type: 'integer' }, nullValues, onInvalid)).toBeNull();
+    expect(convertValue('-', { type: 'integer' }, new Set(['-']), onInvalid)).toBeNull();
+    expect(onInvalid).not.toHaveBeenCalled();
+
+    expect(convertValue('1.5', { type: 'integer' }, nullValues, onInvalid)).toBeNull();
+    expect(convertValue('31/02/2021', { type: 'date', format: 'DD/MM/YYYY' }, nullValues, onInvalid)).toBeNull();
+    expect(convertValue('maybe', { type: 'boolean' }, nullValues, onInvalid)).toBeNull();
+    expect(onInvalid).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('loadDeclaredFieldTypes', () => {
+  it('reads type and format from any field list in schema.yaml, skipping unknown types', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'csv-typing-'));
+    const schemaPath = path.join(dir, 'schema.yaml');
+    await fs.writeFile(schemaPath, [
+      'dataSchema:',
+      '  categoricalFields:',
+      '    - name: zip',
+      '      type: string',
+      '  numericFields:',
+      '    - name: price',
+      '      type: currency',
+      '    - name: weight',
+      '  fields:',
+      '    - name: day',
+      '      type: date',
+      '      format: DD/MM/YYYY',
+      '    - name: odd',
+      '      type: money',
+    ].join('\n'));
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    try {
+      const types = await loadDeclaredFieldTypes(schemaPath);
+
+      expect(Object.fromEntries(types)).toEqual({
+        zip: { type: 'string', format: undefined },
+        price: { type: 'currency', format: undefined },
+        day: { type: 'date', format: 'DD/MM/YYYY' },
+      });
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining("unknown type 'money'"));
+      expect((await loadDeclaredFieldTypes(path.join(dir, 'missing.yaml'))).size).toBe(0);
+    } finally {
+      warn.mockRestore();
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/data/facets/route';
+import { computeFacets, parseDataQuery } from '@/lib/data-query';
+import { SchemaDiscovery } from '@/lib/schema-discovery';
+
+describe('computeFacets', () => {
+  const records = [
+    { vehicle: 'Falcon 9', outcome: 'Success', tags: ['crew'] },
+    { vehicle: 'Falcon 9', outcome: 'Failure', tags: [] },
+    { vehicle: 'Falcon Heavy', outcome: 'Success', tags: ['crew', 'cargo'] },
+  ];
+  const schema = SchemaDiscovery.discover(records);
+
+  it("counts each field's values without that field's own selection", () => {
+    const query = parseDataQuery(new URLSearchParams('facet.vehicle=Falcon 9&facet.outcome=Landed'));
+    const { facets, errors } = computeFacets(records, query, schema, [{ name: 'vehicle', displayName: 'Vehicle' }, { name: 'outcome' }, { name: 'tags' }]);
+
+    expect(errors).toEqual([]);
+    expect(facets).toEqual([
+      // No record is Landed, but the selected vehicle stays listed
+      { field: 'vehicle', displayName: 'Vehicle', values: [{ value: 'Falcon 9', count: 0, selected: true }] },
+      {
+        field: 'outcome',
+        displayName: 'outcome',
+        values: [
+          { value: 'Failure', count: 1, selected: false },
+          { value: 'Success', count: 1, selected: false },
+          { value: 'Landed', count: 0, selected: true },
+        ],
+      },
+      { field: 'tags', displayName: 'tags', values: [] },
+    ]);
+  });
+
+  it('counts every item of list values', () => {
+    const { facets } = computeFacets(records, parseDataQuery(new URLSearchParams()), schema, [{ name: 'tags' }]);
+
+    expect(facets[0].values).toEqual([{ value: 'crew', count: 2, selected: false }, { value: 'cargo', count: 1, selected: false }]);
+  });
+});
+
+describe('GET /api/data/facets', () => {
+  it('counts facets at the source for the selected values', async () => {
+    const response = await GET(new NextRequest('http://localhost/api/data/facets?dataset=spacex-launches&facet.vehicle=Falcon%209'));
+    const { facets } = await response.json();
+    const facet = (name: string) => facets.find((f: any) => f.field === name).values;
+
+    expect(response.status).toBe(200);
+    expect(facet('outcome')).toEqual([{ value: 'Success', count: 539, selected: false }, { value: 'Failure', count: 4, selected: false }]);
+    expect(facet('vehicle')[0]).toEqual({ value: 'Falcon 9', count: 543, selected: true });
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { applyDataQuery, parseDataQuery } from '@/lib/data-query';
+import { SchemaDiscovery } from '@/lib/schema-discovery';
+
+const records = [
+  { name: 'Falcon 9', year: 2020 },
+  { name: 'Falcon Heavy', year: 2022 },
+  { name: 'a'.repeat(40) + '!', year: 2024 },
+];
+const schema = SchemaDiscovery.discover(records);
+
+function query(params: string) {
+  return parseDataQuery(new URLSearchParams(params));
+}
+
+describe('parseDataQuery', () => {
+  it('reads operators, shorthands and plain text', () => {
+    expect(query('filter.year=between:2020,2022&filter.name=!=Falcon 9&filter.id=>5&filter.notes=heavy').filters).toEqual([
+      { field: 'year', operator: 'between', value: ['2020', '2022'] },
+      { field: 'name', operator: 'not_equals', value: 'Falcon 9' },
+      { field: 'id', operator: 'greater_than', value: '5' },
+      { field: 'notes', operator: 'contains', value: 'heavy' },
+    ]);
+  });
+
+  it('treats a regex filter from the URL as plain text', () => {
+    expect(query(`filter.name=${encodeURIComponent('regex:(a+)+$')}`).filters).toEqual([
+      { field: 'name', operator: 'contains', value: 'regex:(a+)+$' },
+    ]);
+  });
+});
+
+describe('applyDataQuery', () => {
+  it('filters and sorts with the URL filters', () => {
+    const result = applyDataQuery(records, { ...query('filter.year=in:2020,2022'), sort: 'year', dir: 'desc' }, schema);
+
+    expect(result.errors).toEqual([]);
+    expect(result.data.map(record => record.name)).toEqual(['Falcon Heavy', 'Falcon 9']);
+  });
+
+  it('does not run a catastrophic pattern from the URL', () => {
+    const started = Date.now();
+    const result = applyDataQuery(records, query(`filter.name=${encodeURIComponent('regex:(a+)+$')}`), schema);
+
+    expect(result.data).toEqual([]);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+});
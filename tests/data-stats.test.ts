@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/data/stats/route';
+import { SchemaDiscovery } from '@/lib/schema-discovery';
+
+async function stats(params: string) {
+  const response = await GET(new NextRequest(`http://localhost/api/data/stats?${params}`));
+  return { status: response.status, body: await response.json() };
+}
+
+describe('SchemaDiscovery.columnStats', () => {
+  const records = [
+    { cost: 7, launched: '2024-01-15', outcome: 'Success' },
+    { cost: 62, launched: '2024-03-02', outcome: 'Success' },
+    { cost: 90, launched: '2024-03-20', outcome: 'Failure' },
+    { cost: null, launched: '', outcome: 'Success' },
+  ];
+  const schema = SchemaDiscovery.discover(records);
+
+  it('summarises numbers and counts empty values', () => {
+    expect(SchemaDiscovery.columnStats(records, schema, 'cost')).toMatchObject({
+      type: 'number', totalRecords: 4, nullCount: 1, distinctCount: 3,
+      numeric: { min: 7, max: 90, mean: 53, median: 62 },
+    });
+  });
+
+  it('counts dates per month, with empty months filled in', () => {
+    expect(SchemaDiscovery.columnStats(records, schema, 'launched')!.dates).toEqual({
+      min: '2024-01-15',
+      max: '2024-03-20',
+      histogram: [{ month: '2024-01', count: 1 }, { month: '2024-02', count: 0 }, { month: '2024-03', count: 2 }],
+    });
+  });
+
+  it('lists the most frequent values of categorical fields', () => {
+    expect(SchemaDiscovery.columnStats(records, schema, 'outcome', 1)!.topValues).toEqual([{ value: 'Success', count: 3 }]);
+  });
+});
+
+describe('GET /api/data/stats', () => {
+  it('profiles a column of the records matching the filters', async () => {
+    const { status, body } = await stats('dataset=spacex-launches&field=outcome&filter.vehicle=Falcon%209');
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ name: 'outcome', totalRecords: 543, topValues: [{ value: 'Success', count: 539 }, { value: 'Failure', count: 4 }] });
+  });
+
+  it('rejects unknown fields and invalid filters', async () => {
+    expect((await stats('dataset=spacex-launches&field=rocket')).status).toBe(404);
+    expect((await stats('dataset=spacex-launches&filter.rocket=x')).status).toBe(400);
+  });
+});
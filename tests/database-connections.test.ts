@@ -0,0 +1,59 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { PGlite } from '@electric-sql/pglite';
+import { PGLiteSocketServer } from '@electric-sql/pglite-socket';
+import { DatabaseClient, getDatabaseClient } from '@/lib/adapters/database-connections';
+
+// An in-process PostgreSQL server speaking the wire protocol, so the real pg client is exercised
+let db: PGlite;
+let server: PGLiteSocketServer;
+let client: DatabaseClient;
+
+beforeAll(async () => {
+  db = await PGlite.create();
+  await db.exec("CREATE TABLE orders (id INTEGER, region TEXT); INSERT INTO orders VALUES (1, 'North'), (2, 'South')");
+  server = new PGLiteSocketServer({ db, port: 0 });
+  await server.start();
+  client = getDatabaseClient('pglite', {
+    type: 'postgres',
+    url: `postgres://postgres@${server.getServerConn()}/postgres`,
+    maxConnections: 1,
+  });
+});
+
+afterAll(async () => {
+  await (client as DatabaseClient & { end(): Promise<void> }).end();
+  await server.stop();
+  await db.close();
+});
+
+async function orderCount(): Promise<number> {
+  return (await db.query<{ count: number }>('SELECT COUNT(*)::int AS count FROM orders')).rows[0].count;
+}
+
+describe('PostgreSQL connections', () => {
+  it('runs a select with and without parameters', async () => {
+    expect(await client.select('SELECT id, region FROM orders ORDER BY id')).toEqual([
+      { id: 1, region: 'North' },
+      { id: 2, region: 'South' },
+    ]);
+    expect(await client.select('SELECT region FROM orders WHERE id = $1', [2])).toEqual([{ region: 'South' }]);
+  });
+
+  it('rejects writes inside the read-only transaction', async () => {
+    await expect(client.select('DELETE FROM orders')).rejects.toThrow(/read-only transaction/);
+    expect(await orderCount()).toBe(2);
+  });
+
+  it('rejects a saved query that ends the read-only transaction', async () => {
+    await expect(client.select('SELECT 1; COMMIT; DELETE FROM orders')).rejects.toThrow(/multiple commands/);
+    await expect(client.columns('orders; COMMIT; DELETE FROM orders; SELECT * FROM orders')).rejects.toThrow(/multiple commands/);
+    expect(await orderCount()).toBe(2);
+  });
+
+  it('reads column types without reading rows', async () => {
+    expect(await client.columns('orders')).toEqual([
+      { name: 'id', type: 'number', exact: true },
+      { name: 'region', type: 'string', exact: true },
+    ]);
+  });
+});
@@ -0,0 +1,80 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { PGlite } from '@electric-sql/pglite';
+import { PGLiteSocketServer } from '@electric-sql/pglite-socket';
+import { DatabaseAdapter } from '@/lib/adapters/database.adapter';
+import { DataSourceConfig } from '@/lib/adapters/data.adapter';
+import { getDatabaseClient } from '@/lib/adapters/database-connections';
+
+// Datasets of an in-process PostgreSQL server, read through the real pg client
+let db: PGlite;
+let server: PGLiteSocketServer;
+let datasetsDir: string;
+let config: DataSourceConfig;
+
+async function writeDataset(name: string, settings: Record<string, string>) {
+  const dir = path.join(datasetsDir, 'postgres', name);
+  await fs.mkdir(dir, { recursive: true });
+  const lines = Object.entries(settings).map(([key, value]) => `  ${key}: ${JSON.stringify(value)}`);
+  await fs.writeFile(path.join(dir, 'metadata.yaml'), ['postgres:', ...lines].join('\n'));
+}
+
+beforeAll(async () => {
+  db = await PGlite.create();
+  await db.exec(`
+    CREATE TABLE launches (id INTEGER PRIMARY KEY, vehicle TEXT);
+    INSERT INTO launches VALUES (3, 'Falcon Heavy'), (1, 'Falcon 1'), (4, 'Falcon 9'), (2, 'Falcon 9');
+  `);
+  server = new PGLiteSocketServer({ db, port: 0 });
+  await server.start();
+
+  datasetsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'chathero-postgres-'));
+  await writeDataset('launches', { connection: 'pglite', table: 'launches' });
+  await writeDataset('falcon-9', { connection: 'pglite', query: "SELECT * FROM launches WHERE vehicle = 'Falcon 9'" });
+  config = {
+    type: 'json',
+    datasetsPath: path.relative(process.cwd(), datasetsDir),
+    connections: {
+      pglite: { type: 'postgres', url: `postgres://postgres@${server.getServerConn()}/postgres`, maxConnections: 1 },
+    },
+  };
+});
+
+afterAll(async () => {
+  const client = getDatabaseClient('pglite', config.connections!.pglite);
+  await (client as typeof client & { end(): Promise<void> }).end();
+  await server.stop();
+  await db.close();
+  await fs.rm(datasetsDir, { recursive: true, force: true });
+});
+
+describe('DatabaseAdapter', () => {
+  it('counts and filters at the source', async () => {
+    const adapter = new DatabaseAdapter(config, 'launches', 'postgres');
+    const result = await adapter.query({ filters: [{ field: 'vehicle', operator: 'equals', value: 'Falcon 9' }], fields: ['id'] });
+
+    expect(await adapter.count()).toBe(4);
+    expect(result.remainingFilters).toEqual([]);
+    expect(result.records.map(record => record.id).sort()).toEqual([2, 4]);
+  });
+
+  it('reads pages of a table in primary key order', async () => {
+    const adapter = new DatabaseAdapter(config, 'launches', 'postgres');
+    const pages = [];
+    for (const offset of [0, 2]) {
+      pages.push(await adapter.query({ fields: ['id'], offset, limit: 2, withTotal: true }));
+    }
+
+    expect(pages.every(page => page.limitApplied && page.total === 4)).toBe(true);
+    expect(pages.map(page => page.records.map(record => record.id))).toEqual([[1, 2], [3, 4]]);
+  });
+
+  it('leaves pages of a saved query without a key to the caller', async () => {
+    const result = await new DatabaseAdapter(config, 'falcon-9', 'postgres').query({ offset: 1, limit: 1 });
+
+    expect(result.limitApplied).toBe(false);
+    expect(result.records).toHaveLength(2);
+  });
+});
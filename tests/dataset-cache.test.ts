@@ -0,0 +1,90 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { DatasetCache } from '@/lib/dataset-cache';
+
+let dir: string;
+
+beforeAll(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'chathero-cache-'));
+});
+
+afterAll(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+async function writeFile(name: string, content: string): Promise<string> {
+  const file = path.join(dir, name);
+  await fs.writeFile(file, content);
+  return file;
+}
+
+describe('DatasetCache', () => {
+  it('parses a file once until it changes', async () => {
+    const cache = new DatasetCache();
+    const file = await writeFile('data.json', '[{"id":1}]');
+    let parses = 0;
+    const parse = (content: string) => { parses++; return JSON.parse(content); };
+
+    const [first, concurrent] = await Promise.all([cache.load(file, parse), cache.load(file, parse)]);
+    expect(concurrent).toBe(first);
+    expect(await cache.load(file, parse)).toBe(first);
+    expect(parses).toBe(1);
+
+    await fs.writeFile(file, '[{"id":1},{"id":2}]');
+    expect(await cache.load(file, parse)).toHaveLength(2);
+    expect(parses).toBe(2);
+  });
+
+  it('reloads when a settings file it depends on changes, and keeps variants apart', async () => {
+    const cache = new DatasetCache();
+    const file = await writeFile('data.csv', 'id\n1\n');
+    const settings = await writeFile('metadata.yaml', 'csv: {}\n');
+    let reads = 0;
+    const read = async () => [{ read: ++reads }];
+
+    const first = await cache.loadFile(file, read, [settings]);
+    expect(await cache.loadFile(file, read, [settings], 'sheet-2')).not.toBe(first);
+    await fs.writeFile(settings, 'csv:\n  delimiter: ";"\n');
+    expect(await cache.loadFile(file, read, [settings])).toEqual([{ read: 3 }]);
+  });
+
+  it('evicts the least recently used datasets above the memory limit, but keeps the newest', async () => {
+    const cache = new DatasetCache({ maxMemoryMb: 1 });
+    const large = await writeFile('large.json', JSON.stringify('x'.repeat(300 * 1024)));
+    const other = await writeFile('other.json', JSON.stringify('y'.repeat(300 * 1024)));
+    let reads = 0;
+    const read = async (file: string) => { reads++; return { file }; };
+
+    await cache.loadFile(large, read);
+    await cache.loadFile(other, read);
+    await cache.loadFile(other, read);
+    expect(reads).toBe(2);
+    await cache.loadFile(large, read);
+    expect(reads).toBe(3);
+  });
+
+  it('reads every time when disabled', async () => {
+    const cache = new DatasetCache({ enabled: false });
+    const file = await writeFile('disabled.json', '[]');
+    let reads = 0;
+    const read = async () => { reads++; return []; };
+
+    await cache.loadFile(file, read);
+    await cache.loadFile(file, read);
+    expect(reads).toBe(2);
+  });
+
+  it('discovers the schema of cached data once, with the types the reader declared', async () => {
+    const cache = new DatasetCache();
+    const file = await writeFile('typed.json', '[{"year":"2021"}]');
+    const data = await cache.load(file, JSON.parse);
+    cache.setFieldTypes(data, { year: 'number' });
+
+    const stats = cache.getStats(data);
+    expect(stats.recordCount).toBe(1);
+    expect(stats.schema.fields).toMatchObject([{ name: 'year', type: 'number' }]);
+    expect(cache.getStats(data).schema).toBe(stats.schema);
+  });
+});
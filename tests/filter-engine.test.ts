@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { FilterEngine, collectFilterFields } from '@/lib/filter-engine';
+import { SchemaDiscovery } from '@/lib/schema-discovery';
+import { FilterNode, QueryFilter } from '@/lib/types';
+
+const records = [
+  { name: 'Falcon 1', cost: '$7,000,000', reused: 'no', launched: '2008-09-28', year: 2008 },
+  { name: 'Falcon 9', cost: '62,000,000', reused: 'yes', launched: '2021-01-20', year: 2021 },
+  { name: 'Falcon Heavy', cost: 90000000, reused: true, launched: '2024-06-25', year: 2024 },
+  { name: 'Starship', cost: '', reused: null, launched: '', year: null },
+];
+
+function names(engine: FilterEngine, filter: QueryFilter, data: any[] = records): string[] {
+  return engine.apply(data, [filter]).map(record => record.name);
+}
+
+describe('FilterEngine coercion', () => {
+  const engine = FilterEngine.fromData(records, ['launched', 'year']);
+
+  it('compares currency text and numbers as numbers', () => {
+    expect(names(engine, { field: 'cost', operator: 'greater_than', value: '50,000,000' })).toEqual(['Falcon 9', 'Falcon Heavy']);
+    expect(names(engine, { field: 'cost', operator: 'less_than', value: 10000000 })).toEqual(['Falcon 1']);
+  });
+
+  it('reads yes/no text as booleans', () => {
+    const data = records.map(record => ({ ...record, reused: record.reused === true }));
+    const reused = new FilterEngine(SchemaDiscovery.discover(data, { reused: 'boolean' }));
+    expect(names(reused, { field: 'reused', operator: 'equals', value: 'yes' }, data)).toEqual(['Falcon Heavy']);
+    expect(names(reused, { field: 'reused', operator: 'equals', value: 'N' }, data)).toEqual(['Falcon 1', 'Falcon 9', 'Starship']);
+  });
+
+  it('matches partial dates against the whole period', () => {
+    expect(names(engine, { field: 'launched', operator: 'equals', value: '2021' })).toEqual(['Falcon 9']);
+    expect(names(engine, { field: 'launched', operator: 'greater_than', value: 2008 })).toEqual(['Falcon 9', 'Falcon Heavy']);
+    expect(names(engine, { field: 'launched', operator: 'between', value: { min: '2021-01', max: 2024 } })).toEqual(['Falcon 9', 'Falcon Heavy']);
+  });
+
+  it('reads 4-digit numbers in date fields as years', () => {
+    expect(names(engine, { field: 'year', operator: 'equals', value: '2021' })).toEqual(['Falcon 9']);
+    expect(names(engine, { field: 'year', operator: 'greater_than', value: '2020-12-31' })).toEqual(['Falcon 9', 'Falcon Heavy']);
+    expect(names(engine, { field: 'year', operator: 'less_than', value: 2021 })).toEqual(['Falcon 1']);
+  });
+
+  it('never matches empty values in comparisons', () => {
+    expect(names(engine, { field: 'cost', operator: 'less_than', value: 100000000 })).not.toContain('Starship');
+    expect(names(engine, { field: 'launched', operator: 'is_null' })).toEqual(['Starship']);
+  });
+});
+
+describe('FilterEngine groups', () => {
+  const engine = FilterEngine.fromData(records, ['launched']);
+  const heavyOrRecent: FilterNode = {
+    or: [
+      { field: 'name', operator: 'equals', value: 'Falcon Heavy' },
+      { and: [{ field: 'launched', operator: 'greater_than', value: '2020' }, { not: { field: 'reused', operator: 'equals', value: 'yes' } }] },
+    ],
+  };
+
+  it('evaluates nested and/or/not groups', () => {
+    expect(engine.apply(records, [heavyOrRecent]).map(record => record.name)).toEqual(['Falcon Heavy']);
+    expect(engine.apply(records, [{ not: heavyOrRecent }]).map(record => record.name)).toEqual(['Falcon 1', 'Falcon 9', 'Starship']);
+  });
+
+  it('keeps a group only when everything inside it is valid', () => {
+    const broken: FilterNode = { and: [{ field: 'name', operator: 'equals', value: 'x' }, { field: 'rocket', operator: 'equals', value: 'x' }] };
+    const result = engine.validate([heavyOrRecent, broken, { or: [] }, { and: [], or: [] } as FilterNode]);
+
+    expect(result.valid).toEqual([heavyOrRecent]);
+    expect(result.errors).toEqual([
+      expect.stringContaining("unknown field 'rocket'"),
+      'Filter group "or" must contain a non-empty list of filters',
+      expect.stringContaining('must have exactly one of "and", "or", "not"'),
+    ]);
+  });
+
+  it('collects the fields of nested filters', () => {
+    expect(collectFilterFields([heavyOrRecent, { field: 'cost', operator: 'is_null' }])).toEqual(['name', 'launched', 'reused', 'cost']);
+  });
+});
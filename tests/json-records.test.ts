@@ -0,0 +1,97 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { JSONAdapter } from '@/lib/adapters/json.adapter';
+import { flattenRecord, getRecordsAtPath, parseJsonLinesFile } from '@/lib/adapters/json-records';
+
+let datasetsDir: string;
+
+beforeAll(async () => {
+  datasetsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'chathero-json-'));
+
+  await fs.mkdir(path.join(datasetsDir, 'json', 'launches'), { recursive: true });
+  await fs.writeFile(path.join(datasetsDir, 'json', 'launches', 'data.jsonl'), [
+    '﻿{"name":"FalconSat","rocket":{"name":"Falcon 1"}}',
+    '',
+    '{"name":"broken",',
+    '{"name":"Trailblazer","rocket":{"name":"Falcon 1"}}\r',
+  ].join('\n'));
+
+  await fs.mkdir(path.join(datasetsDir, 'json', 'nested'), { recursive: true });
+  await fs.writeFile(path.join(datasetsDir, 'json', 'nested', 'data.json'), JSON.stringify({
+    meta: { count: 1 },
+    results: { items: [{ id: 1, rocket: { name: 'Falcon 9', stages: 2 }, tags: ['crew'] }] },
+  }));
+  await fs.writeFile(path.join(datasetsDir, 'json', 'nested', 'metadata.yaml'), [
+    'json:',
+    '  recordsPath: results.items',
+    '  flatten: true',
+    '  separator: _',
+  ].join('\n'));
+});
+
+afterAll(async () => {
+  await fs.rm(datasetsDir, { recursive: true, force: true });
+});
+
+describe('parseJsonLinesFile', () => {
+  it('reads one record per line, skipping blank lines and reporting malformed ones', async () => {
+    const records: { record: any; line: number }[] = [];
+    const summary = await parseJsonLinesFile(
+      path.join(datasetsDir, 'json', 'launches', 'data.jsonl'),
+      (record, line) => records.push({ record, line })
+    );
+
+    expect(records.map(({ record, line }) => [record.name, line])).toEqual([['FalconSat', 1], ['Trailblazer', 4]]);
+    expect(summary).toMatchObject({ recordCount: 2, malformedLines: 1, errors: [{ line: 3 }] });
+  });
+
+  it('rejects when the file cannot be read', async () => {
+    await expect(parseJsonLinesFile(path.join(datasetsDir, 'missing.jsonl'), () => {})).rejects.toThrow();
+  });
+});
+
+describe('getRecordsAtPath', () => {
+  const document = { results: { items: [{ id: 1 }], total: 1 } };
+
+  it('follows a dotted path to the record array', () => {
+    expect(getRecordsAtPath(document, 'results.items')).toEqual([{ id: 1 }]);
+  });
+
+  it('names the missing field, or a path that is not an array', () => {
+    expect(() => getRecordsAtPath(document, 'results.rows')).toThrow("no 'rows' field");
+    expect(() => getRecordsAtPath(document, 'results.total')).toThrow('does not point to an array');
+  });
+});
+
+describe('flattenRecord', () => {
+  it('flattens nested objects, keeping arrays and empty objects as values', () => {
+    expect(flattenRecord({ a: 1, rocket: { name: 'x', engine: { count: 9 } }, tags: ['t'], extra: {}, none: null })).toEqual({
+      a: 1, 'rocket.name': 'x', 'rocket.engine.count': 9, tags: ['t'], extra: {}, none: null,
+    });
+    expect(flattenRecord({ rocket: { name: 'x' } }, '__')).toEqual({ rocket__name: 'x' });
+    expect(flattenRecord('plain')).toBe('plain');
+  });
+});
+
+describe('JSONAdapter', () => {
+  const adapter = (dataset: string) => new JSONAdapter({
+    type: 'json',
+    datasetsPath: path.relative(process.cwd(), datasetsDir),
+    defaultDataset: dataset,
+  });
+
+  it('loads JSON Lines files', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    try {
+      expect((await adapter('launches').getData()).map((record: any) => record.name)).toEqual(['FalconSat', 'Trailblazer']);
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  it('applies recordsPath and flattening from metadata.yaml', async () => {
+    expect(await adapter('nested').getData()).toEqual([{ id: 1, rocket_name: 'Falcon 9', rocket_stages: 2, tags: ['crew'] }]);
+  });
+});
@@ -0,0 +1,61 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createAIAdapter } from '@/lib/adapters/ai-adapter-factory';
+
+// A local server speaking the OpenAI chat completions API, without JSON mode (like older llama.cpp)
+let server: http.Server;
+let baseURL: string;
+const requests: any[] = [];
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const request = JSON.parse(body);
+      requests.push({ path: req.url, authorization: req.headers.authorization, ...request });
+      res.setHeader('Content-Type', 'application/json');
+      if (request.response_format) {
+        res.statusCode = 422;
+        res.end(JSON.stringify({ error: { message: 'response_format is not supported' } }));
+        return;
+      }
+      const content = request.messages[0].content.includes('JSON') ? '{"filters": []}' : 'Hello from the local model';
+      res.end(JSON.stringify({
+        id: 'local', object: 'chat.completion', created: 0, model: request.model,
+        choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+      }));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+describe('openai-compatible provider', () => {
+  it('falls back to plain text JSON on servers without JSON mode, once per endpoint', async () => {
+    const context = { system_instruction: 'Plan the query', require_json: true };
+    const first = createAIAdapter({ provider: 'openai-compatible', model: 'llama3', apiKey: '', baseURL });
+
+    expect(await first.chat('How many launches?', context)).toBe('{"filters": []}');
+    expect(requests.map(request => !!request.response_format)).toEqual([true, false]);
+    expect(requests[1].messages[0].content).toContain('Respond with a single valid JSON object only');
+    expect(requests[1]).toMatchObject({ path: '/v1/chat/completions', authorization: 'Bearer not-needed', model: 'llama3' });
+
+    requests.length = 0;
+    const second = createAIAdapter({ provider: 'openai-compatible', model: 'llama3', apiKey: '', baseURL });
+    await second.chat('How many launches?', context);
+    expect(requests.map(request => !!request.response_format)).toEqual([false]);
+  });
+
+  it('answers in plain chat mode', async () => {
+    const adapter = createAIAdapter({ provider: 'openai-compatible', model: 'llama3', apiKey: 'local-key', baseURL });
+
+    expect(await adapter.chat('Hi', { conversationHistory: [] })).toBe('Hello from the local model');
+    expect(requests[requests.length - 1].authorization).toBe('Bearer local-key');
+  });
+});
@@ -0,0 +1,80 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { DuckDBInstance } from '@duckdb/node-api';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { DataSourceConfig } from '@/lib/adapters/data.adapter';
+import { ParquetAdapter } from '@/lib/adapters/parquet.adapter';
+
+let datasetsDir: string;
+let config: DataSourceConfig;
+
+async function writeParquet(filePath: string, select: string) {
+  const instance = await DuckDBInstance.create(':memory:');
+  const connection = await instance.connect();
+  try {
+    await connection.run(`COPY (${select}) TO '${filePath}' (FORMAT PARQUET)`);
+  } finally {
+    connection.closeSync();
+    instance.closeSync();
+  }
+}
+
+beforeAll(async () => {
+  datasetsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'chathero-parquet-'));
+  for (const name of ['launches', 'rockets']) {
+    await fs.mkdir(path.join(datasetsDir, 'parquet', name), { recursive: true });
+  }
+
+  await writeParquet(path.join(datasetsDir, 'parquet', 'launches', 'data.parquet'), `
+    SELECT * FROM (VALUES
+      (1::BIGINT, 'FalconSat', DATE '2006-03-24', TIMESTAMP '2006-03-24 22:30:00', false, 6.7::DECIMAL(5,1), ['a', 'b'], {'name': 'Falcon 1'}),
+      (2::BIGINT, 'Trailblazer', DATE '2008-08-03', TIMESTAMP '2008-08-03 03:34:00', true, 7.0::DECIMAL(5,1), [], {'name': 'Falcon 1'})
+    ) AS t(id, name, day, launched_at, success, cost, tags, rocket)
+  `);
+  await writeParquet(path.join(datasetsDir, 'parquet', 'rockets', 'data.parquet'), `SELECT 'Falcon 9' AS name`);
+
+  config = { type: 'parquet', datasetsPath: path.relative(process.cwd(), datasetsDir), defaultDataset: 'launches' };
+});
+
+afterAll(async () => {
+  await fs.rm(datasetsDir, { recursive: true, force: true });
+});
+
+describe('ParquetAdapter', () => {
+  it('reads records as plain JSON values', async () => {
+    expect(await new ParquetAdapter(config).getData()).toEqual([
+      {
+        id: 1, name: 'FalconSat', day: '2006-03-24', launched_at: '2006-03-24T22:30:00', success: false,
+        cost: 6.7, tags: ['a', 'b'], rocket: { name: 'Falcon 1' },
+      },
+      {
+        id: 2, name: 'Trailblazer', day: '2008-08-03', launched_at: '2008-08-03T03:34:00', success: true,
+        cost: 7, tags: [], rocket: { name: 'Falcon 1' },
+      },
+    ]);
+  });
+
+  it('takes field types from the Parquet schema', async () => {
+    expect(await new ParquetAdapter(config).getFieldTypes()).toEqual({
+      id: 'number', name: 'string', day: 'date', launched_at: 'date', success: 'boolean',
+      cost: 'number', tags: 'array', rocket: 'object',
+    });
+    expect(await new ParquetAdapter(config, ['launches', 'rockets']).getFieldTypes()).toMatchObject({ _dataset_source: 'string' });
+  });
+
+  it('projects columns and limits rows, keeping the row count when no column exists', async () => {
+    const adapter = new ParquetAdapter(config);
+
+    expect(await adapter.getData({ columns: ['name', 'missing'], limit: 1 })).toEqual([{ name: 'FalconSat' }]);
+    expect(await adapter.getData({ columns: ['missing'] })).toEqual([{}, {}]);
+  });
+
+  it('counts rows from the footer and tags records of several datasets', async () => {
+    const adapter = new ParquetAdapter(config, ['launches', 'rockets']);
+
+    expect(await adapter.count()).toBe(3);
+    expect((await adapter.getData({ columns: ['name'] })).map((record: any) => record._dataset_source))
+      .toEqual(['launches', 'launches', 'rockets']);
+  });
+});
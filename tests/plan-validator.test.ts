@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { PlanValidator } from '@/lib/plan-validator';
+
+const validator = new PlanValidator(['vehicle', 'outcome', 'launch_date', 'payload_mass_kg'], ['launch_customers']);
+
+describe('PlanValidator', () => {
+  it('accepts every value form the filter engine accepts', () => {
+    const result = validator.validate({
+      filters: [
+        { field: 'vehicle', operator: 'in', value: 'Falcon 9, Falcon Heavy' },
+        { field: 'outcome', operator: 'not_in', value: ['Failure'] },
+        { field: 'launch_date', operator: 'between', value: { min: '2020', max: '2022' } },
+        { field: 'payload_mass_kg', operator: 'between', value: [1000, 5000] },
+        { or: [{ field: 'outcome', operator: 'is_null' }, { not: { field: 'vehicle', operator: 'equals', value: 'Falcon 1' } }] },
+      ],
+      relationship: 'launch_customers',
+      limit: 10,
+    });
+
+    expect(result).toEqual({ valid: true, errors: [] });
+  });
+
+  it('rejects malformed values with a message for each', () => {
+    const result = validator.validate({
+      filters: [
+        { field: 'vehicle', operator: 'in', value: '' },
+        { field: 'launch_date', operator: 'between', value: { min: '2020' } },
+        { field: 'outcome', operator: 'equals' },
+      ],
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([
+      'filters[0] operator "in" requires a list value',
+      'filters[1] operator "between" requires a [min, max] value',
+      'filters[2] operator "equals" requires a "value"',
+    ]);
+  });
+
+  it('lists the available fields when a plan names an unknown one', () => {
+    const result = validator.validate({ filters: [{ field: 'rocket', operator: 'equals', value: 'x' }], fieldsToInclude: ['vehicle'] });
+
+    expect(result.errors).toEqual([
+      "filters[0] references unknown field 'rocket'",
+      'Available fields: vehicle, outcome, launch_date, payload_mass_kg',
+    ]);
+  });
+
+  it('rejects unknown operators and relationships, and plans with both code and SQL', () => {
+    const result = validator.validate({
+      filters: [{ field: 'vehicle', operator: 'like', value: 'Falcon%' }],
+      relationship: 'missions',
+      generatedCode: 'result = df',
+      sql: 'SELECT 1',
+    });
+
+    expect(result.errors).toEqual([
+      expect.stringContaining('filters[0] has unknown operator "like"'),
+      '"relationship" must be one of: launch_customers',
+      'Return either "generatedCode" or "sql", not both',
+    ]);
+  });
+});
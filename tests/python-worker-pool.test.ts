@@ -0,0 +1,83 @@
+import { spawnSync } from 'child_process';
+import path from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { PythonWorkerPool, WorkerPoolSettings } from '@/lib/python-worker-pool';
+
+// Workers import pandas and numpy at startup
+const hasPandas = spawnSync('python3', ['-c', 'import pandas, numpy'], { stdio: 'ignore' }).status === 0;
+
+const SETTINGS: WorkerPoolSettings = {
+  pythonPath: 'python3',
+  workers: 1,
+  maxExecutionsPerWorker: 50,
+  maxCachedDatasets: 2,
+  timeoutMs: 20000,
+  cpuSeconds: 5,
+  memoryMb: 2048,
+  maxOutputBytes: 1024 * 1024,
+  disableNetwork: true,
+  isolateFilesystem: true,
+  restrictBuiltins: true,
+  allowedImports: ['pandas', 'numpy', 'math', 'datetime'],
+  blockedBuiltins: ['open', 'eval', 'exec', 'compile', 'getattr'],
+  env: { PATH: process.env.PATH || '' },
+};
+
+let pool: PythonWorkerPool | null = null;
+
+function startPool(settings: Partial<WorkerPoolSettings> = {}): PythonWorkerPool {
+  pool = new PythonWorkerPool({ ...SETTINGS, ...settings });
+  return pool;
+}
+
+afterEach(() => {
+  pool?.shutdown();
+  pool = null;
+});
+
+describe.skipIf(!hasPandas)('PythonWorkerPool sandbox', () => {
+  it('cannot read server files, even with open() available', async () => {
+    const file = path.resolve('package.json');
+    const run = await startPool({ restrictBuiltins: false }).execute({ code: `result = open(${JSON.stringify(file)}).read()`, data: [] });
+
+    expect(run.success).toBe(false);
+    expect(run.error).toContain('FileNotFoundError');
+  });
+
+  it('hides internal submodules of the modules generated code is given', async () => {
+    const run = await startPool().execute({
+      code: "result = [hasattr(np, 'ctypeslib'), hasattr(pd, 'io'), hasattr(json, 'codecs'), hasattr(pd, 'DataFrame'), hasattr(np, 'random')]",
+      data: [],
+    });
+
+    expect(run).toEqual({ success: true, result: [false, false, false, true, true] });
+  });
+
+  it('rejects imports of internal submodules', async () => {
+    const run = await startPool().execute({ code: 'from pandas.io import common\nresult = 1', data: [] });
+
+    expect(run.success).toBe(false);
+    expect(run.error).toContain("import of 'pandas.io' is not allowed in the sandbox");
+  });
+});
+
+describe.skipIf(!hasPandas)('PythonWorkerPool jobs', () => {
+  it('discards changes a job makes to pandas before the next job', async () => {
+    const workers = startPool();
+    const patched = await workers.execute({ code: 'pd.DataFrame.sum = lambda self: 999\nresult = int(df.sum())', data: [{ a: 1 }, { a: 2 }] });
+    const next = await workers.execute({ code: "result = int(df['a'].sum())", data: [{ a: 1 }, { a: 2 }] });
+
+    expect(patched).toEqual({ success: true, result: 999 });
+    expect(next).toEqual({ success: true, result: 3 });
+  });
+
+  it('measures the output limit in UTF-8 bytes', async () => {
+    const workers = startPool({ maxOutputBytes: 100 });
+    const ascii = await workers.execute({ code: "result = 'a' * 60", data: [] });
+    const multibyte = await workers.execute({ code: "result = '\u20ac' * 60", data: [] });
+
+    expect(ascii).toEqual({ success: true, result: 'a'.repeat(60) });
+    expect(multibyte.success).toBe(false);
+    expect(multibyte.error).toContain('100 byte output limit');
+  });
+});
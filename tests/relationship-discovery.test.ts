@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET, POST } from '@/app/api/admin/relationships/route';
+import { DatasetSample, SchemaDiscovery } from '@/lib/schema-discovery';
+
+function sample(name: string, data: any[]): DatasetSample {
+  return { name, data, schema: SchemaDiscovery.discover(data) };
+}
+
+const customers = sample('customers', Array.from({ length: 5 }, (_, i) => ({
+  id: i + 1, customer_code: `CU-${100 + i}`, name: `Customer ${i}`,
+})));
+const orders = sample('orders', Array.from({ length: 12 }, (_, i) => ({
+  id: i + 1, customer_id: `CU-${100 + (i % 4)}`, quantity: (i % 5) + 1,
+})));
+
+describe('SchemaDiscovery.discoverRelationships', () => {
+  it('suggests keys with overlapping ID-shaped values, from the unique side', () => {
+    const [suggestion, ...rest] = SchemaDiscovery.discoverRelationships([orders, customers]);
+
+    expect(suggestion.relationship).toEqual({
+      name: 'customers_orders_customer_id',
+      from: 'customers',
+      to: 'orders',
+      keys: [{ from: 'customer_code', to: 'customer_id' }],
+    });
+    expect(suggestion.reasons).toContain("'customer_id' looks like a reference to customers");
+    expect(suggestion.reasons).toContain('customer_code is unique in customers');
+    // Row ids of the two datasets overlap, but say nothing about how they relate
+    expect(rest.some(other => other.relationship.keys?.some(key => key.from === 'id' && key.to === 'id'))).toBe(false);
+  });
+
+  it('suggests date-in-range joins for matching start and end fields', () => {
+    const terms = sample('terms', [
+      { holder: 'A', term_start: '2001-01-01', term_end: '2005-01-01' },
+      { holder: 'B', term_start: '2005-01-01', term_end: '' },
+    ]);
+    const events = sample('events', ['2002-03-04', '2006-07-08', '2020-01-01', '1999-01-01'].map(day => ({ day })));
+
+    const suggestions = SchemaDiscovery.discoverRelationships([events, terms]);
+
+    expect(suggestions).toHaveLength(1);
+    expect(suggestions[0]).toMatchObject({
+      relationship: { from: 'terms', to: 'events', dateRange: { field: 'day', start: 'term_start', end: 'term_end' } },
+      score: 0.8,
+    });
+    expect(suggestions[0].reasons).toEqual([
+      '75% of events.day dates fall within the term_start – term_end ranges of terms',
+      'terms ranges span 2001-01-01 to now',
+      '1 range has no term_end and stays open',
+    ]);
+  });
+
+  it('ignores small value overlaps without a matching name or ID shape', () => {
+    const a = sample('a', [{ color: 'red' }, { color: 'blue' }, { color: 'green' }]);
+    const b = sample('b', [{ paint: 'red' }, { paint: 'blue' }, { paint: 'black' }]);
+
+    expect(SchemaDiscovery.discoverRelationships([a, b])).toEqual([]);
+  });
+});
+
+describe('/api/admin/relationships', () => {
+  it('lists declared relationships without suggesting them again', async () => {
+    const response = await GET(new NextRequest('http://localhost/api/admin/relationships?datasets=us-presidents,spacex-launches'));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.relationships.map((r: any) => r.name)).toContain('president_launches');
+    expect(body.suggestions.some((s: any) =>
+      s.relationship.from === 'us-presidents' && s.relationship.dateRange?.field === 'launch_date' &&
+      s.relationship.dateRange?.start === 'presidential_start'
+    )).toBe(false);
+  });
+
+  it('rejects relationships that are invalid, taken or name missing fields', async () => {
+    const post = async (relationship: any) => {
+      const response = await POST(new NextRequest('http://localhost/api/admin/relationships', {
+        method: 'POST',
+        body: JSON.stringify({ relationship }),
+      }));
+      return { status: response.status, error: (await response.json()).error };
+    };
+
+    expect(await post({ name: 'no_conditions', from: 'us-presidents', to: 'spacex-launches' }))
+      .toEqual({ status: 400, error: 'set "keys", "dateRange" or both' });
+    expect(await post({ name: 'president_launches', from: 'us-presidents', to: 'spacex-launches', keys: [{ from: 'a', to: 'b' }] }))
+      .toEqual({ status: 400, error: "A relationship named 'president_launches' already exists" });
+    expect(await post({ name: 'by_party', from: 'us-presidents', to: 'spacex-launches', keys: [{ from: 'party', to: 'owner' }] }))
+      .toEqual({ status: 400, error: "spacex-launches has no field 'owner'" });
+  });
+});
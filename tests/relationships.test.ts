@@ -0,0 +1,143 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MAX_JOINED_ROWS, joinRecords } from '@/lib/join-engine';
+import {
+  Relationship, isSameRelationship, loadRelationships, relationshipsFor, saveRelationship, validateRelationship,
+} from '@/lib/relationships';
+import { SchemaDiscovery } from '@/lib/schema-discovery';
+
+const presidents = [
+  { name: 'Obama', start: '2009-01-20', end: '2017-01-20' },
+  { name: 'Trump', start: '2017-01-20', end: '2021-01-20' },
+  { name: 'Biden', start: '2021-01-20', end: '' },
+];
+const launches = [
+  { name: 'Crew-1', date: '2020-11-16T00:27', rocket: 'F9' },
+  { name: 'CRS-10', date: '2017-02-19', rocket: 'F9' },
+  { name: 'Inauguration day', date: '2017-01-20T12:00:00Z', rocket: 'FH' },
+  { name: 'Crew-2', date: '2021-04-23', rocket: 'F9' },
+  { name: 'No date', date: '', rocket: 'F9' },
+];
+const rockets = [
+  { id: 'F9', name: 'Falcon 9' },
+  { id: 'FH', name: 'Falcon Heavy' },
+  { id: 'F9', name: 'Falcon 9 Block 5' },
+];
+
+function join(relationship: Relationship, from: any[], to: any[]) {
+  return joinRecords(relationship, from, to, SchemaDiscovery.discover(from), SchemaDiscovery.discover(to));
+}
+
+describe('joinRecords', () => {
+  const terms: Relationship = {
+    name: 'launches_by_term', from: 'us-presidents', to: 'spacex-launches',
+    dateRange: { field: 'date', start: 'start', end: 'end' },
+  };
+
+  it('matches records within each [start, end) range, ordered by date, prefixing taken names', () => {
+    const result = join(terms, presidents, launches);
+
+    expect(result.records.map(row => [row.name, row['spacex-launches.name']])).toEqual([
+      ['Trump', 'Inauguration day'],
+      ['Trump', 'CRS-10'],
+      ['Trump', 'Crew-1'],
+      ['Biden', 'Crew-2'],
+    ]);
+    expect(result.matchedFrom).toBe(2);
+    expect(result.schema.fields.map(field => field.name)).toEqual(['name', 'start', 'end', 'spacex-launches.name', 'date', 'rocket']);
+  });
+
+  it('keeps unmatched records in left joins, and covers the whole end day when inclusive', () => {
+    const result = join(
+      { ...terms, type: 'left', dateRange: { field: 'date', start: 'start', end: 'end', endInclusive: true } },
+      presidents,
+      launches
+    );
+
+    expect(result.records.map(row => [row.name, row.date])).toEqual([
+      ['Obama', '2017-01-20T12:00:00Z'],
+      ['Trump', '2017-01-20T12:00:00Z'],
+      ['Trump', '2017-02-19'],
+      ['Trump', '2020-11-16T00:27'],
+      ['Biden', '2021-04-23'],
+    ]);
+  });
+
+  it('joins on keys, never matching empty keys', () => {
+    const result = join(
+      { name: 'launch_rockets', from: 'spacex-launches', to: 'rockets', type: 'left', keys: [{ from: 'rocket', to: 'id' }] },
+      [...launches.slice(0, 3), { name: 'Unknown', date: '2022-01-01', rocket: ' ' }],
+      rockets
+    );
+
+    expect(result.records.map(row => [row.name, row['rockets.name']])).toEqual([
+      ['Crew-1', 'Falcon 9'],
+      ['Crew-1', 'Falcon 9 Block 5'],
+      ['CRS-10', 'Falcon 9'],
+      ['CRS-10', 'Falcon 9 Block 5'],
+      ['Inauguration day', 'Falcon Heavy'],
+      ['Unknown', null],
+    ]);
+    expect(result.matchedFrom).toBe(3);
+  });
+
+  it('stops joins that multiply past the row limit', () => {
+    const many = Array.from({ length: 1000 }, (_, id) => ({ id, key: 'same' }));
+    expect(() => join({ name: 'cross', from: 'a', to: 'b', keys: [{ from: 'key', to: 'key' }] }, many, many))
+      .toThrow(`joins to more than ${MAX_JOINED_ROWS} rows`);
+  });
+});
+
+describe('relationship declarations', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'chathero-relationships-'));
+    await fs.mkdir(path.join(dir, 'config'));
+    vi.spyOn(process, 'cwd').mockReturnValue(dir);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('validates entries', () => {
+    expect(validateRelationship({ name: 'ok', from: 'a', to: 'b', keys: [{ from: 'x', to: 'y' }] })).toEqual([]);
+    expect(validateRelationship({ name: '1bad', from: 'a', to: '', type: 'outer' })).toEqual([
+      '"name" must be letters, digits and underscores, not starting with a digit',
+      '"from" and "to" must name datasets',
+      '"type" must be "inner" or "left"',
+      'set "keys", "dateRange" or both',
+    ]);
+  });
+
+  it('saves relationships, skipping invalid and duplicate entries when loading', async () => {
+    expect(await loadRelationships()).toEqual([]);
+
+    const relationship: Relationship = { name: 'launch_rockets', from: 'launches', to: 'rockets', keys: [{ from: 'rocket', to: 'id' }] };
+    await fs.writeFile(path.join(dir, 'config', 'relationships.yaml'), 'relationships:\n  - name: broken\n');
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(await saveRelationship(relationship)).toEqual([relationship]);
+    await expect(saveRelationship(relationship)).rejects.toThrow("named 'launch_rockets' already exists");
+    await expect(saveRelationship({ ...relationship, name: 'no_keys', keys: [] })).rejects.toThrow('Invalid relationship');
+
+    const content = await fs.readFile(path.join(dir, 'config', 'relationships.yaml'), 'utf-8');
+    expect(content).toMatch(/^# Declared joins/);
+    expect(content).toContain('name: broken');
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('skipping relationships[0]'));
+  });
+
+  it('compares relationships in either direction, except date ranges', () => {
+    const keys: Relationship = { name: 'a', from: 'launches', to: 'rockets', keys: [{ from: 'rocket', to: 'id' }] };
+    const range: Relationship = { name: 'b', from: 'presidents', to: 'launches', dateRange: { field: 'date', start: 'start' } };
+
+    expect(isSameRelationship(keys, { name: 'c', from: 'rockets', to: 'launches', keys: [{ from: 'id', to: 'rocket' }] })).toBe(true);
+    expect(isSameRelationship(range, { ...range, name: 'd' })).toBe(true);
+    expect(isSameRelationship(range, { name: 'e', from: 'launches', to: 'presidents', dateRange: { field: 'start', start: 'date' } })).toBe(false);
+    expect(relationshipsFor([keys, range], ['launches', 'rockets'])).toEqual([keys]);
+  });
+});
@@ -0,0 +1,58 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { ReplayAIAdapter } from '@/lib/adapters/replay.adapter';
+import { AIAdapter, AIConfig } from '@/lib/adapters/ai.adapter';
+
+let fixturesDir: string;
+const liveCalls: string[] = [];
+const live: AIAdapter = {
+  async chat(message: string) {
+    liveCalls.push(message);
+    return `live answer to ${message}`;
+  },
+};
+
+function replayAdapter(mode: 'record' | 'replay' | 'auto', model = 'gpt-4o'): ReplayAIAdapter {
+  const config: AIConfig = {
+    provider: 'replay', model, apiKey: '', replay: { mode, fixturesPath: path.relative(process.cwd(), fixturesDir) },
+  };
+  return new ReplayAIAdapter(config, undefined, () => live);
+}
+
+beforeAll(async () => {
+  fixturesDir = await fs.mkdtemp(path.join(os.tmpdir(), 'chathero-fixtures-'));
+});
+
+afterAll(async () => {
+  await fs.rm(fixturesDir, { recursive: true, force: true });
+});
+
+describe('ReplayAIAdapter', () => {
+  const plan = { system_instruction: 'Plan the query', require_json: true };
+
+  it('records a missing response in auto mode and replays it afterwards', async () => {
+    expect(await replayAdapter('auto').chat('How many launches?', plan)).toBe('live answer to How many launches?');
+    expect(await replayAdapter('replay').chat('How many launches?', plan)).toBe('live answer to How many launches?');
+
+    expect(liveCalls).toEqual(['How many launches?']);
+    const [file] = await fs.readdir(fixturesDir);
+    expect(JSON.parse(await fs.readFile(path.join(fixturesDir, file), 'utf-8'))).toMatchObject({
+      model: 'gpt-4o', mode: 'json', message: 'How many launches?', response: 'live answer to How many launches?',
+    });
+  });
+
+  it('fails in replay mode when the prompt, message or model was not recorded', async () => {
+    await expect(replayAdapter('replay').chat('How many launches?', { ...plan, system_instruction: 'Plan it' }))
+      .rejects.toThrow(/no recorded response for key \w+ \(json, model gpt-4o\)/);
+    await expect(replayAdapter('replay', 'gpt-4o-mini').chat('How many launches?', plan)).rejects.toThrow(/model gpt-4o-mini/);
+  });
+
+  it('keys answers without the current date, so they replay on any day', async () => {
+    const answer = (date: string) => ({ current_date: date, data: [{ launches: 578 }], conversationHistory: [] });
+    await replayAdapter('record').chat('Summarise', answer('2026-01-01'));
+
+    expect(await replayAdapter('replay').chat('Summarise', answer('2027-06-30'))).toBe('live answer to Summarise');
+  });
+});
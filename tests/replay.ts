@@ -0,0 +1,41 @@
+// Shared setup for the chat route tests. The pipeline runs against the bundled datasets with every
+// AI response served from fixtures/ai by the replay provider, so no network or API key is needed.
+// Prompts that change (pipeline, dataset or README edits) need their fixtures recorded again:
+// AI_REPLAY_MODE=record OPENAI_API_KEY=... npm test
+// The bundled fixtures were recorded through a scripted stand-in for the OpenAI adapter, as no provider
+// was reachable where they were made: they pin the prompts and how the pipeline handles fixed plans and
+// answers, not a model's behaviour. Recording against a live model replaces them, and the expected
+// answers in the chat tests then need updating to what the model said.
+
+import { NextRequest } from 'next/server';
+import type { AppConfig } from '@/lib/config';
+
+/**
+ * The app config with the AI settings the fixtures were recorded with (fixture keys include the model)
+ */
+export function withReplayProvider(config: AppConfig): AppConfig {
+  return {
+    ...config,
+    ai: {
+      provider: 'replay',
+      model: 'gpt-4o',
+      queryAnalyzerModel: 'gpt-4o',
+      apiKey: process.env.OPENAI_API_KEY || '',
+      replay: { mode: 'replay', fixturesPath: './fixtures/ai', provider: 'openai' },
+    },
+  };
+}
+
+/**
+ * POST request for a chat route, with the dataset selection cookie the UI sets
+ */
+export function chatRequest(route: string, message: string, datasets: string[]): NextRequest {
+  return new NextRequest(`http://localhost${route}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Cookie: `selectedDatasets=${datasets.join(',')}`,
+    },
+    body: JSON.stringify({ message, conversationHistory: [] }),
+  });
+}
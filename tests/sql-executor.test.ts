@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { SqlExecutor, describeSqlTables, sqlTableColumns, sqlTableName } from '@/lib/sql-executor';
+import { SchemaDiscovery } from '@/lib/schema-discovery';
+import { CachedDataSource } from '@/lib/python-worker-pool';
+
+const executor = new SqlExecutor(undefined, { timeoutMs: 20000 });
+
+function source(name: string, version: string, records: any[]): CachedDataSource {
+  return { name, version, records, rows: null, columns: null };
+}
+
+describe('sqlTableName', () => {
+  it('makes dataset names usable as table names', () => {
+    expect(sqlTableName('spacex-launches')).toBe('spacex_launches');
+    expect(sqlTableName('2024 Sales')).toBe('t_2024_sales');
+  });
+});
+
+describe('SqlExecutor', () => {
+  it('queries one table per _dataset_source', async () => {
+    const records = [
+      { _dataset_source: 'launches', vehicle: 'Falcon 9', payload: 10 },
+      { _dataset_source: 'launches', vehicle: 'Falcon 9', payload: 5 },
+      { _dataset_source: 'presidents', name: 'Joe Biden' },
+    ];
+    expect(describeSqlTables(records, 'launches+presidents')).toEqual({ launches: ['vehicle', 'payload'], presidents: ['name'] });
+
+    const run = await executor.execute(
+      'SELECT vehicle, SUM(payload) AS payload, (SELECT COUNT(*) FROM presidents) AS presidents FROM launches GROUP BY vehicle',
+      source('launches+presidents', 'v1', records)
+    );
+    expect(run).toEqual({ success: true, result: [{ vehicle: 'Falcon 9', payload: 15, presidents: 1 }] });
+  });
+
+  it('creates tables without selected records from their columns', async () => {
+    const schema = SchemaDiscovery.discover([{ outcome: 'Success', payload: 10 }]);
+    const columns = sqlTableColumns({ launches: ['outcome', 'payload'] }, schema);
+
+    const run = await executor.execute(
+      "SELECT COUNT(*) AS launches, SUM(payload) AS payload FROM launches WHERE outcome = 'Failure'",
+      source('launches', 'empty', []),
+      undefined,
+      columns
+    );
+    expect(run).toEqual({ success: true, result: [{ launches: 0, payload: null }] });
+  });
+
+  it('rejects statements that write', async () => {
+    const run = await executor.execute("COPY (SELECT 1) TO '/tmp/out.csv'", source('writes', 'v1', [{ a: 1 }]));
+
+    expect(run.success).toBe(false);
+  });
+
+  it('finishes a query on a database that a newer version replaces meanwhile', async () => {
+    const records = [{ a: 1 }];
+    await executor.execute('SELECT 1', source('replaced', 'v1', records));
+
+    const slow = executor.execute('SELECT COUNT(*) AS n FROM range(200000000) t(i) WHERE i % 7 = 0', source('replaced', 'v1', records));
+    const newer = executor.execute('SELECT COUNT(*) AS n FROM replaced', source('replaced', 'v2', records));
+
+    expect(await newer).toEqual({ success: true, result: [{ n: 1 }] });
+    expect(await slow).toEqual({ success: true, result: [{ n: 28571429 }] });
+    // The replaced database is closed once its query has finished; the new one still answers
+    expect(await executor.execute('SELECT a FROM replaced', source('replaced', 'v2', records))).toEqual({ success: true, result: [{ a: 1 }] });
+  });
+});
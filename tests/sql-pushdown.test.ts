@@ -0,0 +1,91 @@
+import Database from 'better-sqlite3';
+import { describe, expect, it } from 'vitest';
+import { MYSQL_DIALECT, POSTGRES_DIALECT, SQLITE_DIALECT, translateFilters } from '@/lib/adapters/sql-pushdown';
+import { FilterEngine } from '@/lib/filter-engine';
+import { DiscoveredFieldType, SchemaDiscovery } from '@/lib/schema-discovery';
+import { FilterNode } from '@/lib/types';
+
+const fieldTypes: Record<string, DiscoveredFieldType> = { name: 'string', cost: 'number', launched: 'date' };
+
+describe('translateFilters', () => {
+  it('numbers PostgreSQL parameters across filters and groups, typing numbers', () => {
+    const result = translateFilters([
+      { field: 'name', operator: 'equals', value: 'Falcon 9' },
+      { or: [{ field: 'cost', operator: 'greater_than', value: '$1,000' }, { not: { field: 'name', operator: 'is_null' } }] },
+    ], fieldTypes, POSTGRES_DIALECT, 3);
+
+    expect(result.where).toBe(
+      '("name" IS NOT NULL AND "name" = $3) AND (("cost" IS NOT NULL AND "cost" > $4::numeric) OR NOT (("name" IS NULL OR "name" = \'\')))'
+    );
+    expect(result.params).toEqual(['Falcon 9', 1000]);
+    expect(result.remaining).toEqual([]);
+  });
+
+  it('compares MySQL text by its bytes and escapes LIKE patterns', () => {
+    const result = translateFilters([{ field: 'name', operator: 'contains', value: '50%_Off!' }], fieldTypes, MYSQL_DIALECT);
+
+    expect(result.where).toBe(
+      '(`name` IS NOT NULL AND CAST(CONVERT(`name` USING utf8mb4) AS BINARY) <> \'\' AND ' +
+      'CAST(CONVERT(LOWER(`name`) USING utf8mb4) AS BINARY) LIKE ? ESCAPE \'!\')'
+    );
+    expect(result.params).toEqual(['%50!%!_off!!%']);
+  });
+
+  it('leaves filters SQL cannot evaluate like FilterEngine to the caller', () => {
+    const filters: FilterNode[] = [
+      { field: 'launched', operator: 'greater_than', value: '2020' },
+      { field: 'name', operator: 'contains', value: 'Ä' },
+      { field: 'name', operator: 'greater_than', value: 'F' },
+      { field: 'unknown', operator: 'equals', value: 1 },
+      { field: 'cost', operator: 'in', value: [1, 'many'] },
+      { and: [{ field: 'cost', operator: 'equals', value: 5 }, { field: 'launched', operator: 'is_null' }] },
+      { field: 'cost', operator: 'less_than', value: 10 },
+    ];
+    const result = translateFilters(filters, fieldTypes, SQLITE_DIALECT);
+
+    expect(result.remaining).toEqual(filters.slice(0, 6));
+    expect(result.pushed).toEqual([filters[6]]);
+    // The abandoned group's parameter is not left behind
+    expect(result.params).toEqual([10]);
+  });
+});
+
+describe('translateFilters on SQLite', () => {
+  const records = [
+    { id: 1, name: 'Falcon 1', cost: 7 },
+    { id: 2, name: 'Falcon 9', cost: 62 },
+    { id: 3, name: 'falcon heavy', cost: 90 },
+    { id: 4, name: '', cost: null },
+    { id: 5, name: null, cost: 0 },
+    { id: 6, name: '100%_sure', cost: 1 },
+  ];
+  const db = new Database(':memory:');
+  db.exec('CREATE TABLE launches (id INTEGER, name TEXT, cost REAL)');
+  const insert = db.prepare('INSERT INTO launches VALUES (?, ?, ?)');
+  records.forEach(record => insert.run(record.id, record.name, record.cost));
+  const engine = new FilterEngine(SchemaDiscovery.discover(records, { id: 'number', name: 'string', cost: 'number' }));
+
+  const cases: FilterNode[] = [
+    { field: 'name', operator: 'equals', value: 'Falcon 9' },
+    { field: 'name', operator: 'not_equals', value: 'Falcon 9' },
+    { field: 'name', operator: 'is_null' },
+    { field: 'name', operator: 'not_null' },
+    { field: 'name', operator: 'contains', value: 'FALCON' },
+    { field: 'name', operator: 'contains', value: '%_' },
+    { field: 'name', operator: 'starts_with', value: 'falcon ' },
+    { field: 'name', operator: 'not_in', value: ['Falcon 1', 'Falcon 9'] },
+    { field: 'cost', operator: 'equals', value: '0' },
+    { field: 'cost', operator: 'not_equals', value: 7 },
+    { field: 'cost', operator: 'between', value: ['$1', 62] },
+    { field: 'cost', operator: 'is_null' },
+    { not: { or: [{ field: 'cost', operator: 'greater_than', value: 50 }, { field: 'name', operator: 'is_null' }] } },
+  ];
+
+  it.each(cases.map(filter => [JSON.stringify(filter), filter]))('matches FilterEngine for %s', (_, filter) => {
+    const { where, params, remaining } = translateFilters([filter as FilterNode], { name: 'string', cost: 'number' }, SQLITE_DIALECT);
+    const ids = db.prepare(`SELECT id FROM launches WHERE ${where} ORDER BY id`).all(...params).map((row: any) => row.id);
+
+    expect(remaining).toEqual([]);
+    expect(ids).toEqual(engine.apply(records, [filter as FilterNode]).map(record => record.id));
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { SqlValidator } from '@/lib/sql-validator';
+
+const validator = new SqlValidator(['spacex_launches', 'us_presidents']);
+
+describe('SqlValidator', () => {
+  it('approves a single SELECT over the dataset tables, with CTEs, joins and subqueries', () => {
+    const queries = [
+      "SELECT COUNT(*) AS failures FROM spacex_launches WHERE outcome = 'Failure'",
+      'WITH yearly AS (SELECT EXTRACT(year FROM launch_date) AS year, COUNT(*) AS n FROM spacex_launches GROUP BY 1) SELECT * FROM yearly ORDER BY n DESC',
+      'SELECT p.name, COUNT(*) FROM US_Presidents p JOIN spacex_launches l ON l.launch_date BETWEEN p.presidential_start AND p.presidential_end GROUP BY p.name',
+      'SELECT * FROM spacex_launches WHERE vehicle IN (SELECT vehicle FROM spacex_launches GROUP BY vehicle HAVING COUNT(*) > 10)',
+    ];
+
+    queries.forEach(sql => expect(validator.validate(sql)).toEqual({ approved: true, errors: [] }));
+  });
+
+  it('rejects writes and more than one statement', () => {
+    expect(validator.validate('DROP TABLE spacex_launches').approved).toBe(false);
+    expect(validator.validate("UPDATE spacex_launches SET outcome = 'Success'").errors).toEqual(['Only SELECT/WITH queries are allowed, got UPDATE']);
+    expect(validator.validate('SELECT 1; DELETE FROM spacex_launches').errors).toEqual(['Exactly one SQL statement is allowed']);
+  });
+
+  it('rejects unknown tables and table functions that read files', () => {
+    expect(validator.validate('SELECT * FROM launches').errors).toEqual([
+      "Unknown table 'launches'. Available tables: spacex_launches, us_presidents",
+    ]);
+    expect(validator.validate("SELECT * FROM read_csv_auto('/etc/passwd')").approved).toBe(false);
+  });
+
+  it('reports SQL that does not parse', () => {
+    expect(validator.validate('SELECT FROM WHERE').errors[0]).toMatch(/^SQL could not be parsed/);
+  });
+});
@@ -0,0 +1,96 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { SQLiteAdapter } from '@/lib/adapters/sqlite.adapter';
+import { DataSourceConfig } from '@/lib/adapters/data.adapter';
+
+let datasetsDir: string;
+let config: DataSourceConfig;
+
+async function writeDataset(name: string, settings: Record<string, string>) {
+  const dir = path.join(datasetsDir, 'sqlite', name);
+  await fs.mkdir(dir, { recursive: true });
+  const lines = Object.entries(settings).map(([key, value]) => `  ${key}: ${JSON.stringify(value)}`);
+  await fs.writeFile(path.join(dir, 'metadata.yaml'), ['sqlite:', ...lines].join('\n'));
+}
+
+beforeAll(async () => {
+  datasetsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'chathero-sqlite-'));
+  const db = new Database(path.join(datasetsDir, 'launches.db'));
+  db.exec(`
+    CREATE TABLE launches (id INTEGER PRIMARY KEY, vehicle TEXT, cost REAL, reused BOOLEAN);
+    INSERT INTO launches VALUES (3, 'Falcon Heavy', 90, 1), (1, 'Falcon 1', 7, 0), (4, 'Falcon 9', '', 1), (2, 'Falcon 9', 62, 0);
+    CREATE TABLE log (message TEXT);
+    INSERT INTO log VALUES ('b'), ('a'), ('c');
+  `);
+  db.close();
+
+  await writeDataset('launches', { database: '../../launches.db', table: 'launches' });
+  await writeDataset('log', { database: '../../launches.db', table: 'log' });
+  await writeDataset('falcon-9', { database: '../../launches.db', query: "SELECT * FROM launches WHERE vehicle = 'Falcon 9'" });
+  config = { type: 'json', datasetsPath: path.relative(process.cwd(), datasetsDir) };
+});
+
+afterAll(async () => {
+  await fs.rm(datasetsDir, { recursive: true, force: true });
+});
+
+describe('SQLiteAdapter', () => {
+  it('pushes down filters on columns stored as declared', async () => {
+    const result = await new SQLiteAdapter(config, 'launches').query({
+      filters: [
+        { field: 'vehicle', operator: 'equals', value: 'Falcon 9' },
+        { field: 'cost', operator: 'greater_than', value: 50 },
+      ],
+    });
+
+    // cost holds '' in one row, which SQL compares differently from FilterEngine
+    expect(result.remainingFilters).toEqual([{ field: 'cost', operator: 'greater_than', value: 50 }]);
+    expect(result.records.map(record => record.id).sort()).toEqual([2, 4]);
+    expect(result.records.find(record => record.id === 2).reused).toBe(false);
+  });
+
+  it('checks how columns are stored once per version of the database', async () => {
+    const prepare = vi.spyOn(Database.prototype, 'prepare');
+    const storageChecks = () => prepare.mock.calls.filter(([sql]) => sql.includes('typeof(')).length;
+    const filters = [{ field: 'vehicle', operator: 'equals' as const, value: 'Falcon 9' }];
+    const adapter = new SQLiteAdapter(config, 'launches');
+
+    try {
+      await adapter.query({ filters });
+      const checks = storageChecks();
+      expect((await adapter.query({ filters })).remainingFilters).toEqual([]);
+      expect(storageChecks()).toBe(checks);
+
+      // A blob stored in the text column stops the filter from being pushed down
+      const db = new Database(path.join(datasetsDir, 'launches.db'));
+      db.exec("INSERT INTO launches VALUES (5, X'09', 60, 1)");
+      db.close();
+      expect((await adapter.query({ filters })).remainingFilters).toEqual(filters);
+      expect(storageChecks()).toBe(checks + 1);
+    } finally {
+      prepare.mockRestore();
+      const db = new Database(path.join(datasetsDir, 'launches.db'));
+      db.exec('DELETE FROM launches WHERE id = 5');
+      db.close();
+    }
+  });
+
+  it('reads pages in primary key order, or rowid order without a key', async () => {
+    const launches = new SQLiteAdapter(config, 'launches');
+    const log = new SQLiteAdapter(config, 'log');
+
+    const second = await launches.query({ fields: ['id'], offset: 2, limit: 2, withTotal: true });
+    expect(second).toMatchObject({ limitApplied: true, total: 4, records: [{ id: 3 }, { id: 4 }] });
+    expect((await log.query({ offset: 1, limit: 1 })).records).toEqual([{ message: 'a' }]);
+  });
+
+  it('leaves pages of a saved query to the caller', async () => {
+    const result = await new SQLiteAdapter(config, 'falcon-9').query({ offset: 1, limit: 1 });
+
+    expect(result.limitApplied).toBe(false);
+    expect(result.records).toHaveLength(2);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { StaticCodeValidator } from '@/lib/static-code-validator';
+
+const validator = new StaticCodeValidator();
+
+describe('StaticCodeValidator', () => {
+  it('approves in-memory pandas code', async () => {
+    const result = await validator.validate([
+      'import pandas as pd',
+      "df['date'] = pd.to_datetime(df['date'])",
+      "df['amount'] = pd.to_numeric(df['amount'], errors='coerce')",
+      "result = df.groupby(df['date'].dt.year)['amount'].sum().to_dict()",
+    ].join('\n'));
+
+    expect(result).toEqual({ approved: true, errors: [] });
+  });
+
+  it('requires a result variable', async () => {
+    const result = await validator.validate('total = len(df)');
+
+    expect(result.approved).toBe(false);
+    expect(result.errors).toEqual(['Code must assign a "result" variable']);
+  });
+
+  it('rejects imports outside the allow-list', async () => {
+    const result = await validator.validate('import os\nresult = os.listdir(".")');
+
+    expect(result.approved).toBe(false);
+    expect(result.errors[0]).toContain("import of 'os' is not allowed");
+  });
+
+  it.each([
+    ['pd.read_csv', "result = pd.read_csv('/etc/passwd')"],
+    ['pd.read_pickle', "result = pd.read_pickle('payload.pkl')"],
+    ['df.to_csv', "df.to_csv('/tmp/out.csv')\nresult = 1"],
+    ['df.to_pickle', "df.to_pickle('/tmp/out.pkl')\nresult = 1"],
+    ['df.to_string', "result = df.to_string('/tmp/out.txt')"],
+    ['np.load', "result = np.load('data.npy', allow_pickle=True)"],
+    ['np.loadtxt', "result = np.loadtxt('/etc/hosts')"],
+    ['np.fromfile', "result = np.fromfile('/etc/hosts')"],
+    ['np.save', "np.save('/tmp/out.npy', df.values)\nresult = 1"],
+    ['np.savetxt', "np.savetxt('/tmp/out.txt', df.values)\nresult = 1"],
+    ['np.savez', "np.savez('/tmp/out.npz', a=df.values)\nresult = 1"],
+    ['df.query', "result = df.query('@pd.io.common.os.system(\"id\")')"],
+    ['df.eval', "result = df.eval('a + b')"],
+  ])('rejects %s', async (name, code) => {
+    const result = await validator.validate(code);
+
+    expect(result.approved).toBe(false);
+    expect(result.errors.some(error => error.includes(`'.${name.split('.')[1]}' is not allowed`))).toBe(true);
+  });
+
+  it.each([
+    ['ctypeslib', "result = np.ctypeslib.ctypes.CDLL(None).system(b'id')"],
+    ['io', "result = pd.io.common.get_handle('/root/tree/.env', 'r').handle.read()"],
+    ['sys', "result = datetime.sys.modules['os'].listdir('/')"],
+    ['codecs', "result = json.codecs.open('/root/tree/.env').read()"],
+    ['lib', "result = np.lib.npyio.DataSource().open('/etc/hosts').read()"],
+    ['_libs', 'result = pd._libs.lib'],
+  ])('rejects module internals reached through .%s', async (attribute, code) => {
+    const result = await validator.validate(code);
+
+    expect(result.approved).toBe(false);
+    expect(result.errors.some(error => error.includes(`'.${attribute}' is not allowed`))).toBe(true);
+  });
+
+  it.each([
+    'import numpy.ctypeslib\nresult = 1',
+    'from numpy import ctypeslib\nresult = 1',
+    'from pandas.io.common import get_handle\nresult = 1',
+  ])('rejects imports of module internals: %s', async code => {
+    const result = await validator.validate(code);
+
+    expect(result.approved).toBe(false);
+    expect(result.errors[0]).toMatch(/import of '(ctypeslib|io)' is not allowed/);
+  });
+
+  it('rejects builtins that reach the filesystem or evaluate code', async () => {
+    const result = await validator.validate("result = open('/etc/passwd').read()");
+
+    expect(result.approved).toBe(false);
+    expect(result.errors[0]).toContain("use of 'open' is not allowed");
+  });
+
+  it('rejects dunder attribute access', async () => {
+    const result = await validator.validate('result = df.__class__');
+
+    expect(result.approved).toBe(false);
+    expect(result.errors[0]).toContain("dunder attribute '__class__'");
+  });
+});
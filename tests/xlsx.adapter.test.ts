@@ -0,0 +1,76 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import ExcelJS from 'exceljs';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { DataSourceConfig } from '@/lib/adapters/data.adapter';
+import { XLSXAdapter, sheetDatasetNames } from '@/lib/adapters/xlsx.adapter';
+
+let datasetsDir: string;
+let bookDir: string;
+let config: DataSourceConfig;
+
+beforeAll(async () => {
+  datasetsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'chathero-xlsx-'));
+  bookDir = path.join(datasetsDir, 'xlsx', 'book');
+  await fs.mkdir(bookDir, { recursive: true });
+
+  const workbook = new ExcelJS.Workbook();
+  const launches = workbook.addWorksheet('Launches');
+  launches.addRow(['Launch report']);
+  launches.addRow([' name ', 'date', 'serial', 'cost', 'cost', '']);
+  launches.addRow([
+    { richText: [{ text: 'Falcon' }, { text: 'Sat' }] },
+    new Date(Date.UTC(2006, 2, 24)),
+    38800.5,
+    { formula: '1+1', result: 2 },
+    7,
+    'x',
+  ]);
+  launches.addRow([]);
+  launches.addRow(['  ', null, null, { error: '#DIV/0!' }]);
+  launches.addRow(['Trailblazer', new Date(Date.UTC(2008, 7, 3, 3, 34)), 39663, 3, 4, null]);
+  const rockets = workbook.addWorksheet('Rockets');
+  rockets.addRow(['Rocket list']);
+  rockets.addRow(['rocket']);
+  rockets.addRow(['Falcon 1']);
+  await workbook.xlsx.writeFile(path.join(bookDir, 'data.xlsx'));
+
+  await fs.writeFile(path.join(bookDir, 'metadata.yaml'), 'xlsx:\n  headerRow: 2\n  sheets: all\n');
+  await fs.writeFile(path.join(bookDir, 'schema.yaml'), 'dataSchema:\n  fields:\n    - name: serial\n      type: date\n');
+
+  config = { type: 'xlsx', datasetsPath: path.relative(process.cwd(), datasetsDir), defaultDataset: 'book' };
+});
+
+afterAll(async () => {
+  await fs.rm(datasetsDir, { recursive: true, force: true });
+});
+
+describe('XLSXAdapter', () => {
+  it('reads the first sheet from the header row, converting cells to plain values', async () => {
+    expect(await new XLSXAdapter(config).getData()).toEqual([
+      {
+        name: 'FalconSat', date: '2006-03-24', serial: '2006-03-24T12:00:00', cost: 2, cost_2: 7, column_6: 'x',
+      },
+      {
+        name: 'Trailblazer', date: '2008-08-03T03:34:00', serial: '2008-08-03', cost: 3, cost_2: 4, column_6: null,
+      },
+    ]);
+  });
+
+  it('reads a sheet dataset, and tags records when reading several datasets', async () => {
+    expect(await new XLSXAdapter(config, 'book/Rockets').getData()).toEqual([{ rocket: 'Falcon 1' }]);
+
+    const records = await new XLSXAdapter(config, ['book/Rockets', 'book/Launches']).getData();
+    expect(records.map((record: any) => [record.rocket ?? record.name, record._dataset_source])).toEqual([
+      ['Falcon 1', 'book/Rockets'],
+      ['FalconSat', 'book/Launches'],
+      ['Trailblazer', 'book/Launches'],
+    ]);
+  });
+
+  it('lists every sheet as a dataset when metadata.yaml sets sheets: all', async () => {
+    expect(await sheetDatasetNames(bookDir, 'book')).toEqual(['book/Launches', 'book/Rockets']);
+    expect(await sheetDatasetNames(path.join(datasetsDir, 'xlsx', 'missing'), 'missing')).toEqual([]);
+  });
+});